@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "ImportProfile" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "columnMapping" JSONB NOT NULL,
+    "dateFormat" TEXT,
+    "authorDelimiter" TEXT,
+    "outletRules" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ImportProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportProfile_name_key" ON "ImportProfile"("name");
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "ImportSession" ADD COLUMN     "fileName" TEXT,
+ADD COLUMN     "inputMethod" "InputMethod" NOT NULL DEFAULT 'newsapi';
+
+-- CreateTable
+CREATE TABLE "ImportSessionItem" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "outcome" TEXT NOT NULL,
+    "reason" TEXT,
+    "articleId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ImportSessionItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportSessionItem_sessionId_outcome_idx" ON "ImportSessionItem"("sessionId", "outcome");
+
+-- AddForeignKey
+ALTER TABLE "ImportSessionItem" ADD CONSTRAINT "ImportSessionItem_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "ImportSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ImportSession" ADD COLUMN     "cursor" TEXT,
+ADD COLUMN     "errorMessage" TEXT,
+ADD COLUMN     "lastCompletedPage" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "requestConfig" JSONB;
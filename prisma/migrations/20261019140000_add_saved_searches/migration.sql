@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "ImportSession" ADD COLUMN     "savedSearchId" TEXT;
+
+-- CreateTable
+CREATE TABLE "SavedSearch" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "searchTerms" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "sources" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "useBooleanQuery" BOOLEAN NOT NULL DEFAULT false,
+    "booleanQuery" TEXT,
+    "keywordLoc" TEXT,
+    "articleLimit" INTEGER,
+    "schedule" TEXT NOT NULL,
+    "windowDays" INTEGER NOT NULL DEFAULT 1,
+    "startDate" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "coveredUntil" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "lastSuccessfulRunAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "nextRunAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SavedSearch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SavedSearch_isActive_nextRunAt_idx" ON "SavedSearch"("isActive", "nextRunAt");
+
+-- AddForeignKey
+ALTER TABLE "ImportSession" ADD CONSTRAINT "ImportSession_savedSearchId_fkey" FOREIGN KEY ("savedSearchId") REFERENCES "SavedSearch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SavedSearch" ADD CONSTRAINT "SavedSearch_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
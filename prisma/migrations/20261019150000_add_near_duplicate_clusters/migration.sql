@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN     "canonicalArticleId" TEXT,
+ADD COLUMN     "contentSimhash" TEXT,
+ADD COLUMN     "duplicateSimilarity" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "Article_projectId_canonicalArticleId_idx" ON "Article"("projectId", "canonicalArticleId");
+
+-- AddForeignKey
+ALTER TABLE "Article" ADD CONSTRAINT "Article_canonicalArticleId_fkey" FOREIGN KEY ("canonicalArticleId") REFERENCES "Article"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ArticleMerge" (
+    "id" TEXT NOT NULL,
+    "mergedArticleId" TEXT NOT NULL,
+    "survivorId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "fieldsApplied" JSONB,
+    "mergedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ArticleMerge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ArticleMerge_mergedArticleId_key" ON "ArticleMerge"("mergedArticleId");
+
+-- CreateIndex
+CREATE INDEX "ArticleMerge_survivorId_idx" ON "ArticleMerge"("survivorId");
+
+-- AddForeignKey
+ALTER TABLE "ArticleMerge" ADD CONSTRAINT "ArticleMerge_survivorId_fkey" FOREIGN KEY ("survivorId") REFERENCES "Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN     "duplicateList" TEXT[],
+ADD COLUMN     "eventUri" TEXT,
+ADD COLUMN     "isDuplicate" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "newsapiUri" TEXT,
+ADD COLUMN     "originalArticle" TEXT,
+ADD COLUMN     "storyId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Story" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "eventUri" TEXT,
+    "title" TEXT NOT NULL,
+    "firstSeenAt" TIMESTAMP(3),
+    "lastSeenAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Story_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Article_projectId_eventUri_idx" ON "Article"("projectId", "eventUri");
+
+-- CreateIndex
+CREATE INDEX "Article_storyId_idx" ON "Article"("storyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Story_projectId_key_key" ON "Story"("projectId", "key");
+
+-- AddForeignKey
+ALTER TABLE "Article" ADD CONSTRAINT "Article_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "Story"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Story" ADD CONSTRAINT "Story_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
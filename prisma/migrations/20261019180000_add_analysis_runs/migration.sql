@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "AnalysisBatch" ADD COLUMN     "runId" TEXT;
+
+-- CreateTable
+CREATE TABLE "AnalysisRun" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "filters" JSONB NOT NULL,
+    "concurrency" INTEGER NOT NULL DEFAULT 1,
+    "totalArticles" INTEGER NOT NULL,
+    "processedArticles" INTEGER NOT NULL DEFAULT 0,
+    "totalBatches" INTEGER NOT NULL,
+    "completedBatches" INTEGER NOT NULL DEFAULT 0,
+    "failedBatches" INTEGER NOT NULL DEFAULT 0,
+    "skippedDuplicates" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "AnalysisRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AnalysisBatch_runId_status_idx" ON "AnalysisBatch"("runId", "status");
+
+-- CreateIndex
+CREATE INDEX "AnalysisRun_projectId_createdAt_idx" ON "AnalysisRun"("projectId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AnalysisBatch" ADD CONSTRAINT "AnalysisBatch_runId_fkey" FOREIGN KEY ("runId") REFERENCES "AnalysisRun"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AnalysisRun" ADD CONSTRAINT "AnalysisRun_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "AnalysisJob" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "leaseExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "leasedBy" TEXT,
+ADD COLUMN     "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "result" JSONB;
+
+-- CreateIndex
+CREATE INDEX "AnalysisJob_status_nextAttemptAt_idx" ON "AnalysisJob"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "AnalysisJob_batchId_status_idx" ON "AnalysisJob"("batchId", "status");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "AnalysisJob" ADD COLUMN     "rawOutput" TEXT;
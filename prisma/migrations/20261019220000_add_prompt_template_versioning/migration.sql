@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "PromptTemplate" ADD COLUMN "activatedAt" TIMESTAMP(3);
+
+-- Currently active versions count as activated when they were created
+UPDATE "PromptTemplate" SET "activatedAt" = "createdAt" WHERE "isActive" = true;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptTemplate_type_version_key" ON "PromptTemplate"("type", "version");
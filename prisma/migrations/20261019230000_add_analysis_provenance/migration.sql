@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN     "analysisProvenanceId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Quote" ADD COLUMN     "analysisProvenanceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "AnalysisProvenance" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "task" TEXT NOT NULL,
+    "promptTemplateId" TEXT,
+    "promptVersion" INTEGER NOT NULL,
+    "categorySetHash" TEXT,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "generationSettings" JSONB NOT NULL,
+    "batchId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AnalysisProvenance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AnalysisProvenance_key_key" ON "AnalysisProvenance"("key");
+
+-- CreateIndex
+CREATE INDEX "AnalysisProvenance_task_promptVersion_idx" ON "AnalysisProvenance"("task", "promptVersion");
+
+-- CreateIndex
+CREATE INDEX "AnalysisProvenance_batchId_idx" ON "AnalysisProvenance"("batchId");
+
+-- CreateIndex
+CREATE INDEX "Article_analysisProvenanceId_idx" ON "Article"("analysisProvenanceId");
+
+-- CreateIndex
+CREATE INDEX "Quote_analysisProvenanceId_idx" ON "Quote"("analysisProvenanceId");
+
+-- AddForeignKey
+ALTER TABLE "Article" ADD CONSTRAINT "Article_analysisProvenanceId_fkey" FOREIGN KEY ("analysisProvenanceId") REFERENCES "AnalysisProvenance"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Quote" ADD CONSTRAINT "Quote_analysisProvenanceId_fkey" FOREIGN KEY ("analysisProvenanceId") REFERENCES "AnalysisProvenance"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AnalysisProvenance" ADD CONSTRAINT "AnalysisProvenance_promptTemplateId_fkey" FOREIGN KEY ("promptTemplateId") REFERENCES "PromptTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "ArchivedAnalysis" (
+    "id" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "summaryGemini" TEXT,
+    "categoryGemini" TEXT,
+    "sentimentGemini" "Sentiment",
+    "translatedGemini" BOOLEAN NOT NULL,
+    "analysedAt" TIMESTAMP(3) NOT NULL,
+    "analysisProvenanceId" TEXT,
+    "quotes" JSONB NOT NULL,
+    "archivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ArchivedAnalysis_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ArchivedAnalysis_articleId_archivedAt_idx" ON "ArchivedAnalysis"("articleId", "archivedAt");
+
+-- AddForeignKey
+ALTER TABLE "ArchivedAnalysis" ADD CONSTRAINT "ArchivedAnalysis_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ArchivedAnalysis" ADD CONSTRAINT "ArchivedAnalysis_analysisProvenanceId_fkey" FOREIGN KEY ("analysisProvenanceId") REFERENCES "AnalysisProvenance"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,67 @@
+-- CreateTable
+CREATE TABLE "GoldSet" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GoldSet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GoldArticle" (
+    "id" TEXT NOT NULL,
+    "goldSetId" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "sentiment" "Sentiment" NOT NULL,
+    "quotes" JSONB NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GoldArticle_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EvaluationRun" (
+    "id" TEXT NOT NULL,
+    "goldSetId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "articlePromptVersion" INTEGER NOT NULL,
+    "quotePromptVersion" INTEGER NOT NULL,
+    "categorySetHash" TEXT,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "report" JSONB,
+    "predictions" JSONB,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "EvaluationRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GoldSet_projectId_name_key" ON "GoldSet"("projectId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GoldArticle_goldSetId_articleId_key" ON "GoldArticle"("goldSetId", "articleId");
+
+-- CreateIndex
+CREATE INDEX "EvaluationRun_goldSetId_createdAt_idx" ON "EvaluationRun"("goldSetId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "GoldSet" ADD CONSTRAINT "GoldSet_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GoldArticle" ADD CONSTRAINT "GoldArticle_goldSetId_fkey" FOREIGN KEY ("goldSetId") REFERENCES "GoldSet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GoldArticle" ADD CONSTRAINT "GoldArticle_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EvaluationRun" ADD CONSTRAINT "EvaluationRun_goldSetId_fkey" FOREIGN KEY ("goldSetId") REFERENCES "GoldSet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "CodingStatus" AS ENUM ('unreviewed', 'accepted', 'overridden');
+
+-- CreateTable
+CREATE TABLE "Coding" (
+    "id" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "coder" TEXT NOT NULL,
+    "status" "CodingStatus" NOT NULL DEFAULT 'unreviewed',
+    "summary" TEXT,
+    "category" TEXT,
+    "sentiment" "Sentiment",
+    "translated" BOOLEAN,
+    "notes" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Coding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Coding_articleId_coder_key" ON "Coding"("articleId", "coder");
+
+-- CreateIndex
+CREATE INDEX "Coding_coder_status_idx" ON "Coding"("coder", "status");
+
+-- AddForeignKey
+ALTER TABLE "Coding" ADD CONSTRAINT "Coding_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
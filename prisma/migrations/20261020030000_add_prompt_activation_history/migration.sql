@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "PromptActivation" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "activatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "rolledBackAt" TIMESTAMP(3),
+
+    CONSTRAINT "PromptActivation_pkey" PRIMARY KEY ("id")
+);
+
+-- Each version's last activation is all the history there is so far
+INSERT INTO "PromptActivation" ("id", "type", "templateId", "activatedAt")
+SELECT gen_random_uuid()::text, "type", "id", "activatedAt" FROM "PromptTemplate" WHERE "activatedAt" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "PromptActivation_type_activatedAt_idx" ON "PromptActivation"("type", "activatedAt");
+
+-- AddForeignKey
+ALTER TABLE "PromptActivation" ADD CONSTRAINT "PromptActivation_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "PromptTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN "quoteProvenanceId" TEXT;
+
+-- Articles with quotes take their quotes' provenance; articles whose extraction found none stay unrecorded
+UPDATE "Article" SET "quoteProvenanceId" = latest."analysisProvenanceId"
+FROM (
+    SELECT DISTINCT ON (q."articleId") q."articleId", q."analysisProvenanceId"
+    FROM "Quote" q
+    JOIN "AnalysisProvenance" p ON p."id" = q."analysisProvenanceId"
+    ORDER BY q."articleId", p."createdAt" DESC
+) latest
+WHERE latest."articleId" = "Article"."id";
+
+-- CreateIndex
+CREATE INDEX "Article_quoteProvenanceId_idx" ON "Article"("quoteProvenanceId");
+
+-- AddForeignKey
+ALTER TABLE "Article" ADD CONSTRAINT "Article_quoteProvenanceId_fkey" FOREIGN KEY ("quoteProvenanceId") REFERENCES "AnalysisProvenance"("id") ON DELETE SET NULL ON UPDATE CASCADE;
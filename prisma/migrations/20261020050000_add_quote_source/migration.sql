@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "QuoteSource" AS ENUM ('ai', 'manual');
+
+-- AlterTable
+-- Earlier quotes can't be told apart, so they count as AI quotes; re-analysis archives them before replacing them
+ALTER TABLE "Quote" ADD COLUMN "source" "QuoteSource" NOT NULL DEFAULT 'ai';
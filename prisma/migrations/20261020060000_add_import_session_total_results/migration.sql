@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ImportSession" ADD COLUMN "totalResults" INTEGER;
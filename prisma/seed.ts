@@ -38,6 +38,8 @@ async function main() {
         content: articleAnalysisContent,
         version: 1,
         isActive: true,
+        activatedAt: new Date(),
+        activations: { create: { type: 'article-analysis' } }, // First entry in the activation history rollback steps through
         description: 'Initial article analysis prompt - analyzes articles for summary, category, sentiment, and translation'
       }
     });
@@ -58,6 +60,8 @@ async function main() {
         content: quoteAnalysisContent,
         version: 1,
         isActive: true,
+        activatedAt: new Date(),
+        activations: { create: { type: 'quote-analysis' } },
         description: 'Initial quote analysis prompt - extracts stakeholders and quotes from articles'
       }
     });
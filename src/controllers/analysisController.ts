@@ -1,8 +1,13 @@
 import { Request, Response } from 'express';
 import { AnalysisBatchService } from '../lib/analysisBatch';
+import { AnalysisRunService } from '../lib/analysisRun';
+import { getDeadLetterJobs } from '../jobs/queue';
+import { getProjectProvenance } from '../lib/analysisProvenance';
+import { getStaleAnalysisSummary } from '../lib/analysisHistory';
 import { validateRequiredFields, isValidUUID } from '../utils/validation';
 
 const analysisBatchService = new AnalysisBatchService();
+const analysisRunService = new AnalysisRunService();
 
 /**
  * Create a new analysis batch
@@ -10,7 +15,7 @@ const analysisBatchService = new AnalysisBatchService();
  */
 export const createAnalysisBatch = async (req: Request, res: Response) => {
   try {
-    const { projectId, articleIds } = req.body;
+    const { projectId, articleIds, includeDuplicates } = req.body;
 
     // Validate required fields
     const validation = validateRequiredFields({ projectId, articleIds }, ['projectId', 'articleIds']);
@@ -57,7 +62,8 @@ export const createAnalysisBatch = async (req: Request, res: Response) => {
 
     const result = await analysisBatchService.createBatch({
       projectId,
-      articleIds
+      articleIds,
+      includeDuplicates: includeDuplicates === true
     });
 
     res.json({
@@ -75,7 +81,7 @@ export const createAnalysisBatch = async (req: Request, res: Response) => {
 };
 
 /**
- * Start processing an analysis batch
+ * Start processing an analysis batch - queues its articles for the analysis worker
  * POST /analysis/batch/:batchId/start
  */
 export const startAnalysisBatch = async (req: Request, res: Response) => {
@@ -196,4 +202,378 @@ export const cancelAnalysisBatch = async (req: Request, res: Response) => {
       error: error.message || 'Failed to cancel analysis batch'
     });
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Re-run only the articles that failed in an analysis batch
+ * POST /analysis/batch/:batchId/retry-failed
+ */
+export const retryFailedAnalysisArticles = async (req: Request, res: Response) => {
+  try {
+    const { batchId } = req.params;
+
+    if (!isValidUUID(batchId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid batch ID format'
+      });
+    }
+
+    const result = await analysisBatchService.retryFailed(batchId);
+
+    res.json({
+      success: true,
+      data: result,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Retry failed analysis articles error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to retry failed articles'
+    });
+  }
+};
+
+/**
+ * Get a project's dead-letter list - articles that failed analysis on every attempt
+ * GET /analysis/project/:projectId/dead-letter
+ */
+export const getProjectDeadLetter = async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+
+    if (!isValidUUID(projectId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid project ID format'
+      });
+    }
+
+    const result = await getDeadLetterJobs(projectId);
+
+    res.json({
+      success: true,
+      data: result,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get project dead-letter error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get dead-letter list'
+    });
+  }
+};
+
+/**
+ * Get the provenance of a project's analysis results - each prompt version, category set,
+ * model and batch that produced them, with the number of articles and quotes from each
+ * GET /analysis/project/:projectId/provenance
+ */
+export const getProjectAnalysisProvenance = async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+
+    if (!isValidUUID(projectId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid project ID format'
+      });
+    }
+
+    const result = await getProjectProvenance(projectId);
+
+    res.json({
+      success: true,
+      data: result,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get project analysis provenance error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get analysis provenance'
+    });
+  }
+};
+
+/**
+ * Count a project's analysed articles whose results came from an older prompt or category set
+ * GET /analysis/project/:projectId/stale
+ */
+export const getProjectStaleAnalysis = async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+
+    if (!isValidUUID(projectId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid project ID format'
+      });
+    }
+
+    const result = await getStaleAnalysisSummary(projectId);
+
+    res.json({
+      success: true,
+      data: result,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get project stale analysis error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get stale analysis'
+    });
+  }
+};
+
+/**
+ * Re-analyse a project's stale articles in one run - their previous results are archived
+ * POST /analysis/project/:projectId/reanalyse-stale
+ */
+export const reanalyseStaleArticles = async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const { includeDuplicates, concurrency } = req.body || {};
+
+    if (!isValidUUID(projectId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid project ID format'
+      });
+    }
+
+    const runValidation = validateRunData({ includeDuplicates, concurrency });
+    if (!runValidation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: runValidation.errors.join(', ')
+      });
+    }
+
+    const summary = await getStaleAnalysisSummary(projectId);
+    if (summary.stale === 0) {
+      return res.status(409).json({
+        success: false,
+        error: 'No stale analysis results in this project'
+      });
+    }
+
+    const result = await analysisRunService.startRun({
+      projectId,
+      filters: {
+        staleOnly: true,
+        includeDuplicates: includeDuplicates === true
+      },
+      concurrency: concurrency ? parseInt(String(concurrency), 10) : 1
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Re-analyse stale articles error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to re-analyse stale articles'
+    });
+  }
+};
+
+/**
+ * Analyse every article in a project that matches the filters, in sub-batches under one run
+ * POST /analysis/project/:projectId/run
+ */
+export const runProjectAnalysis = async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const { unanalysedOnly, staleOnly, category, importSessionId, includeDuplicates, concurrency } = req.body;
+
+    if (!isValidUUID(projectId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid project ID format'
+      });
+    }
+
+    const runValidation = validateRunData(req.body);
+    if (!runValidation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: runValidation.errors.join(', ')
+      });
+    }
+
+    const result = await analysisRunService.startRun({
+      projectId,
+      filters: {
+        unanalysedOnly: unanalysedOnly === true,
+        staleOnly: staleOnly === true,
+        ...(category && { category }),
+        ...(importSessionId && { importSessionId }),
+        includeDuplicates: includeDuplicates === true
+      },
+      concurrency: concurrency ? parseInt(String(concurrency), 10) : 1
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Run project analysis error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to start project analysis'
+    });
+  }
+};
+
+/**
+ * Get a project-wide analysis run's progress
+ * GET /analysis/run/:runId
+ */
+export const getAnalysisRunStatus = async (req: Request, res: Response) => {
+  try {
+    const { runId } = req.params;
+
+    if (!isValidUUID(runId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid run ID format'
+      });
+    }
+
+    const result = await analysisRunService.getRunStatus(runId);
+
+    res.json({
+      success: true,
+      data: result,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get analysis run status error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get analysis run status'
+    });
+  }
+};
+
+/**
+ * Cancel a project-wide analysis run
+ * POST /analysis/run/:runId/cancel
+ */
+export const cancelAnalysisRun = async (req: Request, res: Response) => {
+  try {
+    const { runId } = req.params;
+
+    if (!isValidUUID(runId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid run ID format'
+      });
+    }
+
+    const result = await analysisRunService.cancelRun(runId);
+
+    res.json({
+      success: true,
+      data: result,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Cancel analysis run error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to cancel analysis run'
+    });
+  }
+};
+
+/**
+ * Get all project-wide analysis runs for a project
+ * GET /analysis/project/:projectId/runs
+ */
+export const getProjectAnalysisRuns = async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+
+    if (!isValidUUID(projectId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid project ID format'
+      });
+    }
+
+    const result = await analysisRunService.getProjectRuns(projectId);
+
+    res.json({
+      success: true,
+      data: result,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get project analysis runs error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get project analysis runs'
+    });
+  }
+};
+
+/**
+ * Validate the filters and options of a project-wide run
+ */
+function validateRunData(run: {
+  unanalysedOnly?: any;
+  staleOnly?: any;
+  category?: any;
+  importSessionId?: any;
+  includeDuplicates?: any;
+  concurrency?: any;
+}): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const { unanalysedOnly, staleOnly, category, importSessionId, includeDuplicates, concurrency } = run;
+
+  if (unanalysedOnly !== undefined && typeof unanalysedOnly !== 'boolean') {
+    errors.push('unanalysedOnly must be a boolean');
+  }
+
+  if (staleOnly !== undefined && typeof staleOnly !== 'boolean') {
+    errors.push('staleOnly must be a boolean');
+  }
+
+  if (unanalysedOnly === true && staleOnly === true) {
+    errors.push('unanalysedOnly and staleOnly cannot both be set - stale articles have been analysed');
+  }
+
+  if (includeDuplicates !== undefined && typeof includeDuplicates !== 'boolean') {
+    errors.push('includeDuplicates must be a boolean');
+  }
+
+  if (category !== undefined && (typeof category !== 'string' || category.trim() === '')) {
+    errors.push('category must be a non-empty string');
+  }
+
+  if (importSessionId !== undefined && !isValidUUID(importSessionId)) {
+    errors.push('Invalid import session ID format');
+  }
+
+  if (concurrency !== undefined) {
+    const value = parseInt(String(concurrency), 10);
+    if (isNaN(value) || value < 1) {
+      errors.push('concurrency must be a positive number');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
@@ -2,6 +2,16 @@ import { Request, Response } from "express";
 import prisma from "../lib/db";
 // import { importFromNewsAPI } from "../lib/newsapi";
 import { validateArticleData, validateRequiredFields, isValidUUID } from "../utils/validation";
+import { NearDuplicateDetector } from "../lib/nearDuplicates";
+import { ArticleMergeService, ANALYSIS_FIELDS, MERGEABLE_FIELDS } from "../lib/articleMerge";
+import { buildStaleArticleFilter, listArchivedAnalyses, getCurrentAnalysisVersions } from "../lib/analysisHistory";
+import { resolveFinalValues } from "../lib/coding";
+
+// Article fields only analysis writes
+const ANALYSIS_OUTPUT_FIELDS = [...ANALYSIS_FIELDS, "analysisProvenanceId", "quoteProvenanceId", "analysedAt"];
+
+const duplicateDetector = new NearDuplicateDetector();
+const articleMergeService = new ArticleMergeService();
 
 /**
  * Create a new article manually
@@ -49,7 +59,7 @@ export const createArticle = async (req: Request, res: Response) => {
       });
     }
 
-    const article = await prisma.article.create({
+    const created = await prisma.article.create({
       data: {
         projectId,
         title,
@@ -59,10 +69,23 @@ export const createArticle = async (req: Request, res: Response) => {
         fullBodyText,
         dateWritten: dateWritten ? new Date(dateWritten) : null,
         inputMethod: inputMethod || 'manual'
-      },
+      }
+    });
+
+    // Join a near-duplicate cluster if the body matches an existing article
+    // The article is saved either way, so a fingerprinting failure is logged rather than returned
+    try {
+      await duplicateDetector.fingerprintArticle(created.id);
+    } catch (fingerprintError: any) {
+      console.error(`Failed to fingerprint article ${created.id}:`, fingerprintError.message);
+    }
+
+    const article = await prisma.article.findUnique({
+      where: { id: created.id },
       include: {
         project: true,
-        quotes: true
+        quotes: { include: { analysisProvenance: true } },
+        analysisProvenance: true
       }
     });
 
@@ -119,8 +142,8 @@ export const getAllArticles = async (req: Request, res: Response) => {
 };
 
 /**
- * Get articles by project ID
- * GET /articles/project/:projectId
+ * Get articles by project ID, optionally only those whose analysis is stale
+ * GET /articles/project/:projectId?stale=true
  */
 export const getArticlesByProject = async (req: Request, res: Response) => {
   try {
@@ -145,8 +168,13 @@ export const getArticlesByProject = async (req: Request, res: Response) => {
       });
     }
 
+    // Stale: analysed under an older prompt or category set
+    const staleFilter = req.query.stale === 'true'
+      ? buildStaleArticleFilter(await getCurrentAnalysisVersions())
+      : {};
+
     const articles = await prisma.article.findMany({
-      where: { projectId },
+      where: { projectId, ...staleFilter },
       include: {
         quotes: true
       },
@@ -173,15 +201,30 @@ export const getArticlesByProject = async (req: Request, res: Response) => {
 export const getArticleById = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
+    const include = {
+      project: true,
+      quotes: { include: { analysisProvenance: true } },
+      analysisProvenance: true,
+      codings: { orderBy: { createdAt: "asc" as const } }
+    };
 
-    const article = await prisma.article.findUnique({
+    let article = await prisma.article.findUnique({
       where: { id },
-      include: {
-        project: true,
-        quotes: true
-      }
+      include
     });
 
+    // IDs of merged-away articles resolve to the article they were merged into
+    let mergedInto: string | null = null;
+    if (!article) {
+      mergedInto = await articleMergeService.resolveMergedId(id);
+      if (mergedInto) {
+        article = await prisma.article.findUnique({
+          where: { id: mergedInto },
+          include
+        });
+      }
+    }
+
     if (!article) {
       return res.status(404).json({
         success: false,
@@ -197,9 +240,12 @@ export const getArticleById = async (req: Request, res: Response) => {
       });
     }
 
+    // Final values prefer reviewers' overrides over the AI values
+    const data = { ...article, finalValues: resolveFinalValues(article) };
+
     res.json({
       success: true,
-      data: article,
+      data: mergedInto ? { ...data, resolvedFromId: id } : data,
       error: null
     });
   } catch (error) {
@@ -210,6 +256,49 @@ export const getArticleById = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Get an article's earlier analysis results, archived when it was re-analysed
+ * GET /articles/:id/analysis-history
+ */
+export const getArticleAnalysisHistory = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid article ID format"
+      });
+    }
+
+    const article = await prisma.article.findUnique({
+      where: { id },
+      select: { id: true }
+    });
+
+    if (!article) {
+      return res.status(404).json({
+        success: false,
+        error: "Article not found"
+      });
+    }
+
+    const history = await listArchivedAnalyses(id);
+
+    res.json({
+      success: true,
+      data: history,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get article analysis history error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || "Failed to fetch analysis history"
+    });
+  }
+};
+
 /**
  * Update an existing article
  * PUT /articles/:id
@@ -219,9 +308,31 @@ export const updateArticle = async (req: Request, res: Response) => {
     const { id } = req.params;
     const updateData = req.body;
 
-    const article = await prisma.article.update({
+    // AI output and its provenance are written only by analysis; human values go through coding
+    const analysisOutput = ANALYSIS_OUTPUT_FIELDS.filter(field => updateData?.[field] !== undefined);
+    if (analysisOutput.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Cannot edit analysis output (${analysisOutput.join(', ')}); record human values with PUT /coding/articles/${id}`
+      });
+    }
+
+    await prisma.article.update({
+      where: { id },
+      data: { ...updateData, editedAt: new Date() }
+    });
+
+    // A changed body gets a new fingerprint and may join or leave a near-duplicate cluster
+    if (updateData.fullBodyText !== undefined) {
+      try {
+        await duplicateDetector.fingerprintArticle(id);
+      } catch (fingerprintError: any) {
+        console.error(`Failed to fingerprint article ${id}:`, fingerprintError.message);
+      }
+    }
+
+    const article = await prisma.article.findUnique({
       where: { id },
-      data: updateData,
       include: {
         project: true,
         quotes: true
@@ -265,3 +376,154 @@ export const deleteArticle = async (req: Request, res: Response) => {
     });
   }
 };
+
+/**
+ * Merge duplicate articles into a survivor, moving their quotes and unioning authors
+ * POST /articles/merge
+ */
+export const mergeArticles = async (req: Request, res: Response) => {
+  try {
+    const { survivorId, loserIds, fields, preferSurvivor } = req.body;
+
+    const requiredValidation = validateRequiredFields(req.body, ['survivorId', 'loserIds']);
+    if (!requiredValidation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: `Missing required fields: ${requiredValidation.missingFields.join(', ')}`
+      });
+    }
+
+    const mergeValidation = validateMergeData({ survivorId, loserIds, fields });
+    if (!mergeValidation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: mergeValidation.errors.join(', ')
+      });
+    }
+
+    const articles = await prisma.article.findMany({
+      where: { id: { in: [survivorId, ...loserIds] } }
+    });
+
+    const missingIds = [survivorId, ...loserIds].filter((articleId: string) => !articles.some(article => article.id === articleId));
+    if (missingIds.length > 0) {
+      return res.status(404).json({
+        success: false,
+        error: `Articles not found: ${missingIds.join(', ')}`
+      });
+    }
+
+    if (new Set(articles.map(article => article.projectId)).size > 1) {
+      return res.status(400).json({
+        success: false,
+        error: "Articles must belong to the same project"
+      });
+    }
+
+    // Make the caller pick a winner for every field the articles disagree on
+    const conflicts = articleMergeService.findConflicts(articles, fields);
+    if (conflicts.length > 0 && !preferSurvivor) {
+      return res.status(409).json({
+        success: false,
+        data: { conflicts },
+        error: `Resolve conflicting fields with "fields" (field -> article ID) or set preferSurvivor: ${conflicts.map(conflict => conflict.field).join(', ')}`
+      });
+    }
+
+    // Gold sets can't hold one article twice, and picking one coding would discard the other
+    const goldSetConflicts = await articleMergeService.findGoldSetConflicts([survivorId, ...loserIds]);
+    if (goldSetConflicts.length > 0) {
+      return res.status(409).json({
+        success: false,
+        error: `Remove all but one of these articles from gold sets before merging: ${goldSetConflicts.join(', ')}`
+      });
+    }
+
+    const codingConflicts = await articleMergeService.findCodingConflicts([survivorId, ...loserIds]);
+    if (codingConflicts.length > 0) {
+      return res.status(409).json({
+        success: false,
+        error: `These coders reviewed more than one of the articles: ${codingConflicts.join(', ')}`
+      });
+    }
+
+    const result = await articleMergeService.merge({ survivorId, loserIds, fields });
+
+    const article = await prisma.article.findUnique({
+      where: { id: survivorId },
+      include: {
+        quotes: true,
+        mergedFrom: {
+          select: { mergedArticleId: true, title: true, mergedAt: true }
+        }
+      }
+    });
+
+    res.json({
+      success: true,
+      data: { ...result, article },
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Merge articles error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || "Failed to merge articles"
+    });
+  }
+};
+
+/**
+ * Validate the IDs and field choices of a merge request
+ */
+function validateMergeData(merge: {
+  survivorId: any;
+  loserIds: any;
+  fields?: any;
+}): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const { survivorId, loserIds, fields } = merge;
+
+  if (!isValidUUID(survivorId)) {
+    errors.push('Invalid survivor ID format');
+  }
+
+  if (!Array.isArray(loserIds) || loserIds.length === 0) {
+    errors.push('loserIds must be a non-empty array');
+  } else {
+    if (loserIds.some((loserId: any) => !isValidUUID(loserId))) {
+      errors.push('Invalid loser ID format');
+    }
+    if (loserIds.includes(survivorId)) {
+      errors.push('The survivor cannot also be a loser');
+    }
+    if (new Set(loserIds).size !== loserIds.length) {
+      errors.push('loserIds contains duplicates');
+    }
+  }
+
+  if (fields !== undefined) {
+    if (typeof fields !== 'object' || fields === null || Array.isArray(fields)) {
+      errors.push('fields must map field names to article IDs');
+    } else {
+      const mergedIds = [survivorId, ...(Array.isArray(loserIds) ? loserIds : [])];
+      for (const [field, articleId] of Object.entries(fields)) {
+        if (!(MERGEABLE_FIELDS as readonly string[]).includes(field)) {
+          errors.push(`Unknown merge field: ${field} (allowed: ${MERGEABLE_FIELDS.join(', ')})`);
+        } else if (!mergedIds.includes(articleId)) {
+          errors.push(`fields.${field} must be the survivor or one of the loser IDs`);
+        }
+      }
+
+      const analysisSources = new Set(ANALYSIS_FIELDS.map(field => fields[field]).filter(Boolean));
+      if (analysisSources.size > 1) {
+        errors.push(`${ANALYSIS_FIELDS.join(', ')} must all come from the same article`);
+      }
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
@@ -4,10 +4,11 @@ import jwt, { SignOptions } from 'jsonwebtoken';
 /**
  * Login controller
  * Validates password and returns JWT token
+ * An optional name identifies the user in the token, e.g. as the coder of their reviews
  */
 export const login = async (req: Request, res: Response) => {
   try {
-    const { password } = req.body;
+    const { password, name } = req.body;
 
     // Validate input
     if (!password) {
@@ -17,6 +18,13 @@ export const login = async (req: Request, res: Response) => {
       });
     }
 
+    if (name !== undefined && (typeof name !== 'string' || name.trim().length === 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Name must be a non-empty string'
+      });
+    }
+
     // Check environment variables
     const appPassword = process.env.APP_PASSWORD;
     const jwtSecret = process.env.JWT_SECRET;
@@ -42,7 +50,8 @@ export const login = async (req: Request, res: Response) => {
     const token = jwt.sign(
       { 
         authenticated: true,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        ...(name !== undefined && { name: name.trim() })
       },
       jwtSecret,
       { expiresIn: jwtExpiry } as any
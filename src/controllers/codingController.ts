@@ -0,0 +1,266 @@
+import { Request, Response } from 'express';
+import db from '../lib/db';
+import { CodingService } from '../lib/coding';
+import { SENTIMENTS, SentimentValue } from '../lib/analysisSchema';
+import { isValidUUID } from '../utils/validation';
+import { authenticatedName } from '../middleware/auth';
+
+const codingService = new CodingService();
+
+/**
+ * Get the next analysed article for the signed-in coder to review, with its AI values and quotes
+ * GET /coding/queue?projectId=
+ */
+export const getNextForReview = async (req: Request, res: Response) => {
+  try {
+    const projectId = req.query.projectId as string | undefined;
+    const coder = authenticatedName(req);
+
+    if (!projectId || !isValidUUID(projectId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'A valid projectId query parameter is required'
+      });
+    }
+
+    if (!coder) {
+      return res.status(403).json({
+        success: false,
+        error: 'Sign in with a name to code articles'
+      });
+    }
+
+    const project = await db.project.findUnique({
+      where: { id: projectId },
+      select: { archived: true }
+    });
+
+    if (!project) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project not found'
+      });
+    }
+
+    if (project.archived) {
+      return res.status(403).json({
+        success: false,
+        error: 'Cannot review articles from archived project'
+      });
+    }
+
+    const next = await codingService.getNextForReview(projectId, coder);
+
+    // An empty queue isn't an error - the coder is done
+    res.json({
+      success: true,
+      data: next || { article: null, coding: null, remaining: 0 },
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get next for review error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get next article for review'
+    });
+  }
+};
+
+/**
+ * Get an article's codings and final values
+ * GET /coding/articles/:articleId
+ */
+export const getArticleCodings = async (req: Request, res: Response) => {
+  try {
+    const { articleId } = req.params;
+
+    if (!isValidUUID(articleId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid article ID format'
+      });
+    }
+
+    const codings = await codingService.getArticleCodings(articleId);
+
+    if (!codings) {
+      return res.status(404).json({
+        success: false,
+        error: 'Article not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: codings,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get article codings error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get article codings'
+    });
+  }
+};
+
+/**
+ * Accept or override an article's AI values as the signed-in coder
+ * PUT /coding/articles/:articleId
+ */
+export const reviewArticle = async (req: Request, res: Response) => {
+  try {
+    const { articleId } = req.params;
+
+    if (!isValidUUID(articleId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid article ID format'
+      });
+    }
+
+    const coder = authenticatedName(req);
+    if (!coder) {
+      return res.status(403).json({
+        success: false,
+        error: 'Sign in with a name to code articles'
+      });
+    }
+
+    const reviewValidation = validateReviewData(req.body);
+    if (!reviewValidation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: reviewValidation.errors.join(', ')
+      });
+    }
+
+    const { status, summary, category, sentiment, translated, notes } = req.body;
+
+    const existing = await codingService.getArticleCodings(articleId);
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Article not found'
+      });
+    }
+
+    if (!existing.analysedAt) {
+      return res.status(409).json({
+        success: false,
+        error: 'Article has not been analysed yet'
+      });
+    }
+
+    let matchedCategory: string | undefined;
+    if (category !== undefined) {
+      matchedCategory = await codingService.matchActiveCategory(category) || undefined;
+      if (!matchedCategory) {
+        return res.status(400).json({
+          success: false,
+          error: `Category "${category}" is not an active category`
+        });
+      }
+    }
+
+    const coding = await codingService.reviewArticle(articleId, coder, {
+      status,
+      summary,
+      category: matchedCategory,
+      sentiment,
+      translated,
+      notes
+    });
+
+    res.json({
+      success: true,
+      data: coding,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Review article error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to save review'
+    });
+  }
+};
+
+/**
+ * Get review progress per coder for a project
+ * GET /coding/project/:projectId/progress
+ */
+export const getProjectCodingProgress = async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+
+    if (!isValidUUID(projectId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid project ID format'
+      });
+    }
+
+    const progress = await codingService.getProjectProgress(projectId);
+
+    res.json({
+      success: true,
+      data: progress,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get project coding progress error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get coding progress'
+    });
+  }
+};
+
+/**
+ * Validate a coder's review
+ */
+function validateReviewData(data: any): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (data?.status !== 'accepted' && data?.status !== 'overridden') {
+    errors.push('status must be accepted or overridden');
+    return { isValid: false, errors };
+  }
+
+  const overrides = ['summary', 'category', 'sentiment', 'translated'].filter(field => data[field] !== undefined);
+
+  if (data.status === 'accepted' && overrides.length > 0) {
+    errors.push(`accepted reviews take no values (got ${overrides.join(', ')})`);
+  }
+
+  if (data.status === 'overridden' && overrides.length === 0) {
+    errors.push('overridden reviews need at least one of summary, category, sentiment or translated');
+  }
+
+  if (data.summary !== undefined && (typeof data.summary !== 'string' || data.summary.trim().length === 0)) {
+    errors.push('summary must be a non-empty string');
+  }
+
+  if (data.category !== undefined && (typeof data.category !== 'string' || data.category.trim().length === 0)) {
+    errors.push('category must be a non-empty string');
+  }
+
+  if (data.sentiment !== undefined && !SENTIMENTS.includes(data.sentiment as SentimentValue)) {
+    errors.push(`sentiment must be one of: ${SENTIMENTS.join(', ')}`);
+  }
+
+  if (data.translated !== undefined && typeof data.translated !== 'boolean') {
+    errors.push('translated must be true or false');
+  }
+
+  if (data.notes !== undefined && typeof data.notes !== 'string') {
+    errors.push('notes must be a string');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
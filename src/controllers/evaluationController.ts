@@ -0,0 +1,552 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { EvaluationService, GoldArticleInput } from '../lib/evaluation';
+import { SENTIMENTS, SentimentValue } from '../lib/analysisSchema';
+import { validateLLMSettings } from '../lib/llm';
+import { validateRequiredFields, isValidUUID } from '../utils/validation';
+
+const evaluationService = new EvaluationService();
+
+// Runs compared at once
+const MAX_COMPARED_RUNS = 10;
+
+/**
+ * Create a gold set in a project
+ * POST /evaluation/gold-sets
+ */
+export const createGoldSet = async (req: Request, res: Response) => {
+  try {
+    const { projectId, name, description } = req.body;
+
+    const validation = validateRequiredFields({ projectId, name }, ['projectId', 'name']);
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: `Missing required fields: ${validation.missingFields.join(', ')}`
+      });
+    }
+
+    if (!isValidUUID(projectId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid project ID format'
+      });
+    }
+
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'name must be a non-empty string'
+      });
+    }
+
+    if (description !== undefined && typeof description !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'description must be a string'
+      });
+    }
+
+    const goldSet = await evaluationService.createGoldSet(projectId, name.trim(), description);
+
+    res.status(201).json({
+      success: true,
+      data: goldSet,
+      error: null
+    });
+  } catch (error: any) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        error: 'A gold set with this name already exists in the project'
+      });
+    }
+
+    const status = evaluationErrorStatus(error);
+    if (status) {
+      return res.status(status).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Create gold set error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to create gold set'
+    });
+  }
+};
+
+/**
+ * Get a project's gold sets
+ * GET /evaluation/gold-sets?projectId=
+ */
+export const getProjectGoldSets = async (req: Request, res: Response) => {
+  try {
+    const projectId = req.query.projectId as string | undefined;
+
+    if (!projectId || !isValidUUID(projectId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'A valid projectId query parameter is required'
+      });
+    }
+
+    const goldSets = await evaluationService.getProjectGoldSets(projectId);
+
+    res.json({
+      success: true,
+      data: goldSets,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get project gold sets error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get gold sets'
+    });
+  }
+};
+
+/**
+ * Get a gold set with its coded articles
+ * GET /evaluation/gold-sets/:goldSetId
+ */
+export const getGoldSet = async (req: Request, res: Response) => {
+  try {
+    const { goldSetId } = req.params;
+
+    if (!isValidUUID(goldSetId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid gold set ID format'
+      });
+    }
+
+    const goldSet = await evaluationService.getGoldSet(goldSetId);
+
+    if (!goldSet) {
+      return res.status(404).json({
+        success: false,
+        error: 'Gold set not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: goldSet,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get gold set error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get gold set'
+    });
+  }
+};
+
+/**
+ * Add articles to a gold set with their human coding, or replace the coding of articles already in it
+ * PUT /evaluation/gold-sets/:goldSetId/articles
+ */
+export const upsertGoldArticles = async (req: Request, res: Response) => {
+  try {
+    const { goldSetId } = req.params;
+    const { articles } = req.body;
+
+    if (!isValidUUID(goldSetId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid gold set ID format'
+      });
+    }
+
+    const articlesValidation = validateGoldArticlesData(articles);
+    if (!articlesValidation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: articlesValidation.errors.join(', ')
+      });
+    }
+
+    const goldArticles = await evaluationService.upsertGoldArticles(goldSetId, articles as GoldArticleInput[]);
+
+    res.json({
+      success: true,
+      data: goldArticles,
+      error: null
+    });
+  } catch (error: any) {
+    const status = evaluationErrorStatus(error);
+    if (status) {
+      return res.status(status).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Upsert gold articles error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to save gold articles'
+    });
+  }
+};
+
+/**
+ * Take an article out of a gold set
+ * DELETE /evaluation/gold-sets/:goldSetId/articles/:articleId
+ */
+export const removeGoldArticle = async (req: Request, res: Response) => {
+  try {
+    const { goldSetId, articleId } = req.params;
+
+    if (!isValidUUID(goldSetId) || !isValidUUID(articleId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid gold set or article ID format'
+      });
+    }
+
+    const removed = await evaluationService.removeGoldArticle(goldSetId, articleId);
+
+    if (!removed) {
+      return res.status(404).json({
+        success: false,
+        error: 'Article is not in this gold set'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { goldSetId, articleId },
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Remove gold article error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to remove gold article'
+    });
+  }
+};
+
+/**
+ * Delete a gold set with its coding and evaluation runs
+ * DELETE /evaluation/gold-sets/:goldSetId
+ */
+export const deleteGoldSet = async (req: Request, res: Response) => {
+  try {
+    const { goldSetId } = req.params;
+
+    if (!isValidUUID(goldSetId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid gold set ID format'
+      });
+    }
+
+    const deleted = await evaluationService.deleteGoldSet(goldSetId);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Gold set not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { id: goldSetId },
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Delete gold set error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to delete gold set'
+    });
+  }
+};
+
+/**
+ * Start an evaluation run of a prompt version and provider against a gold set
+ * The run is processed in the background; poll GET /evaluation/runs/:runId for the report
+ * POST /evaluation/gold-sets/:goldSetId/runs
+ */
+export const startEvaluationRun = async (req: Request, res: Response) => {
+  try {
+    const { goldSetId } = req.params;
+    const { articlePromptVersion, quotePromptVersion, llm } = req.body || {};
+
+    if (!isValidUUID(goldSetId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid gold set ID format'
+      });
+    }
+
+    const runValidation = validateEvaluationRunData({ articlePromptVersion, quotePromptVersion, llm });
+    if (!runValidation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: runValidation.errors.join(', ')
+      });
+    }
+
+    const run = await evaluationService.startRun(goldSetId, { articlePromptVersion, quotePromptVersion, llm });
+
+    res.status(202).json({
+      success: true,
+      data: run,
+      error: null
+    });
+  } catch (error: any) {
+    const status = evaluationErrorStatus(error);
+    if (status) {
+      return res.status(status).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Start evaluation run error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to start evaluation run'
+    });
+  }
+};
+
+/**
+ * Get a gold set's evaluation runs, newest first
+ * GET /evaluation/gold-sets/:goldSetId/runs
+ */
+export const getGoldSetRuns = async (req: Request, res: Response) => {
+  try {
+    const { goldSetId } = req.params;
+
+    if (!isValidUUID(goldSetId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid gold set ID format'
+      });
+    }
+
+    const runs = await evaluationService.getGoldSetRuns(goldSetId);
+
+    res.json({
+      success: true,
+      data: runs,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get gold set runs error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get evaluation runs'
+    });
+  }
+};
+
+/**
+ * Get an evaluation run with its report and per-article predictions
+ * GET /evaluation/runs/:runId
+ */
+export const getEvaluationRun = async (req: Request, res: Response) => {
+  try {
+    const { runId } = req.params;
+
+    if (!isValidUUID(runId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid run ID format'
+      });
+    }
+
+    const run = await evaluationService.getRun(runId);
+
+    if (!run) {
+      return res.status(404).json({
+        success: false,
+        error: 'Evaluation run not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: run,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get evaluation run error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get evaluation run'
+    });
+  }
+};
+
+/**
+ * Compare evaluation runs of a gold set side by side
+ * GET /evaluation/gold-sets/:goldSetId/compare?runIds=a,b
+ */
+export const compareEvaluationRuns = async (req: Request, res: Response) => {
+  try {
+    const { goldSetId } = req.params;
+    const runIds = String(req.query.runIds || '').split(',').map(id => id.trim()).filter(Boolean);
+
+    if (!isValidUUID(goldSetId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid gold set ID format'
+      });
+    }
+
+    if (runIds.length < 2 || runIds.length > MAX_COMPARED_RUNS) {
+      return res.status(400).json({
+        success: false,
+        error: `runIds must list between 2 and ${MAX_COMPARED_RUNS} run IDs`
+      });
+    }
+
+    const invalidId = runIds.find(id => !isValidUUID(id));
+    if (invalidId) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid run ID format: ${invalidId}`
+      });
+    }
+
+    // Only runs of this gold set are comparable, since the scores depend on its articles
+    const goldSetRuns = await evaluationService.getGoldSetRuns(goldSetId);
+    const missing = runIds.filter(id => !goldSetRuns.some(run => run.id === id));
+    if (missing.length > 0) {
+      return res.status(404).json({
+        success: false,
+        error: `Evaluation runs not found in this gold set: ${missing.join(', ')}`
+      });
+    }
+
+    const comparison = await evaluationService.compareRuns(runIds);
+
+    res.json({
+      success: true,
+      data: comparison,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Compare evaluation runs error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to compare evaluation runs'
+    });
+  }
+};
+
+/**
+ * Status for errors the evaluation service throws on bad requests
+ * @returns Undefined for anything else, which is a server error
+ */
+function evaluationErrorStatus(error: any): number | undefined {
+  const message: string = error?.message || '';
+
+  if (message === 'Project not found' || message === 'Gold set not found') {
+    return 404;
+  }
+
+  if (message === 'Gold set has no articles'
+    || message.startsWith('Prompt template not found')
+    || message.startsWith('Some articles not found')
+    || message.startsWith('Unknown categories')) {
+    return 400;
+  }
+
+  return undefined;
+}
+
+/**
+ * Validate the human coding of gold articles
+ */
+function validateGoldArticlesData(articles: any): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!Array.isArray(articles) || articles.length === 0) {
+    errors.push('articles must be a non-empty array');
+    return { isValid: false, errors };
+  }
+
+  articles.forEach((article: any, index: number) => {
+    const label = `articles[${index}]`;
+
+    if (!article || typeof article !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+
+    if (typeof article.articleId !== 'string' || !isValidUUID(article.articleId)) {
+      errors.push(`${label}.articleId must be a valid article ID`);
+    }
+
+    if (typeof article.category !== 'string' || article.category.trim().length === 0) {
+      errors.push(`${label}.category must be a non-empty string`);
+    }
+
+    if (!SENTIMENTS.includes(article.sentiment as SentimentValue)) {
+      errors.push(`${label}.sentiment must be one of: ${SENTIMENTS.join(', ')}`);
+    }
+
+    if (article.quotes !== undefined) {
+      if (!Array.isArray(article.quotes)) {
+        errors.push(`${label}.quotes must be an array`);
+      } else if (article.quotes.some((quote: any) =>
+        !quote
+        || typeof quote.stakeholderName !== 'string' || quote.stakeholderName.trim().length === 0
+        || typeof quote.quote !== 'string' || quote.quote.trim().length === 0
+        || (quote.stakeholderAffiliation !== undefined && quote.stakeholderAffiliation !== null
+          && typeof quote.stakeholderAffiliation !== 'string'))) {
+        errors.push(`${label}.quotes must each have a stakeholderName and quote`);
+      }
+    }
+
+    if (article.notes !== undefined && typeof article.notes !== 'string') {
+      errors.push(`${label}.notes must be a string`);
+    }
+  });
+
+  const articleIds = articles.map((article: any) => article?.articleId);
+  if (new Set(articleIds).size !== articleIds.length) {
+    errors.push('articles must not list the same article twice');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Validate the prompt versions and provider of an evaluation run
+ */
+function validateEvaluationRunData(data: any): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  for (const field of ['articlePromptVersion', 'quotePromptVersion']) {
+    const version = data[field];
+    if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+      errors.push(`${field} must be a positive integer`);
+    }
+  }
+
+  // Same rules as PUT /settings, including the base URL allow-list, since the run sends API keys to it
+  if (data.llm !== undefined) {
+    errors.push(...validateLLMSettings(data.llm).errors);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
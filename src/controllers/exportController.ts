@@ -1,45 +1,55 @@
 import { Request, Response } from "express";
-import prisma from "../lib/db";
 import { exportToGoogleSheets } from "../lib/sheets";
+import { EXPORT_VALUES, ExportValues, buildArticleRows, buildQuoteRows, loadProjectExport, toCsv } from "../lib/exportData";
+import { isValidUUID } from "../utils/validation";
+
+const EXPORT_TABLES = ["articles", "quotes"] as const;
 
 /**
  * Export project data to Google Sheets
+ * Body: { values: "gemini" | "final" } - "final" prefers reviewers' overrides over the AI values
  * POST /export/:projectId
  */
 export const exportToSheets = async (req: Request, res: Response) => {
   try {
     const { projectId } = req.params;
+    const values: ExportValues = req.body?.values ?? "gemini";
 
-    // Verify project exists
-    const project = await prisma.project.findUnique({
-      where: { id: projectId },
-      include: {
-        articles: {
-          include: {
-            quotes: true
-          }
-        }
-      }
-    });
+    if (!isValidUUID(projectId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid project ID format"
+      });
+    }
+
+    if (!EXPORT_VALUES.includes(values)) {
+      return res.status(400).json({
+        success: false,
+        error: `values must be one of: ${EXPORT_VALUES.join(", ")}`
+      });
+    }
+
+    const projectData = await loadProjectExport(projectId, values);
 
-    if (!project) {
+    if (!projectData) {
       return res.status(404).json({
         success: false,
         error: "Project not found"
       });
     }
 
-    // TODO: Implement Google Sheets export
-    // const exportResult = await exportToGoogleSheets(project);
+    const url = await exportToGoogleSheets(projectData, values);
 
-    res.status(501).json({
-      success: false,
-      error: "Google Sheets export not yet implemented"
+    res.json({
+      success: true,
+      data: { url, values, articles: projectData.articles.length },
+      error: null
     });
-  } catch (error) {
+  } catch (error: any) {
+    console.error("Export to sheets error:", error);
     res.status(500).json({
       success: false,
-      error: "Failed to export to sheets"
+      error: error.message || "Failed to export to sheets"
     });
   }
 };
@@ -66,22 +76,56 @@ export const getExportStatus = async (req: Request, res: Response) => {
 };
 
 /**
- * Download export file
+ * Download a project's articles or quotes as CSV
+ * Query: values=gemini|final (default gemini), table=articles|quotes (default articles)
  * GET /export/download/:projectId
  */
 export const downloadExport = async (req: Request, res: Response) => {
   try {
     const { projectId } = req.params;
+    const values = (req.query.values || "gemini") as ExportValues;
+    const table = (req.query.table || "articles") as typeof EXPORT_TABLES[number];
 
-    // TODO: Implement export file download
-    res.status(501).json({
-      success: false,
-      error: "Export download not yet implemented"
-    });
-  } catch (error) {
+    if (!isValidUUID(projectId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid project ID format"
+      });
+    }
+
+    if (!EXPORT_VALUES.includes(values)) {
+      return res.status(400).json({
+        success: false,
+        error: `values must be one of: ${EXPORT_VALUES.join(", ")}`
+      });
+    }
+
+    if (!EXPORT_TABLES.includes(table)) {
+      return res.status(400).json({
+        success: false,
+        error: `table must be one of: ${EXPORT_TABLES.join(", ")}`
+      });
+    }
+
+    const projectData = await loadProjectExport(projectId, values);
+
+    if (!projectData) {
+      return res.status(404).json({
+        success: false,
+        error: "Project not found"
+      });
+    }
+
+    const rows = table === "articles" ? buildArticleRows(projectData, values) : buildQuoteRows(projectData);
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="project-${projectId}-${table}${values === "final" ? "-final" : ""}.csv"`);
+    res.send(toCsv(rows));
+  } catch (error: any) {
+    console.error("Download export error:", error);
     res.status(500).json({
       success: false,
-      error: "Failed to download export"
+      error: error.message || "Failed to download export"
     });
   }
 };
@@ -1,8 +1,13 @@
 import { Request, Response } from 'express';
 import { ImportService, ImportRequest } from '../lib/importService';
-import { validateProjectData, validateRequiredFields, isValidUUID } from '../utils/validation';
+import { DirectImportResult, PendingImportArticle } from '../lib/importSession';
+import { validateProjectData, validateRequiredFields, validateArticleData, isValidUUID } from '../utils/validation';
 import prisma from '../lib/db';
-import { PDFExtractor } from '../lib/pdfExtractor';
+import { PDFExtractor, ExtractedArticle } from '../lib/pdfExtractor';
+import { PDFPreviewCache } from '../lib/pdfPreview';
+import { validateBooleanQuery, isJSONQuery } from '../lib/booleanQuery';
+import { SpreadsheetExtractor, ColumnMapping, MappingOptions, OutletNormalisationRule } from '../lib/spreadsheetExtractor';
+import { AppError } from '../utils/errorHandler';
 
 const importService = new ImportService();
 
@@ -12,7 +17,7 @@ const importService = new ImportService();
  */
 export const previewImport = async (req: Request, res: Response) => {
   try {
-    const { projectId, searchTerms, sourceIds, startDate, endDate, useBooleanQuery, booleanQuery, articleLimit } = req.body;
+    const { projectId, searchTerms, sourceIds, startDate, endDate, useBooleanQuery, booleanQuery, keywordLoc, articleLimit } = req.body;
 
     // Debug logging for articleLimit
     console.log('Preview Import Request Body:', {
@@ -76,6 +81,18 @@ export const previewImport = async (req: Request, res: Response) => {
       });
     }
 
+    // Report boolean search syntax errors with their positions
+    if (useBooleanQuery && !isJSONQuery(booleanQuery)) {
+      const queryValidation = validateBooleanQuery(booleanQuery);
+      if (!queryValidation.isValid) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid boolean query: ${queryValidation.errors.map(e => `${e.message} (at position ${e.position})`).join(', ')}`,
+          data: { queryErrors: queryValidation.errors }
+        });
+      }
+    }
+
     // Create import request
     const importRequest: ImportRequest = {
       projectId,
@@ -85,6 +102,7 @@ export const previewImport = async (req: Request, res: Response) => {
       endDate,
       useBooleanQuery: useBooleanQuery || false,
       booleanQuery: booleanQuery || undefined,
+      keywordLoc: keywordLoc || undefined,
       articleLimit: articleLimit !== undefined && articleLimit !== null 
         ? parseInt(String(articleLimit), 10) 
         : undefined
@@ -123,7 +141,7 @@ export const previewImport = async (req: Request, res: Response) => {
  */
 export const startImport = async (req: Request, res: Response) => {
   try {
-    const { projectId, searchTerms, sourceIds, startDate, endDate, useBooleanQuery, booleanQuery, articleLimit } = req.body;
+    const { projectId, searchTerms, sourceIds, startDate, endDate, useBooleanQuery, booleanQuery, keywordLoc, articleLimit } = req.body;
 
     // Debug logging for articleLimit
     console.log('Start Import Request Body:', {
@@ -162,6 +180,7 @@ export const startImport = async (req: Request, res: Response) => {
       endDate,
       useBooleanQuery: useBooleanQuery || false,
       booleanQuery: booleanQuery || undefined,
+      keywordLoc: keywordLoc || undefined,
       articleLimit: articleLimit !== undefined && articleLimit !== null 
         ? parseInt(String(articleLimit), 10) 
         : undefined
@@ -290,6 +309,92 @@ export const cancelSession = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Resume a failed or cancelled NewsAPI import session from its last completed page
+ * POST /import/session/:sessionId/resume
+ */
+export const resumeSession = async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+
+    if (!isValidUUID(sessionId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid session ID format'
+      });
+    }
+
+    const result = await importService.resumeSession(sessionId);
+
+    res.json({
+      success: true,
+      data: {
+        ...result,
+        message: 'Import resumed. Use the session ID to track progress.'
+      },
+      error: null
+    });
+
+  } catch (error: any) {
+    console.error('Resume session error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to resume session'
+    });
+  }
+};
+
+/**
+ * Roll back an import session, deleting its articles, their quotes and analysis jobs
+ * POST /import/session/:sessionId/rollback
+ *
+ * Returns 409 if any of the articles have been analysed or manually edited,
+ * unless the body includes "force": true, or if the session is running or already rolled back.
+ */
+export const rollbackSession = async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    const force = req.body?.force === true || req.body?.force === 'true';
+
+    if (!isValidUUID(sessionId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid session ID format'
+      });
+    }
+
+    const result = await importService.rollbackSession(sessionId, force);
+
+    if (!result.rolledBack) {
+      return res.status(409).json({
+        success: false,
+        error: `${result.protectedArticles.length} article(s) from this session have been analysed or manually edited. Pass "force": true to roll back anyway.`,
+        data: { protectedArticles: result.protectedArticles }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      error: null
+    });
+
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Rollback session error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to roll back session'
+    });
+  }
+};
+
 /**
  * Get import statistics for a project
  * GET /import/project/:projectId/stats
@@ -504,10 +609,13 @@ export const importNewsAPI = async (req: Request, res: Response) => {
 /**
  * Import articles from PDF file
  * POST /import/pdf
+ *
+ * Supports Factiva, LexisNexis (Nexis Uni) and ProQuest exports. The layout is
+ * auto-detected unless a `format` field names the parser to use.
  */
 export const importPDF = async (req: Request, res: Response) => {
   try {
-    const { projectId } = req.body;
+    const { projectId, format } = req.body;
     const pdfFile = req.file;
     
     // Validate inputs
@@ -547,76 +655,230 @@ export const importPDF = async (req: Request, res: Response) => {
     
     console.log(`Processing PDF: ${pdfFile.originalname} (${pdfFile.size} bytes)`);
     
-    // Extract articles from PDF
     const extractor = new PDFExtractor();
-    const extractedArticles = await extractor.extractArticles(pdfFile.buffer);
+    if (format && format !== 'auto' && !extractor.getAvailableFormats().includes(String(format).toLowerCase())) {
+      return res.status(400).json({
+        success: false,
+        error: `Unsupported PDF format. Supported formats: ${extractor.getAvailableFormats().join(', ')}`
+      });
+    }
     
-    console.log(`Extracted ${extractedArticles.length} articles from PDF`);
+    // Extract articles from PDF
+    const extraction = await extractor.extract(pdfFile.buffer, format && format !== 'auto' ? format : undefined);
+    const extractedArticles = extraction.articles;
+    
+    console.log(`Extracted ${extractedArticles.length} articles from PDF using ${extraction.parser} parser`);
     
     // Save articles to database
-    const articleIds: string[] = [];
-    let imported = 0;
-    let failed = 0;
-    const errors: Array<{ title: string; error: string }> = [];
+    const result = await saveExtractedArticles(projectId, extractedArticles, extraction.parser, pdfFile.originalname);
     
-    for (const article of extractedArticles) {
-      try {
-        console.log(`\nAttempting to save article: "${article.title}"`);
-        console.log('Article data:', {
-          title: article.title,
-          source: article.source,
-          author: article.author,
-          publishDate: article.publishDate,
-          wordCount: article.wordCount,
-          textLength: article.textContent?.length
-        });
-        
-        const createdArticle = await prisma.article.create({
-          data: {
-            projectId: projectId,
-            title: article.title,
-            newsOutlet: article.source || 'Unknown Source',
-            authors: article.author ? [article.author] : [],
-            url: '',  // PDFs typically don't have URLs
-            fullBodyText: article.textContent,
-            dateWritten: article.publishDate ? new Date(article.publishDate) : new Date(),
-            inputMethod: 'pdf', // Using new enum value
-            sourceUri: article.source || 'factiva',
-          }
-        });
-        
-        console.log(`✓ Successfully saved article with ID: ${createdArticle.id}`);
-        articleIds.push(createdArticle.id);
-        imported++;
-      } catch (error: any) {
-        console.error(`✗ Failed to save article "${article.title}":`, error.message);
-        console.error('Full error:', error);
-        errors.push({ title: article.title, error: error.message });
-        failed++;
-      }
+    return res.json({
+      success: true,
+      data: {
+        sessionId: result.sessionId,
+        parser: extraction.parser,
+        imported: result.imported,
+        duplicates: result.duplicates,
+        failed: result.failed,
+        articleIds: result.articleIds,
+        errors: collectItemErrors(result)
+      },
+      error: null
+    });
+    
+  } catch (error: any) {
+    console.error('PDF import error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to process PDF'
+    });
+  }
+};
+
+/**
+ * Extract articles from a PDF without saving them
+ * POST /import/pdf/preview
+ *
+ * Returns candidate articles with a confidence score and warnings so the user can
+ * review the parse. Commit the chosen candidates with POST /import/pdf/commit.
+ */
+export const previewPDFImport = async (req: Request, res: Response) => {
+  try {
+    const { projectId, format } = req.body;
+    const pdfFile = req.file;
+    
+    // Validate inputs
+    if (!pdfFile) {
+      return res.status(400).json({
+        success: false,
+        error: 'No PDF file provided'
+      });
+    }
+    
+    if (!projectId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Project ID is required'
+      });
+    }
+    
+    // Validate project ID format
+    if (!isValidUUID(projectId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid project ID format'
+      });
+    }
+    
+    // Verify project exists
+    const project = await prisma.project.findUnique({
+      where: { id: projectId }
+    });
+    
+    if (!project) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project not found'
+      });
     }
     
-    console.log(`\nImport complete: ${imported} imported, ${failed} failed`);
-    if (errors.length > 0) {
-      console.log('\nErrors encountered:');
-      errors.forEach(e => console.log(`  - ${e.title}: ${e.error}`));
+    const extractor = new PDFExtractor();
+    if (format && format !== 'auto' && !extractor.getAvailableFormats().includes(String(format).toLowerCase())) {
+      return res.status(400).json({
+        success: false,
+        error: `Unsupported PDF format. Supported formats: ${extractor.getAvailableFormats().join(', ')}`
+      });
     }
     
+    console.log(`Previewing PDF: ${pdfFile.originalname} (${pdfFile.size} bytes)`);
+    
+    const extraction = await extractor.extract(pdfFile.buffer, format && format !== 'auto' ? format : undefined);
+    
+    const candidates = extraction.articles.map((article, index) => ({
+      ...article,
+      candidateId: index + 1,
+      ...extractor.assessArticle(article)
+    }));
+    
+    const preview = PDFPreviewCache.create({
+      projectId,
+      fileName: pdfFile.originalname,
+      parser: extraction.parser,
+      candidates
+    });
+    
     return res.json({
       success: true,
       data: {
-        imported,
-        failed,
-        articleIds
+        previewId: preview.previewId,
+        fileName: preview.fileName,
+        parser: preview.parser,
+        expiresAt: preview.expiresAt,
+        totalCandidates: candidates.length,
+        candidatesWithWarnings: candidates.filter(c => c.warnings.length > 0).length,
+        candidates
       },
       error: null
     });
     
   } catch (error: any) {
-    console.error('PDF import error:', error);
+    console.error('PDF preview error:', error);
     return res.status(500).json({
       success: false,
-      error: error.message || 'Failed to process PDF'
+      error: error.message || 'Failed to preview PDF'
+    });
+  }
+};
+
+/**
+ * Save selected candidates from a PDF preview
+ * POST /import/pdf/commit
+ *
+ * Expected request body format:
+ * {
+ *   "previewId": "uuid",
+ *   "candidateIds": [1, 2, 5]
+ * }
+ */
+export const commitPDFImport = async (req: Request, res: Response) => {
+  try {
+    const { previewId, candidateIds } = req.body;
+    
+    // Validate inputs
+    if (!previewId || !Array.isArray(candidateIds)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request: previewId and candidateIds array required'
+      });
+    }
+    
+    if (candidateIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'At least one candidate must be selected'
+      });
+    }
+    
+    const preview = PDFPreviewCache.get(previewId);
+    if (!preview) {
+      return res.status(404).json({
+        success: false,
+        error: 'Preview not found or expired - upload the PDF again'
+      });
+    }
+    
+    const unknownIds = candidateIds.filter(
+      (id: any) => !preview.candidates.some(candidate => candidate.candidateId === id)
+    );
+    if (unknownIds.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown candidate IDs: ${unknownIds.join(', ')}`
+      });
+    }
+    
+    const selected = preview.candidates.filter(candidate => candidateIds.includes(candidate.candidateId));
+    
+    console.log(`Committing ${selected.length} of ${preview.candidates.length} candidates from ${preview.fileName}`);
+    
+    const articles: ExtractedArticle[] = selected.map(({ candidateId, confidence, warnings, ...article }) => article);
+    
+    // A preview can only be committed once - take it before saving so a concurrent commit finds it gone
+    if (!PDFPreviewCache.take(previewId)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Preview is already being committed'
+      });
+    }
+    
+    let result: DirectImportResult;
+    try {
+      result = await saveExtractedArticles(preview.projectId, articles, preview.parser, preview.fileName);
+    } catch (error) {
+      PDFPreviewCache.restore(preview);
+      throw error;
+    }
+    
+    return res.json({
+      success: true,
+      data: {
+        sessionId: result.sessionId,
+        parser: preview.parser,
+        imported: result.imported,
+        duplicates: result.duplicates,
+        failed: result.failed,
+        skipped: preview.candidates.length - selected.length,
+        articleIds: result.articleIds,
+        errors: collectItemErrors(result)
+      },
+      error: null
+    });
+    
+  } catch (error: any) {
+    console.error('PDF commit error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to commit PDF import'
     });
   }
 };
@@ -676,41 +938,35 @@ export const importManual = async (req: Request, res: Response) => {
     
     console.log(`Importing ${articles.length} manual articles to project ${projectId}`);
     
-    // Save articles to database
-    const articleIds: string[] = [];
-    let imported = 0;
-    
-    for (const article of articles) {
-      try {
-        const createdArticle = await prisma.article.create({
-          data: {
-            projectId: projectId,
-            title: article.title,
-            newsOutlet: article.source,
-            authors: article.author ? [article.author] : [],
-            url: article.url || '',
-            fullBodyText: article.body,
-            dateWritten: new Date(article.publishDate),
-            inputMethod: 'manual',
-            sourceUri: article.source.toLowerCase().replace(/\s+/g, '-'),
-          }
-        });
-        
-        articleIds.push(createdArticle.id);
-        imported++;
-      } catch (error: any) {
-        console.error(`Failed to save article "${article.title}":`, error);
-        // Continue with other articles
+    // Save articles to database as a tracked session
+    const pending: PendingImportArticle[] = articles.map((article: any, index: number) => ({
+      position: index + 1,
+      title: article.title,
+      data: {
+        title: article.title,
+        newsOutlet: article.source,
+        authors: article.author ? [article.author] : [],
+        url: article.url || '',
+        fullBodyText: article.body,
+        dateWritten: new Date(article.publishDate),
+        inputMethod: 'manual',
+        sourceUri: article.source.toLowerCase().replace(/\s+/g, '-'),
       }
-    }
+    }));
     
-    console.log(`Manual import complete: ${imported} articles imported`);
+    const result = await importService.runDirectImport({ projectId, inputMethod: 'manual' }, pending);
+    
+    console.log(`Manual import complete: ${result.imported} articles imported`);
     
     return res.json({
       success: true,
       data: {
-        imported,
-        articleIds
+        sessionId: result.sessionId,
+        imported: result.imported,
+        duplicates: result.duplicates,
+        failed: result.failed,
+        articleIds: result.articleIds,
+        errors: collectItemErrors(result)
       },
       error: null
     });
@@ -724,6 +980,232 @@ export const importManual = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Import articles from a CSV or XLSX file
+ * POST /import/csv
+ *
+ * Multipart form fields:
+ * - file: the .csv or .xlsx upload
+ * - projectId: target project
+ * - profileId (optional): saved ImportProfile supplying the mapping, date format,
+ *   author delimiter and outlet normalisation rules
+ * - columnMapping (optional): JSON object of Article field to column header,
+ *   e.g. { "title": "Headline", "newsOutlet": "Source", "dateWritten": "Date" }.
+ *   Overrides the profile mapping; defaults to columns named after the Article fields.
+ * - authorDelimiter (optional): separator for multiple authors in one cell (default ";")
+ */
+export const importCSV = async (req: Request, res: Response) => {
+  try {
+    const { projectId, profileId, authorDelimiter } = req.body;
+    const spreadsheetFile = req.file;
+
+    // Validate inputs
+    if (!spreadsheetFile) {
+      return res.status(400).json({
+        success: false,
+        error: 'No CSV or XLSX file provided'
+      });
+    }
+
+    if (!projectId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Project ID is required'
+      });
+    }
+
+    // Validate project ID format
+    if (!isValidUUID(projectId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid project ID format'
+      });
+    }
+
+    // Column mapping arrives as a JSON string because the request is multipart
+    let columnMapping: ColumnMapping | undefined;
+    if (req.body.columnMapping) {
+      try {
+        columnMapping = typeof req.body.columnMapping === 'string'
+          ? JSON.parse(req.body.columnMapping)
+          : req.body.columnMapping;
+      } catch (error) {
+        return res.status(400).json({
+          success: false,
+          error: 'columnMapping must be valid JSON'
+        });
+      }
+    }
+
+    // Verify project exists
+    const project = await prisma.project.findUnique({
+      where: { id: projectId }
+    });
+
+    if (!project) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project not found'
+      });
+    }
+
+    // Load the saved import profile if one was requested
+    let profile = null;
+    if (profileId) {
+      if (!isValidUUID(profileId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid import profile ID format'
+        });
+      }
+
+      profile = await prisma.importProfile.findUnique({
+        where: { id: profileId }
+      });
+
+      if (!profile) {
+        return res.status(404).json({
+          success: false,
+          error: 'Import profile not found'
+        });
+      }
+    }
+
+    const mappingOptions: MappingOptions = {
+      authorDelimiter: authorDelimiter || profile?.authorDelimiter || undefined,
+      dateFormat: profile?.dateFormat || undefined,
+      outletRules: (profile?.outletRules as OutletNormalisationRule[] | null) || undefined
+    };
+
+    console.log(`Processing spreadsheet: ${spreadsheetFile.originalname} (${spreadsheetFile.size} bytes)`);
+
+    // Extract rows from the spreadsheet
+    const extractor = new SpreadsheetExtractor();
+    const rows = await extractor.extractRows(spreadsheetFile.buffer, spreadsheetFile.originalname);
+
+    if (rows.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'No data rows found in file'
+      });
+    }
+
+    const columns = extractor.getColumns(rows);
+    const mapping = columnMapping
+      || (profile?.columnMapping as ColumnMapping | undefined)
+      || extractor.detectColumnMapping(columns);
+
+    const mappingValidation = extractor.validateColumnMapping(mapping, columns);
+    if (!mappingValidation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid column mapping: ${mappingValidation.errors.join(', ')}`
+      });
+    }
+
+    // Map rows to articles; rows that fail validation are recorded as failed items
+    const pending: PendingImportArticle[] = rows.map(row => {
+      const article = extractor.mapRow(row, mapping, mappingOptions);
+
+      const validation = validateArticleData(article);
+      if (!validation.isValid) {
+        return { position: row.rowNumber, title: article.title, errors: validation.errors };
+      }
+
+      return {
+        position: row.rowNumber,
+        title: article.title,
+        data: {
+          title: article.title,
+          newsOutlet: article.newsOutlet || null,
+          authors: article.authors,
+          url: article.url || null,
+          fullBodyText: article.fullBodyText || null,
+          dateWritten: article.dateWritten ? new Date(article.dateWritten) : null,
+          inputMethod: 'csv',
+          sourceUri: article.newsOutlet ? article.newsOutlet.toLowerCase().replace(/\s+/g, '-') : null
+        }
+      };
+    });
+
+    const result = await importService.runDirectImport(
+      { projectId, inputMethod: 'csv', fileName: spreadsheetFile.originalname },
+      pending
+    );
+
+    const errors = result.items
+      .filter(item => item.outcome === 'failed')
+      .map(item => ({
+        row: item.position,
+        title: item.title,
+        errors: pending.find(article => article.position === item.position)?.errors || [item.reason || 'Unknown error']
+      }));
+
+    console.log(`Spreadsheet import complete: ${result.imported} imported, ${result.duplicates} duplicates, ${result.failed} failed`);
+
+    return res.json({
+      success: true,
+      data: {
+        sessionId: result.sessionId,
+        imported: result.imported,
+        duplicates: result.duplicates,
+        failed: result.failed,
+        articleIds: result.articleIds,
+        columnMapping: mapping,
+        errors
+      },
+      error: null
+    });
+
+  } catch (error: any) {
+    console.error('Spreadsheet import error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to process spreadsheet'
+    });
+  }
+};
+
+/**
+ * Save PDF-extracted articles to a project as a tracked import session
+ */
+async function saveExtractedArticles(
+  projectId: string,
+  articles: ExtractedArticle[],
+  parser: string,
+  fileName: string
+): Promise<DirectImportResult> {
+  const pending: PendingImportArticle[] = articles.map(article => ({
+    position: article.pageNumber,
+    title: article.title,
+    data: {
+      title: article.title,
+      newsOutlet: article.source || 'Unknown Source',
+      authors: article.author ? [article.author] : [],
+      url: '',  // PDFs typically don't have URLs
+      fullBodyText: article.textContent,
+      dateWritten: article.publishDate ? new Date(article.publishDate) : new Date(),
+      inputMethod: 'pdf', // Using new enum value
+      sourceUri: article.source || parser,
+    }
+  }));
+
+  const result = await importService.runDirectImport({ projectId, inputMethod: 'pdf', fileName }, pending);
+
+  console.log(`\nImport complete: ${result.imported} imported, ${result.duplicates} duplicates, ${result.failed} failed`);
+
+  return result;
+}
+
+/**
+ * Failed items in the shape returned to clients
+ */
+function collectItemErrors(result: DirectImportResult): Array<{ position: number; title: string; error: string }> {
+  return result.items
+    .filter(item => item.outcome === 'failed')
+    .map(item => ({ position: item.position, title: item.title, error: item.reason || 'Unknown error' }));
+}
+
 // Helper functions for boolean query parsing
 function extractSearchTerms(query: any): string[] {
   const terms: string[] = [];
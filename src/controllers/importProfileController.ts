@@ -0,0 +1,380 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import db from '../lib/db';
+import { ARTICLE_IMPORT_FIELDS, ArticleImportField, SpreadsheetExtractor } from '../lib/spreadsheetExtractor';
+import { validateRequiredFields, isValidUUID } from '../utils/validation';
+
+/**
+ * Get all import profiles
+ * GET /import/profiles
+ */
+export const getAllImportProfiles = async (req: Request, res: Response) => {
+  try {
+    const profiles = await db.importProfile.findMany({
+      orderBy: { name: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: profiles,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get all import profiles error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch import profiles'
+    });
+  }
+};
+
+/**
+ * Get import profile by ID
+ * GET /import/profiles/:id
+ */
+export const getImportProfileById = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid import profile ID format'
+      });
+    }
+
+    const profile = await db.importProfile.findUnique({
+      where: { id }
+    });
+
+    if (!profile) {
+      return res.status(404).json({
+        success: false,
+        error: 'Import profile not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: profile,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get import profile by ID error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch import profile'
+    });
+  }
+};
+
+/**
+ * Create new import profile
+ * POST /import/profiles
+ */
+export const createImportProfile = async (req: Request, res: Response) => {
+  try {
+    const { name, description, columnMapping, dateFormat, authorDelimiter, outletRules } = req.body;
+
+    // Validate required fields
+    const validation = validateRequiredFields(
+      { name, columnMapping },
+      ['name', 'columnMapping']
+    );
+
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: `Missing required fields: ${validation.missingFields.join(', ')}`
+      });
+    }
+
+    const profileValidation = validateImportProfileData({ name, columnMapping, dateFormat, authorDelimiter, outletRules });
+    if (!profileValidation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: profileValidation.errors.join(', ')
+      });
+    }
+
+    // Check if profile with same name already exists
+    const existing = await db.importProfile.findUnique({
+      where: { name }
+    });
+
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        error: 'Import profile with this name already exists'
+      });
+    }
+
+    const profile = await db.importProfile.create({
+      data: {
+        name,
+        description: description || null,
+        columnMapping,
+        dateFormat: dateFormat || null,
+        authorDelimiter: authorDelimiter || null,
+        outletRules: outletRules || undefined
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: profile,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Create import profile error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to create import profile'
+    });
+  }
+};
+
+/**
+ * Update import profile
+ * PUT /import/profiles/:id
+ */
+export const updateImportProfile = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, description, columnMapping, dateFormat, authorDelimiter, outletRules } = req.body;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid import profile ID format'
+      });
+    }
+
+    const existing = await db.importProfile.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Import profile not found'
+      });
+    }
+
+    const profileValidation = validateImportProfileData({ name, columnMapping, dateFormat, authorDelimiter, outletRules });
+    if (!profileValidation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: profileValidation.errors.join(', ')
+      });
+    }
+
+    // If name is being changed, check for conflicts
+    if (name && name !== existing.name) {
+      const nameConflict = await db.importProfile.findUnique({
+        where: { name }
+      });
+
+      if (nameConflict) {
+        return res.status(409).json({
+          success: false,
+          error: 'Import profile with this name already exists'
+        });
+      }
+    }
+
+    const profile = await db.importProfile.update({
+      where: { id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(description !== undefined && { description }),
+        ...(columnMapping !== undefined && { columnMapping }),
+        ...(dateFormat !== undefined && { dateFormat }),
+        ...(authorDelimiter !== undefined && { authorDelimiter }),
+        // null clears the rules; Prisma needs JsonNull to store a JSON null
+        ...(outletRules !== undefined && { outletRules: outletRules === null ? Prisma.JsonNull : outletRules })
+      }
+    });
+
+    res.json({
+      success: true,
+      data: profile,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Update import profile error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to update import profile'
+    });
+  }
+};
+
+/**
+ * Delete import profile
+ * DELETE /import/profiles/:id
+ */
+export const deleteImportProfile = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid import profile ID format'
+      });
+    }
+
+    const existing = await db.importProfile.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Import profile not found'
+      });
+    }
+
+    await db.importProfile.delete({
+      where: { id }
+    });
+
+    res.json({
+      success: true,
+      data: { message: 'Import profile deleted successfully' },
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Delete import profile error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to delete import profile'
+    });
+  }
+};
+
+// Longest regex pattern an outlet rule may use
+const MAX_OUTLET_PATTERN_LENGTH = 200;
+
+/**
+ * Validate the optional profile fields that are provided
+ * Column names can't be checked here - they are matched against the file at import time
+ */
+function validateImportProfileData(profile: {
+  name?: any;
+  columnMapping?: any;
+  dateFormat?: any;
+  authorDelimiter?: any;
+  outletRules?: any;
+}): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const { name, columnMapping, dateFormat, authorDelimiter, outletRules } = profile;
+
+  if (name !== undefined && (typeof name !== 'string' || name.trim().length === 0)) {
+    errors.push('name must be a non-empty string');
+  }
+
+  if (columnMapping !== undefined) {
+    if (!columnMapping || typeof columnMapping !== 'object' || Array.isArray(columnMapping)) {
+      errors.push('columnMapping must be an object of field to column name');
+    } else {
+      for (const [field, column] of Object.entries(columnMapping)) {
+        if (!ARTICLE_IMPORT_FIELDS.includes(field as ArticleImportField)) {
+          errors.push(`Unknown article field: ${field}`);
+        } else if (typeof column !== 'string' || column.trim().length === 0) {
+          errors.push(`Column for field ${field} must be a non-empty string`);
+        }
+      }
+
+      if (!columnMapping.title) {
+        errors.push('A column must be mapped to title');
+      }
+    }
+  }
+
+  if (dateFormat && (typeof dateFormat !== 'string' || !new SpreadsheetExtractor().validateDateFormat(dateFormat))) {
+    errors.push('dateFormat must contain year, month and day tokens (e.g. DD/MM/YYYY)');
+  }
+
+  if (authorDelimiter !== undefined && authorDelimiter !== null && typeof authorDelimiter !== 'string') {
+    errors.push('authorDelimiter must be a string');
+  }
+
+  if (outletRules !== undefined && outletRules !== null) {
+    if (!Array.isArray(outletRules)) {
+      errors.push('outletRules must be an array of {pattern, outlet} objects');
+    } else {
+      outletRules.forEach((rule: any, index: number) => {
+        if (!rule || typeof rule.pattern !== 'string' || typeof rule.outlet !== 'string') {
+          errors.push(`outletRules[${index}] must have string pattern and outlet`);
+          return;
+        }
+
+        if (rule.isRegex) {
+          try {
+            new RegExp(rule.pattern, 'i');
+          } catch {
+            errors.push(`outletRules[${index}] has an invalid regex pattern`);
+            return;
+          }
+
+          // Rules run against every imported row, so a pattern that can backtrack catastrophically could hang an import
+          if (rule.pattern.length > MAX_OUTLET_PATTERN_LENGTH || hasNestedQuantifier(rule.pattern)) {
+            errors.push(`outletRules[${index}] regex pattern is too long or has a nested quantifier such as (a+)+`);
+          }
+        }
+      });
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Whether a regex repeats a group that itself contains a repeat, e.g. (a+)+ or (\w*\s?)*
+ * These can take exponential time on input that almost matches
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  const groups: boolean[] = []; // Per open group: whether it contains a quantifier so far
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+
+    if (inClass) {
+      inClass = char !== ']';
+      continue;
+    }
+
+    const next = pattern[i + 1];
+    const repeatedAfter = next === '+' || next === '*' || next === '{';
+
+    if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const quantified = groups.pop() || false;
+      if (quantified && repeatedAfter) {
+        return true;
+      }
+      // A quantified group makes its enclosing group quantified too
+      if ((quantified || repeatedAfter) && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    } else if ((char === '+' || char === '*' || char === '{') && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+}
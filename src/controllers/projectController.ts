@@ -1,6 +1,9 @@
 import { Request, Response } from "express";
 import prisma from "../lib/db";
-import { validateProjectData, validateRequiredFields } from "../utils/validation";
+import { validateProjectData, validateRequiredFields, isValidUUID } from "../utils/validation";
+import { NearDuplicateDetector } from "../lib/nearDuplicates";
+
+const duplicateDetector = new NearDuplicateDetector();
 
 /**
  * Create a new project
@@ -344,3 +347,95 @@ export const deleteProject = async (req: Request, res: Response) => {
     });
   }
 };
+
+/**
+ * Get a project's near-duplicate article clusters
+ * GET /projects/:id/duplicates
+ */
+export const getProjectDuplicates = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid project ID format"
+      });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id }
+    });
+
+    if (!project) {
+      return res.status(404).json({
+        success: false,
+        error: "Project not found"
+      });
+    }
+
+    const clusters = await duplicateDetector.getProjectClusters(id);
+    const unfingerprinted = await prisma.article.count({
+      where: { projectId: id, contentSimhash: null }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        clusters,
+        totalClusters: clusters.length,
+        totalDuplicates: clusters.reduce((sum, cluster) => sum + cluster.copies.length, 0),
+        unfingerprinted
+      },
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get project duplicates error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || "Failed to fetch duplicates"
+    });
+  }
+};
+
+/**
+ * Re-fingerprint a project's articles and rebuild its near-duplicate clusters
+ * POST /projects/:id/duplicates/detect
+ */
+export const detectProjectDuplicates = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid project ID format"
+      });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id }
+    });
+
+    if (!project) {
+      return res.status(404).json({
+        success: false,
+        error: "Project not found"
+      });
+    }
+
+    const result = await duplicateDetector.detectProject(id);
+
+    res.json({
+      success: true,
+      data: result,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Detect project duplicates error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || "Failed to detect duplicates"
+    });
+  }
+};
@@ -3,7 +3,7 @@ import prisma from "../lib/db";
 import { validateRequiredFields, isValidUUID } from "../utils/validation";
 
 /**
- * Create a new quote
+ * Add a quote by hand
  * POST /quotes
  */
 export const createQuote = async (req: Request, res: Response) => {
@@ -44,7 +44,8 @@ export const createQuote = async (req: Request, res: Response) => {
         articleId,
         stakeholderNameGemini,
         stakeholderAffiliationGemini,
-        quoteGemini
+        quoteGemini,
+        source: 'manual' // Kept when the article is re-analysed
       },
       include: {
         article: {
@@ -55,6 +56,8 @@ export const createQuote = async (req: Request, res: Response) => {
       }
     });
 
+    await markArticleEdited(articleId);
+
     res.status(201).json({
       success: true,
       data: quote,
@@ -179,6 +182,15 @@ export const updateQuote = async (req: Request, res: Response) => {
     const { id } = req.params;
     const updateData = req.body;
 
+    // Where a quote came from is set when it's created, so re-analysis knows which quotes it may replace
+    const fixedFields = ["source", "analysisProvenanceId"].filter(field => updateData?.[field] !== undefined);
+    if (fixedFields.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Cannot change a quote's ${fixedFields.join(', ')}`
+      });
+    }
+
     const quote = await prisma.quote.update({
       where: { id },
       data: updateData,
@@ -191,6 +203,8 @@ export const updateQuote = async (req: Request, res: Response) => {
       }
     });
 
+    await markArticleEdited(quote.articleId);
+
     res.json({
       success: true,
       data: quote,
@@ -212,10 +226,12 @@ export const deleteQuote = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
-    await prisma.quote.delete({
+    const quote = await prisma.quote.delete({
       where: { id }
     });
 
+    await markArticleEdited(quote.articleId);
+
     res.json({
       success: true,
       data: { message: "Quote deleted successfully" },
@@ -228,3 +244,13 @@ export const deleteQuote = async (req: Request, res: Response) => {
     });
   }
 };
+
+/**
+ * Record that an article's quotes were changed by hand
+ */
+async function markArticleEdited(articleId: string) {
+  await prisma.article.update({
+    where: { id: articleId },
+    data: { editedAt: new Date() }
+  });
+}
@@ -0,0 +1,465 @@
+import { Request, Response } from 'express';
+import db from '../lib/db';
+import { CronSchedule } from '../lib/cronSchedule';
+import { SavedSearchRunner } from '../lib/savedSearchRunner';
+import { validateBooleanQuery, isJSONQuery } from '../lib/booleanQuery';
+import { validateRequiredFields, isValidUUID } from '../utils/validation';
+
+/**
+ * Get saved searches, optionally for one project
+ * GET /import/saved-searches?projectId=
+ */
+export const getAllSavedSearches = async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.query;
+
+    if (projectId && !isValidUUID(String(projectId))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid project ID format'
+      });
+    }
+
+    const savedSearches = await db.savedSearch.findMany({
+      where: projectId ? { projectId: String(projectId) } : {},
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: savedSearches,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get all saved searches error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch saved searches'
+    });
+  }
+};
+
+/**
+ * Get saved search by ID with its pending date windows
+ * GET /import/saved-searches/:id
+ */
+export const getSavedSearchById = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid saved search ID format'
+      });
+    }
+
+    const savedSearch = await db.savedSearch.findUnique({
+      where: { id }
+    });
+
+    if (!savedSearch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Saved search not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...savedSearch,
+        isRunning: SavedSearchRunner.isRunning(id),
+        pendingWindows: new SavedSearchRunner().getPendingWindows(savedSearch)
+      },
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get saved search by ID error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch saved search'
+    });
+  }
+};
+
+/**
+ * Create new saved search
+ * POST /import/saved-searches
+ */
+export const createSavedSearch = async (req: Request, res: Response) => {
+  try {
+    const {
+      projectId, name, searchTerms, sources, useBooleanQuery, booleanQuery,
+      keywordLoc, articleLimit, schedule, windowDays, startDate, isActive
+    } = req.body;
+
+    // Validate required fields
+    const validation = validateRequiredFields(
+      { projectId, name, schedule },
+      ['projectId', 'name', 'schedule']
+    );
+
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: `Missing required fields: ${validation.missingFields.join(', ')}`
+      });
+    }
+
+    if (!isValidUUID(projectId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid project ID format'
+      });
+    }
+
+    const searchValidation = validateSavedSearchData(req.body);
+    if (!searchValidation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: searchValidation.errors.join(', ')
+      });
+    }
+
+    if ((!searchTerms || searchTerms.length === 0) && !(useBooleanQuery && booleanQuery)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Either searchTerms or a boolean query is required'
+      });
+    }
+
+    // Verify project exists
+    const project = await db.project.findUnique({
+      where: { id: projectId }
+    });
+
+    if (!project) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project not found'
+      });
+    }
+
+    const savedSearch = await db.savedSearch.create({
+      data: {
+        projectId,
+        name,
+        searchTerms: searchTerms || [],
+        sources: sources || [],
+        useBooleanQuery: useBooleanQuery || false,
+        booleanQuery: booleanQuery || null,
+        keywordLoc: keywordLoc || null,
+        articleLimit: articleLimit ? parseInt(String(articleLimit), 10) : null,
+        schedule,
+        windowDays: windowDays ? parseInt(String(windowDays), 10) : 1,
+        startDate: startDate ? new Date(startDate) : null,
+        isActive: isActive !== undefined ? isActive : true,
+        nextRunAt: new CronSchedule(schedule).next(new Date())
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: savedSearch,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Create saved search error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to create saved search'
+    });
+  }
+};
+
+/**
+ * Update saved search
+ * PUT /import/saved-searches/:id
+ */
+export const updateSavedSearch = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const {
+      name, searchTerms, sources, useBooleanQuery, booleanQuery,
+      keywordLoc, articleLimit, schedule, windowDays, startDate, isActive
+    } = req.body;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid saved search ID format'
+      });
+    }
+
+    const existing = await db.savedSearch.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Saved search not found'
+      });
+    }
+
+    const searchValidation = validateSavedSearchData(req.body);
+    if (!searchValidation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: searchValidation.errors.join(', ')
+      });
+    }
+
+    // Re-plan the next run when the schedule changes or the search is switched back on
+    const reschedule = (schedule !== undefined && schedule !== existing.schedule)
+      || (isActive === true && !existing.isActive);
+
+    const savedSearch = await db.savedSearch.update({
+      where: { id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(searchTerms !== undefined && { searchTerms }),
+        ...(sources !== undefined && { sources }),
+        ...(useBooleanQuery !== undefined && { useBooleanQuery }),
+        ...(booleanQuery !== undefined && { booleanQuery }),
+        ...(keywordLoc !== undefined && { keywordLoc }),
+        ...(articleLimit !== undefined && { articleLimit: articleLimit ? parseInt(String(articleLimit), 10) : null }),
+        ...(schedule !== undefined && { schedule }),
+        ...(windowDays !== undefined && { windowDays: parseInt(String(windowDays), 10) }),
+        ...(startDate !== undefined && { startDate: startDate ? new Date(startDate) : null }),
+        ...(isActive !== undefined && { isActive }),
+        ...(reschedule && { nextRunAt: new CronSchedule(schedule || existing.schedule).next(new Date()) })
+      }
+    });
+
+    res.json({
+      success: true,
+      data: savedSearch,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Update saved search error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to update saved search'
+    });
+  }
+};
+
+/**
+ * Delete saved search (its import sessions and articles are kept)
+ * DELETE /import/saved-searches/:id
+ */
+export const deleteSavedSearch = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid saved search ID format'
+      });
+    }
+
+    const existing = await db.savedSearch.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Saved search not found'
+      });
+    }
+
+    await db.savedSearch.delete({
+      where: { id }
+    });
+
+    res.json({
+      success: true,
+      data: { message: 'Saved search deleted successfully' },
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Delete saved search error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to delete saved search'
+    });
+  }
+};
+
+/**
+ * Run a saved search now for every date window not yet covered
+ * POST /import/saved-searches/:id/run
+ */
+export const runSavedSearch = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid saved search ID format'
+      });
+    }
+
+    const savedSearch = await db.savedSearch.findUnique({
+      where: { id }
+    });
+
+    if (!savedSearch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Saved search not found'
+      });
+    }
+
+    if (SavedSearchRunner.isRunning(id)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Saved search is already running'
+      });
+    }
+
+    const runner = new SavedSearchRunner();
+    const pendingWindows = runner.getPendingWindows(savedSearch);
+
+    // Windows are imported one after another, so run in the background
+    runner.run(id).catch(error => {
+      console.error(`Saved search ${id} run failed:`, error);
+    });
+
+    res.json({
+      success: true,
+      data: {
+        pendingWindows,
+        message: pendingWindows.length > 0
+          ? 'Saved search started. Use the history endpoint to track its sessions.'
+          : 'Saved search is already up to date'
+      },
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Run saved search error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to run saved search'
+    });
+  }
+};
+
+/**
+ * Get the import sessions a saved search has run
+ * GET /import/saved-searches/:id/history
+ */
+export const getSavedSearchHistory = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid saved search ID format'
+      });
+    }
+
+    const sessions = await db.importSession.findMany({
+      where: { savedSearchId: id },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        startDate: true,
+        endDate: true,
+        status: true,
+        errorMessage: true,
+        articlesFound: true,
+        articlesImported: true,
+        createdAt: true,
+        completedAt: true
+      }
+    });
+
+    res.json({
+      success: true,
+      data: sessions,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get saved search history error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch saved search history'
+    });
+  }
+};
+
+/**
+ * Validate the optional saved search fields that are provided
+ */
+function validateSavedSearchData(search: {
+  searchTerms?: any;
+  sources?: any;
+  useBooleanQuery?: any;
+  booleanQuery?: any;
+  keywordLoc?: any;
+  articleLimit?: any;
+  schedule?: any;
+  windowDays?: any;
+  startDate?: any;
+}): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const { searchTerms, sources, useBooleanQuery, booleanQuery, keywordLoc, articleLimit, schedule, windowDays, startDate } = search;
+
+  if (schedule !== undefined) {
+    const scheduleError = typeof schedule === 'string' ? CronSchedule.validate(schedule) : 'schedule must be a cron expression';
+    if (scheduleError) {
+      errors.push(`Invalid schedule: ${scheduleError}`);
+    }
+  }
+
+  if (searchTerms !== undefined && (!Array.isArray(searchTerms) || searchTerms.some((term: any) => typeof term !== 'string'))) {
+    errors.push('searchTerms must be an array of strings');
+  }
+
+  if (sources !== undefined && (!Array.isArray(sources) || sources.some((source: any) => typeof source !== 'string'))) {
+    errors.push('sources must be an array of source URIs');
+  }
+
+  if (useBooleanQuery && (!booleanQuery || typeof booleanQuery !== 'string')) {
+    errors.push('booleanQuery is required when useBooleanQuery is true');
+  } else if (booleanQuery && typeof booleanQuery === 'string' && !isJSONQuery(booleanQuery)) {
+    validateBooleanQuery(booleanQuery).errors.forEach(error => {
+      errors.push(`Boolean query: ${error.message} (at position ${error.position})`);
+    });
+  }
+
+  if (keywordLoc && !['body', 'title', 'title,body'].includes(keywordLoc)) {
+    errors.push('keywordLoc must be one of: body, title, title,body');
+  }
+
+  if (articleLimit !== undefined && articleLimit !== null) {
+    const limit = parseInt(String(articleLimit), 10);
+    if (isNaN(limit) || limit < 1 || limit > 1000) {
+      errors.push('articleLimit must be between 1 and 1000');
+    }
+  }
+
+  if (windowDays !== undefined) {
+    const days = parseInt(String(windowDays), 10);
+    if (isNaN(days) || days < 1 || days > 31) {
+      errors.push('windowDays must be between 1 and 31');
+    }
+  }
+
+  if (startDate && isNaN(new Date(startDate).getTime())) {
+    errors.push('startDate must be a valid date');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
@@ -1,8 +1,10 @@
 import { Request, Response } from "express";
 import { GeminiContextCache } from "../lib/contextCache";
+import { availableLLMProviders, getLLMSettings, updateLLMSettings, createLLMProvider, validateLLMSettings } from "../lib/llm";
+import { PROMPT_TYPES, PromptType, PromptTemplateService } from "../lib/promptTemplates";
+import { authenticatedName } from "../middleware/auth";
 
-// TODO: Implement settings storage (could be in database or config files)
-// For now, using placeholder functions
+const promptTemplateService = new PromptTemplateService();
 
 /**
  * Get all application settings
@@ -10,11 +12,19 @@ import { GeminiContextCache } from "../lib/contextCache";
  */
 export const getSettings = async (req: Request, res: Response) => {
   try {
-    // Placeholder settings
+    const llm = await getLLMSettings();
+    const provider = createLLMProvider(llm);
+
     const settings = {
       geminiApiKey: process.env.GEMINI_API_KEY ? "***configured***" : null,
+      openaiApiKey: process.env.OPENAI_API_KEY ? "***configured***" : null,
       newsApiKey: process.env.NEWS_API_KEY ? "***configured***" : null,
       googleClientId: process.env.GOOGLE_CLIENT_ID ? "***configured***" : null,
+      llm: {
+        ...llm,
+        model: provider.model,
+        availableProviders: availableLLMProviders()
+      },
       maxBatchSize: 10,
       analysisTimeout: 300000 // 5 minutes
     };
@@ -33,67 +43,273 @@ export const getSettings = async (req: Request, res: Response) => {
 };
 
 /**
- * Update application settings
+ * Update application settings - currently the LLM provider used for analysis
  * PUT /settings
  */
 export const updateSettings = async (req: Request, res: Response) => {
   try {
-    // TODO: Implement settings update logic
-    res.status(501).json({
-      success: false,
-      error: "Settings update not yet implemented"
+    const validation = validateLLMSettings(req.body?.llm);
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: validation.errors.join(", ")
+      });
+    }
+
+    const llm = await updateLLMSettings(req.body.llm);
+
+    res.json({
+      success: true,
+      data: { llm },
+      error: null
     });
-  } catch (error) {
+  } catch (error: any) {
+    console.error('Update settings error:', error);
     res.status(500).json({
       success: false,
-      error: "Failed to update settings"
+      error: error.message || "Failed to update settings"
     });
   }
 };
 
 /**
- * Get Gemini prompt fragments
- * GET /settings/prompts
+ * List every version of each prompt template, newest first, with the active version per type
+ * GET /settings/prompts?type=
  */
 export const getGeminiPrompts = async (req: Request, res: Response) => {
   try {
-    // Placeholder prompts
-    const prompts = {
-      systemPrompt: "You are a news analysis assistant. Analyze the provided articles and extract key information.",
-      summaryPrompt: "Summarize this article in 2-3 sentences, focusing on the main points and key stakeholders.",
-      categoryPrompt: "Categorize this article into one of these categories: Politics, Business, Technology, Health, Sports, Entertainment, Science, World News.",
-      sentimentPrompt: "Determine the sentiment of this article: positive, neutral, or negative.",
-      quotePrompt: "Extract key quotes from stakeholders mentioned in this article, including their name, affiliation, and the quote text."
-    };
+    const type = req.query.type as string | undefined;
+
+    if (type !== undefined && !isPromptType(type)) {
+      return res.status(400).json({
+        success: false,
+        error: `type must be one of: ${PROMPT_TYPES.join(", ")}`
+      });
+    }
+
+    const prompts = await promptTemplateService.listVersions(type as PromptType | undefined);
 
     res.json({
       success: true,
       data: prompts,
       error: null
     });
-  } catch (error) {
+  } catch (error: any) {
+    console.error('Get prompts error:', error);
     res.status(500).json({
       success: false,
-      error: "Failed to fetch prompts"
+      error: error.message || "Failed to fetch prompts"
     });
   }
 };
 
 /**
- * Update Gemini prompt fragments
- * PUT /settings/prompts
+ * Get one version of a prompt template
+ * GET /settings/prompts/:type/versions/:version
  */
-export const updateGeminiPrompts = async (req: Request, res: Response) => {
+export const getPromptVersion = async (req: Request, res: Response) => {
   try {
-    // TODO: Implement prompt update logic
-    res.status(501).json({
+    const { type } = req.params;
+    const version = parseInt(req.params.version, 10);
+
+    if (!isPromptType(type) || isNaN(version)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid prompt type or version"
+      });
+    }
+
+    const prompt = await promptTemplateService.getVersion(type, version);
+
+    if (!prompt) {
+      return res.status(404).json({
+        success: false,
+        error: "Prompt version not found"
+      });
+    }
+
+    res.json({
+      success: true,
+      data: prompt,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get prompt version error:', error);
+    res.status(500).json({
       success: false,
-      error: "Prompt update not yet implemented"
+      error: error.message || "Failed to fetch prompt version"
     });
-  } catch (error) {
+  }
+};
+
+/**
+ * Save a new version of a prompt template, as a draft unless activate is true
+ * POST /settings/prompts/:type/versions
+ */
+export const createPromptVersion = async (req: Request, res: Response) => {
+  try {
+    const { type } = req.params;
+
+    if (!isPromptType(type)) {
+      return res.status(400).json({
+        success: false,
+        error: `type must be one of: ${PROMPT_TYPES.join(", ")}`
+      });
+    }
+
+    const validation = validatePromptVersionData(req.body);
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: validation.errors.join(", ")
+      });
+    }
+
+    const { content, description, activate } = req.body;
+    const prompt = await promptTemplateService.createVersion(type, {
+      content,
+      description,
+      createdBy: authenticatedName(req) ?? undefined, // The signed-in author, never the request body
+      activate: activate === true
+    });
+
+    res.status(201).json({
+      success: true,
+      data: prompt,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Create prompt version error:', error);
     res.status(500).json({
       success: false,
-      error: "Failed to update prompts"
+      error: error.message || "Failed to create prompt version"
+    });
+  }
+};
+
+/**
+ * Line-by-line diff between two versions of a prompt template; "to" defaults to the active version
+ * GET /settings/prompts/:type/diff?from=&to=
+ */
+export const diffPromptVersions = async (req: Request, res: Response) => {
+  try {
+    const { type } = req.params;
+    const from = parseInt(String(req.query.from), 10);
+
+    if (!isPromptType(type) || isNaN(from)) {
+      return res.status(400).json({
+        success: false,
+        error: "A valid prompt type and a numeric from version are required"
+      });
+    }
+
+    const to = req.query.to !== undefined
+      ? parseInt(String(req.query.to), 10)
+      : (await promptTemplateService.listVersions(type))[0].activeVersion ?? NaN;
+
+    if (isNaN(to)) {
+      return res.status(400).json({
+        success: false,
+        error: "to must be a version number (or omitted to compare with the active version)"
+      });
+    }
+
+    const diff = await promptTemplateService.diffVersions(type, from, to);
+
+    if (!diff) {
+      return res.status(404).json({
+        success: false,
+        error: "Prompt version not found"
+      });
+    }
+
+    res.json({
+      success: true,
+      data: diff,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Diff prompt versions error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || "Failed to diff prompt versions"
+    });
+  }
+};
+
+/**
+ * Make a version the active prompt template for its type
+ * POST /settings/prompts/:type/versions/:version/activate
+ */
+export const activatePromptVersion = async (req: Request, res: Response) => {
+  try {
+    const { type } = req.params;
+    const version = parseInt(req.params.version, 10);
+
+    if (!isPromptType(type) || isNaN(version)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid prompt type or version"
+      });
+    }
+
+    const prompt = await promptTemplateService.activateVersion(type, version);
+
+    if (!prompt) {
+      return res.status(404).json({
+        success: false,
+        error: "Prompt version not found"
+      });
+    }
+
+    res.json({
+      success: true,
+      data: prompt,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Activate prompt version error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || "Failed to activate prompt version"
+    });
+  }
+};
+
+/**
+ * Reactivate the version of a prompt template that was active before the current one
+ * POST /settings/prompts/:type/rollback
+ */
+export const rollbackPrompt = async (req: Request, res: Response) => {
+  try {
+    const { type } = req.params;
+
+    if (!isPromptType(type)) {
+      return res.status(400).json({
+        success: false,
+        error: `type must be one of: ${PROMPT_TYPES.join(", ")}`
+      });
+    }
+
+    const prompt = await promptTemplateService.rollback(type);
+
+    if (!prompt) {
+      return res.status(409).json({
+        success: false,
+        error: "No previously active version to roll back to"
+      });
+    }
+
+    res.json({
+      success: true,
+      data: prompt,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Rollback prompt error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || "Failed to roll back prompt"
     });
   }
 };
@@ -149,7 +365,7 @@ export const updateCategories = async (req: Request, res: Response) => {
 };
 
 /**
- * Get context cache status
+ * Get context cache status, including server-side caches and token savings
  * GET /settings/context-cache
  */
 export const getContextCacheStatus = async (req: Request, res: Response) => {
@@ -227,3 +443,31 @@ export const clearBatchContextCache = async (req: Request, res: Response) => {
     });
   }
 };
+
+/**
+ * Validate a new prompt version
+ */
+function validatePromptVersionData(data: any): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (typeof data?.content !== 'string' || data.content.trim().length === 0) {
+    errors.push("content must be a non-empty string");
+  }
+
+  if (data?.description !== undefined && typeof data.description !== 'string') {
+    errors.push("description must be a string");
+  }
+
+  if (data?.activate !== undefined && typeof data.activate !== 'boolean') {
+    errors.push("activate must be true or false");
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+function isPromptType(type: string): type is PromptType {
+  return (PROMPT_TYPES as readonly string[]).includes(type);
+}
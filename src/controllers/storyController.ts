@@ -0,0 +1,136 @@
+import { Request, Response } from "express";
+import prisma from "../lib/db";
+import { StoryGrouper } from "../lib/storyGrouping";
+import { isValidUUID } from "../utils/validation";
+
+const storyGrouper = new StoryGrouper();
+
+/**
+ * Get the stories in a project with the outlets that covered each
+ * GET /projects/:id/stories?minOutlets=
+ */
+export const getProjectStories = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const minOutlets = req.query.minOutlets ? parseInt(String(req.query.minOutlets), 10) : 1;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid project ID format"
+      });
+    }
+
+    if (isNaN(minOutlets) || minOutlets < 1) {
+      return res.status(400).json({
+        success: false,
+        error: "minOutlets must be a positive number"
+      });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id }
+    });
+
+    if (!project) {
+      return res.status(404).json({
+        success: false,
+        error: "Project not found"
+      });
+    }
+
+    const stories = await storyGrouper.getProjectStories(id, minOutlets);
+
+    res.json({
+      success: true,
+      data: stories,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get project stories error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || "Failed to fetch stories"
+    });
+  }
+};
+
+/**
+ * Get one story with its articles grouped by outlet
+ * GET /projects/:id/stories/:storyId
+ */
+export const getProjectStory = async (req: Request, res: Response) => {
+  try {
+    const { id, storyId } = req.params;
+
+    if (!isValidUUID(id) || !isValidUUID(storyId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid project or story ID format"
+      });
+    }
+
+    const story = await storyGrouper.getStory(id, storyId);
+
+    if (!story) {
+      return res.status(404).json({
+        success: false,
+        error: "Story not found"
+      });
+    }
+
+    res.json({
+      success: true,
+      data: story,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Get project story error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || "Failed to fetch story"
+    });
+  }
+};
+
+/**
+ * Regroup a project's articles into stories
+ * POST /projects/:id/stories/rebuild
+ */
+export const rebuildProjectStories = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid project ID format"
+      });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id }
+    });
+
+    if (!project) {
+      return res.status(404).json({
+        success: false,
+        error: "Project not found"
+      });
+    }
+
+    const result = await storyGrouper.rebuildProject(id);
+
+    res.json({
+      success: true,
+      data: result,
+      error: null
+    });
+  } catch (error: any) {
+    console.error('Rebuild project stories error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || "Failed to rebuild stories"
+    });
+  }
+};
@@ -4,6 +4,9 @@ import dotenv from "dotenv";
 import path from "path";
 import { globalErrorHandler, notFoundHandler } from "./utils/errorHandler";
 import { authenticateToken } from "./middleware/auth";
+import { startScheduler } from "./jobs/scheduler";
+import { startWorker } from "./jobs/worker";
+import { EvaluationService } from "./lib/evaluation";
 
 // Load environment variables explicitly
 dotenv.config({ path: path.resolve(process.cwd(), '.env') });
@@ -18,6 +21,8 @@ import settingsRouter from "./routes/settings";
 import exportRouter from "./routes/export";
 import importRouter from "./routes/import";
 import categoriesRouter from "./routes/categories";
+import evaluationRouter from "./routes/evaluation";
+import codingRouter from "./routes/coding";
 const app = express();
 const PORT = process.env.PORT || 8080;
 
@@ -54,6 +59,8 @@ app.use("/settings", authenticateToken, settingsRouter);
 app.use("/export", authenticateToken, exportRouter);
 app.use("/import", authenticateToken, importRouter);
 app.use("/categories", authenticateToken, categoriesRouter);
+app.use("/evaluation", authenticateToken, evaluationRouter);
+app.use("/coding", authenticateToken, codingRouter);
 
 // 404 handler
 app.use(notFoundHandler);
@@ -62,8 +69,24 @@ app.use(notFoundHandler);
 app.use(globalErrorHandler);
 
 // Start server
+const startedAt = new Date();
 app.listen(PORT, () => {
   console.log(`✅ NewsHub API server running on port ${PORT}`);
   console.log(`📊 Health check: http://localhost:${PORT}/`);
   console.log(`📚 API Documentation: Check routes in src/routes/`);
+
+  // Run saved NewsAPI searches on their schedules
+  if (process.env.SAVED_SEARCH_SCHEDULER_ENABLED !== 'false') {
+    startScheduler(parseInt(process.env.SAVED_SEARCH_SCHEDULER_INTERVAL_MS || '60000'));
+  }
+
+  // Evaluation runs are processed in memory, so any a previous process was working on can't finish
+  new EvaluationService().failInterruptedRuns(startedAt)
+    .then(count => count > 0 && console.log(`🧪 Marked ${count} interrupted evaluation runs as failed`))
+    .catch(error => console.error('Failed to clean up interrupted evaluation runs:', error));
+
+  // Analyse queued articles, resuming any batches left running by a previous process
+  if (process.env.ANALYSIS_WORKER_ENABLED !== 'false') {
+    startWorker(parseInt(process.env.ANALYSIS_WORKER_INTERVAL_MS || '5000'));
+  }
 });
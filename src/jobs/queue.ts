@@ -1,32 +1,52 @@
+import { Prisma } from "@prisma/client";
 import prisma from "../lib/db";
+import { ArticleAnalysisResult, QuoteResult } from "../lib/analysisSchema";
+
+// Longest wait between attempts, however many have failed
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+export type AnalysisJobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'dead_letter' | 'cancelled';
 
 export interface AnalysisJob {
   id: string;
   articleId: string;
   projectId: string;
-  status: 'queued' | 'processing' | 'completed' | 'failed';
+  status: AnalysisJobStatus;
   createdAt: Date;
   startedAt?: Date;
   completedAt?: Date;
   error?: string;
   batchId?: string;
+  attempts: number;
+  nextAttemptAt: Date;
+  leasedBy?: string;
+  leaseExpiresAt?: Date;
+  rawOutput?: string;
+}
+
+/** What a completed job stores: the article's validated analysis and the quotes extracted from it */
+export interface AnalysisJobResult {
+  analysis: ArticleAnalysisResult;
+  quotes: QuoteResult[];
 }
 
 /**
  * Add articles to the analysis queue
  * @param articleIds Array of article IDs to analyze
  * @param projectId Project ID for tracking
+ * @param batchId Batch the jobs belong to
  * @returns Array of job IDs
  */
-export const addToQueue = async (articleIds: string[], projectId: string): Promise<string[]> => {
+export const addToQueue = async (articleIds: string[], projectId: string, batchId?: string): Promise<string[]> => {
   try {
     const jobs = await Promise.all(
-      articleIds.map(articleId => 
+      articleIds.map(articleId =>
         prisma.analysisJob.create({
           data: {
             articleId,
             projectId,
-            status: 'queued'
+            status: 'queued',
+            batchId
           }
         })
       )
@@ -39,68 +59,183 @@ export const addToQueue = async (articleIds: string[], projectId: string): Promi
 };
 
 /**
- * Get next batch of jobs to process (max 10)
- * @returns Array of jobs ready for processing
+ * Claim the next due jobs for a worker
+ * Rows are locked with FOR UPDATE SKIP LOCKED, so concurrent workers never claim the same job
+ * @param workerId ID of the claiming worker
+ * @param limit Most jobs to claim
+ * @param leaseMs How long the worker holds the jobs before they can be reclaimed
+ * @returns Claimed jobs, with their attempt count already incremented
  */
-export const getNextBatch = async (): Promise<AnalysisJob[]> => {
+export const claimJobs = async (workerId: string, limit: number, leaseMs: number): Promise<AnalysisJob[]> => {
   try {
-    const jobs = await prisma.analysisJob.findMany({
-      where: { status: 'queued' },
-      take: 10,
-      orderBy: { createdAt: 'asc' }
+    const jobs = await prisma.$transaction(async (tx) => {
+      // Prisma stores DateTime as UTC without a time zone, so compare against UTC now
+      const due = await tx.$queryRaw<{ id: string }[]>`
+        SELECT "id" FROM "AnalysisJob"
+        WHERE "status" = 'queued' AND "nextAttemptAt" <= (now() AT TIME ZONE 'UTC')
+        ORDER BY "nextAttemptAt" ASC, "createdAt" ASC
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED`;
+
+      if (due.length === 0) {
+        return [];
+      }
+
+      const ids = due.map(row => row.id);
+      const now = new Date();
+
+      await tx.analysisJob.updateMany({
+        where: { id: { in: ids } },
+        data: {
+          status: 'processing',
+          leasedBy: workerId,
+          leaseExpiresAt: new Date(now.getTime() + leaseMs),
+          startedAt: now,
+          attempts: { increment: 1 }
+        }
+      });
+
+      return tx.analysisJob.findMany({
+        where: { id: { in: ids } }
+      });
     });
 
-    return jobs.map(job => ({
-      id: job.id,
-      articleId: job.articleId,
-      projectId: job.projectId,
-      status: job.status as 'queued' | 'processing' | 'completed' | 'failed',
-      createdAt: job.createdAt,
-      startedAt: job.startedAt || undefined,
-      completedAt: job.completedAt || undefined,
-      error: job.error || undefined,
-      batchId: job.batchId || undefined
-    }));
+    return jobs.map(formatJob);
   } catch (error) {
-    throw new Error(`Failed to get next batch: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Failed to claim jobs: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 };
 
 /**
- * Mark jobs as processing
- * @param jobIds Array of job IDs to mark as processing
- * @param batchId Optional batch ID for grouping
+ * Extend the lease on jobs a worker is still processing
+ * @param jobIds Jobs being processed
+ * @param workerId Worker holding the lease
+ * @param leaseMs New lease length from now
  */
-export const markJobsAsProcessing = async (jobIds: string[], batchId?: string): Promise<void> => {
+export const renewLease = async (jobIds: string[], workerId: string, leaseMs: number): Promise<void> => {
   try {
     await prisma.analysisJob.updateMany({
-      where: { id: { in: jobIds } },
-      data: {
-        status: 'processing',
-        startedAt: new Date(),
-        batchId
-      }
+      where: { id: { in: jobIds }, status: 'processing', leasedBy: workerId },
+      data: { leaseExpiresAt: new Date(Date.now() + leaseMs) }
     });
   } catch (error) {
-    throw new Error(`Failed to mark jobs as processing: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Failed to renew lease: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 };
 
 /**
- * Mark jobs as completed
- * @param jobIds Array of job IDs to mark as completed
+ * Put jobs whose lease expired (their worker died or hung) back in the queue
+ * Jobs that have used all their attempts move to the dead-letter list instead
+ * @param maxAttempts Attempts allowed per job
+ * @returns Number of jobs requeued and failed
  */
-export const markJobsAsCompleted = async (jobIds: string[]): Promise<void> => {
+export const reclaimStalledJobs = async (maxAttempts: number): Promise<{ requeued: number; failed: number }> => {
   try {
-    await prisma.analysisJob.updateMany({
-      where: { id: { in: jobIds } },
+    const now = new Date();
+    const stalled = { status: 'processing', leaseExpiresAt: { lt: now } };
+
+    const failed = await prisma.analysisJob.updateMany({
+      where: { ...stalled, attempts: { gte: maxAttempts } },
       data: {
-        status: 'completed',
-        completedAt: new Date()
+        status: 'dead_letter',
+        completedAt: now,
+        leasedBy: null,
+        leaseExpiresAt: null,
+        error: 'Worker stopped responding and no attempts are left'
+      }
+    });
+
+    const requeued = await prisma.analysisJob.updateMany({
+      where: stalled,
+      data: {
+        status: 'queued',
+        nextAttemptAt: now,
+        leasedBy: null,
+        leaseExpiresAt: null,
+        error: 'Lease expired - worker stopped responding'
       }
     });
+
+    return { requeued: requeued.count, failed: failed.count };
   } catch (error) {
-    throw new Error(`Failed to mark jobs as completed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Failed to reclaim stalled jobs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+/**
+ * Mark a job as completed with its result, inside the transaction that stores the result
+ * Fenced on the worker's lease: if the job was reclaimed in the meantime this throws, rolling the transaction back
+ * @param tx Transaction the result is written in
+ * @param jobId Job ID
+ * @param workerId Worker that claimed the job
+ * @param result Analysis output stored on the job
+ */
+export const markJobAsCompleted = async (tx: Prisma.TransactionClient, jobId: string, workerId: string, result: AnalysisJobResult): Promise<void> => {
+  const completed = await tx.analysisJob.updateMany({
+    where: { id: jobId, status: 'processing', leasedBy: workerId },
+    data: {
+      status: 'completed',
+      completedAt: new Date(),
+      leasedBy: null,
+      leaseExpiresAt: null,
+      error: null,
+      result: result as unknown as Prisma.InputJsonValue
+    }
+  });
+
+  if (completed.count === 0) {
+    throw new Error(`Job ${jobId} is no longer leased by worker ${workerId}`);
+  }
+};
+
+/**
+ * Schedule jobs for another attempt with exponential backoff, or move them to the dead-letter list once out of attempts
+ * Only jobs the worker still holds the lease on are touched
+ * @param jobs Jobs that failed this attempt
+ * @param workerId Worker that claimed the jobs
+ * @param error Error message
+ * @param maxAttempts Attempts allowed per job
+ * @param backoffMs Delay before the second attempt; doubles with each further attempt
+ * @param rawOutput Model output that caused the failure, if it got that far
+ */
+export const markJobsForRetry = async (
+  jobs: AnalysisJob[],
+  workerId: string,
+  error: string,
+  maxAttempts: number,
+  backoffMs: number,
+  rawOutput?: string
+): Promise<void> => {
+  try {
+    for (const job of jobs) {
+      const outOfAttempts = job.attempts >= maxAttempts;
+      const delay = Math.min(backoffMs * Math.pow(2, job.attempts - 1), MAX_BACKOFF_MS);
+
+      // Only jobs still being processed under this lease - any already completed in this claim keep their result,
+      // and a job another worker reclaimed is theirs to finish
+      await prisma.analysisJob.updateMany({
+        where: { id: job.id, status: 'processing', leasedBy: workerId },
+        data: outOfAttempts
+          ? {
+            status: 'dead_letter',
+            completedAt: new Date(),
+            leasedBy: null,
+            leaseExpiresAt: null,
+            error: `${error} (gave up after ${job.attempts} attempts)`,
+            rawOutput: rawOutput ?? null
+          }
+          : {
+            status: 'queued',
+            nextAttemptAt: new Date(Date.now() + delay),
+            leasedBy: null,
+            leaseExpiresAt: null,
+            error,
+            rawOutput: rawOutput ?? null
+          }
+      });
+    }
+  } catch (retryError) {
+    throw new Error(`Failed to schedule job retries: ${retryError instanceof Error ? retryError.message : 'Unknown error'}`);
   }
 };
 
@@ -116,6 +251,8 @@ export const markJobsAsFailed = async (jobIds: string[], error: string): Promise
       data: {
         status: 'failed',
         completedAt: new Date(),
+        leasedBy: null,
+        leaseExpiresAt: null,
         error
       }
     });
@@ -124,6 +261,80 @@ export const markJobsAsFailed = async (jobIds: string[], error: string): Promise
   }
 };
 
+/**
+ * Cancel a batch's jobs that haven't been claimed yet
+ * @param batchId Batch ID
+ * @returns Number of jobs cancelled
+ */
+export const cancelQueuedJobs = async (batchId: string): Promise<number> => {
+  try {
+    const result = await prisma.analysisJob.updateMany({
+      where: { batchId, status: 'queued' },
+      data: {
+        status: 'cancelled',
+        completedAt: new Date()
+      }
+    });
+
+    return result.count;
+  } catch (error) {
+    throw new Error(`Failed to cancel jobs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+/**
+ * Put failed and dead-lettered jobs back in the queue with a fresh set of attempts
+ * @param jobIds Jobs to retry
+ * @returns Number of jobs requeued
+ */
+export const requeueJobs = async (jobIds: string[]): Promise<number> => {
+  try {
+    const result = await prisma.analysisJob.updateMany({
+      where: { id: { in: jobIds }, status: { in: ['failed', 'dead_letter'] } },
+      data: {
+        status: 'queued',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        startedAt: null,
+        completedAt: null,
+        error: null,
+        rawOutput: null
+      }
+    });
+
+    return result.count;
+  } catch (error) {
+    throw new Error(`Failed to requeue jobs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+/**
+ * Get a project's dead-letter list: articles that failed every attempt
+ * @param projectId Project ID
+ * @returns Dead-lettered jobs with their article title, newest first
+ */
+export const getDeadLetterJobs = async (projectId: string) => {
+  try {
+    const jobs = await prisma.analysisJob.findMany({
+      where: { projectId, status: 'dead_letter' },
+      orderBy: { completedAt: 'desc' }
+    });
+
+    const articles = await prisma.article.findMany({
+      where: { id: { in: jobs.map(job => job.articleId) } },
+      select: { id: true, title: true }
+    });
+    const titles = new Map(articles.map(article => [article.id, article.title]));
+
+    return jobs.map(job => ({
+      ...formatJob(job),
+      articleTitle: titles.get(job.articleId) || null
+    }));
+  } catch (error) {
+    throw new Error(`Failed to get dead-letter jobs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
 /**
  * Get queue status for a project
  * @param projectId Project ID
@@ -147,6 +358,8 @@ export const getQueueStatus = async (projectId: string) => {
       processing: statusMap.processing || 0,
       completed: statusMap.completed || 0,
       failed: statusMap.failed || 0,
+      deadLetter: statusMap.dead_letter || 0,
+      cancelled: statusMap.cancelled || 0,
       total: Object.values(statusMap).reduce((sum, count) => sum + count, 0)
     };
   } catch (error) {
@@ -170,3 +383,20 @@ export const clearCompletedJobs = async (projectId: string): Promise<void> => {
     throw new Error(`Failed to clear completed jobs: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 };
+
+const formatJob = (job: any): AnalysisJob => ({
+  id: job.id,
+  articleId: job.articleId,
+  projectId: job.projectId,
+  status: job.status as AnalysisJobStatus,
+  createdAt: job.createdAt,
+  startedAt: job.startedAt || undefined,
+  completedAt: job.completedAt || undefined,
+  error: job.error || undefined,
+  batchId: job.batchId || undefined,
+  attempts: job.attempts,
+  nextAttemptAt: job.nextAttemptAt,
+  leasedBy: job.leasedBy || undefined,
+  leaseExpiresAt: job.leaseExpiresAt || undefined,
+  rawOutput: job.rawOutput || undefined
+});
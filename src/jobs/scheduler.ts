@@ -0,0 +1,43 @@
+import { SavedSearchRunner } from "../lib/savedSearchRunner";
+
+let isTicking = false;
+
+/**
+ * Run any saved searches that are due
+ * Ticks are skipped while the previous one is still importing
+ */
+export const runScheduledSearches = async (): Promise<void> => {
+  if (isTicking) {
+    return;
+  }
+
+  isTicking = true;
+  try {
+    const runner = new SavedSearchRunner();
+    const ran = await runner.runDue();
+    if (ran > 0) {
+      console.log(`Scheduler ran ${ran} saved search(es)`);
+    }
+  } finally {
+    isTicking = false;
+  }
+};
+
+/**
+ * Start the saved search scheduler
+ * @param intervalMs How often to check for due searches (default: 1 minute)
+ */
+export const startScheduler = (intervalMs: number = 60000): void => {
+  console.log(`Starting saved search scheduler with ${intervalMs}ms interval`);
+
+  const schedulerInterval = setInterval(async () => {
+    try {
+      await runScheduledSearches();
+    } catch (error) {
+      console.error('Scheduler error:', error);
+    }
+  }, intervalMs);
+
+  // Don't keep the process alive just for the scheduler
+  schedulerInterval.unref();
+};
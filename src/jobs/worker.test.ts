@@ -0,0 +1,133 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+
+/**
+ * Drives processJobs through the fake LLM provider against an in-memory stand-in for the database,
+ * checking each attempt lands a job in the right state: retried, completed or dead-lettered
+ */
+
+process.env.NODE_ENV = 'test';
+process.env.LLM_PROVIDER = 'fake';
+process.env.ANALYSIS_JOB_MAX_ATTEMPTS = '4';
+
+const ARTICLE = {
+  id: 'article-1',
+  title: 'Drought hits farms',
+  fullBodyText: 'The drought is the worst on record. Farmers warn of losses. '
+    + '"We have never seen the river this low before," said Jane Smith, the regional water officer.',
+  newsOutlet: 'Daily News',
+  authors: ['A. Writer']
+};
+
+const CATEGORIES = [{ name: 'Water Policy', definition: 'Water supply and use', keywords: ['drought', 'river'] }];
+
+type Call = { method: string; args: any };
+
+let calls: Call[] = [];
+let leaseHeld = true;
+
+// Each model method answers from the fixtures above; every call is recorded for assertions
+const answers: Record<string, (args: any) => any> = {
+  'article.findMany': () => [ARTICLE],
+  'article.findUnique': () => ({ analysedAt: null, quotes: [] }),
+  'appSetting.findUnique': () => null,
+  'promptTemplate.findFirst': (args) => ({ id: `${args.where.type}-prompt`, version: 1, content: `Prompt for ${args.where.type}` }),
+  'category.findMany': () => CATEGORIES,
+  'analysisProvenance.findUnique': () => ({ id: 'provenance-1' }),
+  'analysisJob.updateMany': (args) => ({ count: args.data.status === 'completed' && !leaseHeld ? 0 : 1 })
+};
+
+const fakeDb: any = new Proxy({}, {
+  get: (_, model: string) => {
+    if (model === '$transaction') {
+      return async (work: (tx: any) => Promise<any>) => work(fakeDb);
+    }
+
+    return new Proxy({}, {
+      get: (__, method: string) => async (args: any) => {
+        calls.push({ method: `${model}.${method}`, args });
+        return answers[`${model}.${method}`]?.(args) ?? { count: 0 };
+      }
+    });
+  }
+});
+
+require.cache[require.resolve('../lib/db')] = { exports: { __esModule: true, default: fakeDb } } as any;
+
+// Loaded after the database is replaced, so nothing below touches Prisma
+const { processJobs } = require('./worker') as typeof import('./worker');
+const { FakeProvider } = require('../lib/llmProviders/fakeProvider') as typeof import('../lib/llmProviders/fakeProvider');
+const { clearPromptCache } = require('../lib/gemini') as typeof import('../lib/gemini');
+
+const job = (attempts: number) => ({
+  id: 'job-1',
+  articleId: ARTICLE.id,
+  projectId: 'project-1',
+  status: 'processing' as const,
+  createdAt: new Date(),
+  attempts,
+  nextAttemptAt: new Date()
+});
+
+const jobUpdates = () => calls.filter(call => call.method === 'analysisJob.updateMany').map(call => call.args);
+
+beforeEach(() => {
+  calls = [];
+  leaseHeld = true;
+  process.env.FAKE_LLM_SCRIPT = path.join(__dirname, '..', '..', 'fixtures', 'llm', 'flaky.json');
+  FakeProvider.reset();
+  clearPromptCache();
+});
+
+test('flaky model output is retried until an attempt succeeds, and that attempt stores the analysis', async () => {
+  // fixtures/llm/flaky.json: malformed analysis with a truncated repair, then a quote extraction timeout
+  await processJobs([job(1)]);
+
+  const [firstRetry] = jobUpdates();
+  assert.equal(firstRetry.data.status, 'queued');
+  assert.match(firstRetry.data.error, /not valid JSON/);
+  assert.ok(firstRetry.data.rawOutput);
+
+  calls = [];
+  await processJobs([job(2)]);
+
+  const [secondRetry] = jobUpdates();
+  assert.equal(secondRetry.data.status, 'queued');
+  assert.match(secondRetry.data.error, /timed out/);
+  assert.ok(secondRetry.data.nextAttemptAt > firstRetry.data.nextAttemptAt);
+
+  calls = [];
+  await processJobs([job(3)]);
+
+  const [completion] = jobUpdates();
+  assert.equal(completion.data.status, 'completed');
+  assert.equal(completion.where.status, 'processing');
+
+  const articleUpdate = calls.find(call => call.method === 'article.update');
+  assert.equal(articleUpdate?.args.data.categoryGemini, 'Water Policy');
+  assert.equal(articleUpdate?.args.data.sentimentGemini, 'negative');
+
+  const quotes = calls.find(call => call.method === 'quote.createMany');
+  assert.equal(quotes?.args.data[0].stakeholderNameGemini, 'Jane Smith');
+});
+
+test('a job that fails its last attempt moves to the dead-letter list', async () => {
+  FakeProvider.script([{ fault: 'timeout' }]);
+
+  await processJobs([job(4)]);
+
+  const [deadLetter] = jobUpdates();
+  assert.equal(deadLetter.data.status, 'dead_letter');
+  assert.match(deadLetter.data.error, /gave up after 4 attempts/);
+});
+
+test('a job whose lease was lost stores nothing', async () => {
+  FakeProvider.script([]);
+  leaseHeld = false;
+
+  await processJobs([job(1)]);
+
+  assert.equal(calls.some(call => call.method === 'article.update'), false);
+  assert.equal(calls.some(call => call.method === 'quote.createMany'), false);
+});
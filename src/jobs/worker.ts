@@ -1,37 +1,58 @@
-import { analyzeArticles } from "../lib/gemini";
-import { 
-  getNextBatch, 
-  markJobsAsProcessing, 
-  markJobsAsCompleted, 
-  markJobsAsFailed 
+import os from "os";
+import { analyzeArticles, extractQuotes, ArticleAnalysisOutput, QuoteExtractionOutput } from "../lib/gemini";
+import { LLMResponseError } from "../lib/llmProviders/base";
+import { GeminiContextCache } from "../lib/contextCache";
+import { AnalysisBatchService } from "../lib/analysisBatch";
+import { AnalysisRunService } from "../lib/analysisRun";
+import { recordProvenance } from "../lib/analysisProvenance";
+import { archivePreviousAnalysis } from "../lib/analysisHistory";
+import {
+  AnalysisJob,
+  claimJobs,
+  renewLease,
+  reclaimStalledJobs,
+  markJobAsCompleted,
+  markJobsForRetry,
+  markJobsAsFailed
 } from "./queue";
 import prisma from "../lib/db";
 
-/**
- * Process a batch of analysis jobs
- * @param batchId Optional batch ID for tracking
- */
-export const processBatch = async (batchId?: string): Promise<void> => {
-  try {
-    // Get next batch of jobs
-    const jobs = await getNextBatch();
-    
-    if (jobs.length === 0) {
-      console.log('No jobs to process');
-      return;
-    }
+// Identifies this process's leases, so a restarted server never mistakes old leases for its own
+const WORKER_ID = `${os.hostname()}-${process.pid}`;
+
+const config = {
+  batchSize: parseInt(process.env.GEMINI_BATCH_SIZE || '3'),
+  leaseMs: parseInt(process.env.ANALYSIS_JOB_LEASE_MS || '120000'),
+  maxAttempts: parseInt(process.env.ANALYSIS_JOB_MAX_ATTEMPTS || '5'),
+  backoffMs: parseInt(process.env.ANALYSIS_JOB_BACKOFF_MS || '30000')
+};
+
+const analysisBatchService = new AnalysisBatchService();
+const analysisRunService = new AnalysisRunService();
 
-    const jobIds = jobs.map(job => job.id);
-    const articleIds = jobs.map(job => job.articleId);
+let isTicking = false;
 
-    console.log(`Processing batch of ${jobs.length} jobs: ${jobIds.join(', ')}`);
+/**
+ * Analyse the articles behind a set of claimed jobs and store the results
+ * Each article's analysis, quotes and job completion are written in one transaction,
+ * so a crash part-way through never leaves an article half-stored
+ * Every stored result is linked to the provenance of the prompt, categories and model that produced it
+ * Failures are tracked per article: each failed job is retried or dead-lettered on its own
+ * @param jobs Jobs claimed by this worker
+ */
+export const processJobs = async (jobs: AnalysisJob[]): Promise<void> => {
+  const jobIds = jobs.map(job => job.id);
 
-    // Mark jobs as processing
-    await markJobsAsProcessing(jobIds, batchId);
+  // Keep the lease alive while the model is working
+  const heartbeat = setInterval(() => {
+    renewLease(jobIds, WORKER_ID, config.leaseMs).catch(error => {
+      console.error('Failed to renew analysis job lease:', error);
+    });
+  }, Math.max(1000, Math.floor(config.leaseMs / 3)));
 
-    // Get full article data for analysis
+  try {
     const articles = await prisma.article.findMany({
-      where: { id: { in: articleIds } },
+      where: { id: { in: jobs.map(job => job.articleId) } },
       select: {
         id: true,
         title: true,
@@ -41,11 +62,7 @@ export const processBatch = async (batchId?: string): Promise<void> => {
       }
     });
 
-    if (articles.length !== articleIds.length) {
-      throw new Error('Some articles not found');
-    }
-
-    // Filter articles with valid fullBodyText and transform for Gemini
+    // Retrying won't give a deleted or empty article any text - fail those jobs straight away
     const validArticles = articles
       .filter(article => article.fullBodyText && article.fullBodyText.trim().length > 0)
       .map(article => ({
@@ -56,71 +73,173 @@ export const processBatch = async (batchId?: string): Promise<void> => {
         authors: article.authors || undefined
       }));
 
-    if (validArticles.length === 0) {
-      throw new Error('No articles with valid content found');
+    const validIds = new Set(validArticles.map(article => article.id));
+    const unusable = jobs.filter(job => !validIds.has(job.articleId));
+    if (unusable.length > 0) {
+      await markJobsAsFailed(unusable.map(job => job.id), 'Article not found or has no text to analyse');
     }
 
-    // Analyze articles with Gemini
-    const analysisResults = await analyzeArticles(validArticles);
-
-    // Update articles with analysis results
-    for (const result of analysisResults.articles) {
-      await prisma.article.update({
-        where: { id: result.id },
-        data: {
-          summaryGemini: result.summary,
-          categoryGemini: result.category,
-          sentimentGemini: result.sentiment as 'positive' | 'neutral' | 'negative',
-          translatedGemini: result.translated,
-          analysedAt: new Date()
-        }
-      });
+    const pending = jobs.filter(job => validIds.has(job.articleId));
+    if (pending.length === 0) {
+      return;
+    }
 
-      // Create quotes if any
-      if (result.quotes && result.quotes.length > 0) {
-        await prisma.quote.createMany({
-          data: result.quotes.map((quote: any) => ({
-            articleId: result.id,
-            stakeholderNameGemini: quote.stakeholderName,
-            stakeholderAffiliationGemini: quote.stakeholderAffiliation,
-            quoteGemini: quote.quote
-          }))
-        });
-      }
+    try {
+      await GeminiContextCache.initializeBatchContext();
+      await analyseJobs(pending, validArticles);
+    } finally {
+      GeminiContextCache.clearBatchCache();
     }
+  } finally {
+    clearInterval(heartbeat);
+  }
+};
 
-    // Mark jobs as completed
-    await markJobsAsCompleted(jobIds);
+/**
+ * Analyse articles together and save each one's result with its job
+ * When the model's output for several articles can't be used, each article is tried on its own
+ * so one bad article doesn't hold back the others
+ * @param jobs Jobs to analyse
+ * @param articles The jobs' articles, in analysis request form
+ */
+const analyseJobs = async (jobs: AnalysisJob[], articles: Parameters<typeof analyzeArticles>[0]): Promise<void> => {
+  let articleAnalysis: ArticleAnalysisOutput;
+  let quoteExtraction: QuoteExtractionOutput;
 
-    console.log(`Successfully processed batch: ${jobIds.join(', ')}`);
+  try {
+    console.log(`Analysing ${jobs.length} articles for jobs: ${jobs.map(job => job.id).join(', ')}`);
+    articleAnalysis = await analyzeArticles(articles);
+    quoteExtraction = await extractQuotes(articles);
   } catch (error) {
-    console.error('Batch processing failed:', error);
-    
-    // Mark jobs as failed
-    const jobs = await getNextBatch();
-    const jobIds = jobs.map(job => job.id);
-    
-    if (jobIds.length > 0) {
-      await markJobsAsFailed(jobIds, error instanceof Error ? error.message : 'Unknown error');
+    if (error instanceof LLMResponseError && jobs.length > 1) {
+      console.log(`⚠️ Unusable model output for ${jobs.length} articles, analysing them one at a time`);
+      for (const job of jobs) {
+        await analyseJobs([job], articles.filter(article => article.id === job.articleId));
+      }
+      return;
+    }
+
+    console.error('Analysis jobs failed:', error);
+    await markJobsForRetry(
+      jobs,
+      WORKER_ID,
+      error instanceof Error ? error.message : 'Unknown error',
+      config.maxAttempts,
+      config.backoffMs,
+      error instanceof LLMResponseError ? error.rawOutput : undefined
+    );
+    return;
+  }
+
+  let completed = 0;
+
+  for (const job of jobs) {
+    const analysis = articleAnalysis.articles.find(entry => entry['1_id'] === job.articleId);
+    const failure = articleAnalysis.failures.find(entry => entry.articleId === job.articleId)
+      || quoteExtraction.failures.find(entry => entry.articleId === job.articleId);
+
+    if (!analysis || failure) {
+      await markJobsForRetry([job], WORKER_ID, `Invalid model output: ${failure?.errors.join('; ') || 'no analysis returned'}`,
+        config.maxAttempts, config.backoffMs, failure?.rawOutput);
+      continue;
+    }
+
+    const quotes = quoteExtraction.quotes.filter(quote => quote['1_articleId'] === job.articleId);
+
+    try {
+      const articleProvenanceId = await recordProvenance(articleAnalysis.provenance, job.batchId);
+      const quoteProvenanceId = await recordProvenance(quoteExtraction.provenance, job.batchId);
+
+      await prisma.$transaction(async (tx) => {
+        // Fenced first, so a job this worker lost its lease on writes nothing
+        await markJobAsCompleted(tx, job.id, WORKER_ID, { analysis, quotes });
+
+        // A re-analysis moves the previous results and quotes into the article's history rather than overwriting them
+        await archivePreviousAnalysis(job.articleId, tx);
+
+        await tx.article.update({
+          where: { id: job.articleId },
+          data: {
+            summaryGemini: analysis['7_summary'],
+            categoryGemini: analysis['8_category'],
+            sentimentGemini: analysis['9_sentiment'],
+            translatedGemini: analysis['10_translated'],
+            analysedAt: new Date(),
+            analysisProvenanceId: articleProvenanceId,
+            quoteProvenanceId // Kept on the article too, so an extraction that found no quotes is still recorded
+          }
+        });
+
+        await tx.quote.createMany({
+          data: quotes.map(quote => ({
+            articleId: job.articleId,
+            stakeholderNameGemini: quote['2_stakeholderName'],
+            stakeholderAffiliationGemini: quote['3_stakeholderAffiliation'],
+            quoteGemini: quote['4_quote'],
+            analysisProvenanceId: quoteProvenanceId
+          }))
+        });
+      });
+      completed++;
+    } catch (error) {
+      console.error(`❌ Failed to save analysis for article ${job.articleId}:`, error);
+      await markJobsForRetry([job], WORKER_ID, `Failed to save analysis: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        config.maxAttempts, config.backoffMs, JSON.stringify({ analysis, quotes }));
     }
   }
+
+  console.log(`Completed ${completed} of ${jobs.length} analysis jobs`);
+};
+
+/**
+ * One pass of the worker: recover stalled jobs, move batches and runs along, then claim and process due jobs
+ * @returns Number of jobs claimed
+ */
+export const runWorkerCycle = async (): Promise<number> => {
+  const reclaimed = await reclaimStalledJobs(config.maxAttempts);
+  if (reclaimed.requeued > 0 || reclaimed.failed > 0) {
+    console.log(`Reclaimed stalled analysis jobs: ${reclaimed.requeued} requeued, ${reclaimed.failed} failed`);
+  }
+
+  await analysisBatchService.refreshRunningBatches();
+  await analysisRunService.advanceRuns();
+
+  const jobs = await claimJobs(WORKER_ID, config.batchSize, config.leaseMs);
+  if (jobs.length > 0) {
+    await processJobs(jobs);
+  }
+
+  return jobs.length;
 };
 
 /**
  * Start the worker process
- * @param intervalMs Processing interval in milliseconds (default: 30 seconds)
+ * Jobs survive a restart: their leases lapse and the next worker to tick picks them up again
+ * @param intervalMs Processing interval in milliseconds (default: 5 seconds)
  */
-export const startWorker = (intervalMs: number = 30000): void => {
-  console.log(`Starting analysis worker with ${intervalMs}ms interval`);
-  
+export const startWorker = (intervalMs: number = 5000): void => {
+  console.log(`Starting analysis worker ${WORKER_ID} with ${intervalMs}ms interval`);
+
   const processInterval = setInterval(async () => {
+    if (isTicking) {
+      return;
+    }
+
+    isTicking = true;
     try {
-      await processBatch();
+      // Keep claiming while there is work rather than waiting a full interval per batch;
+      // the final, empty cycle still settles the batches and runs the last jobs finished
+      while (await runWorkerCycle() > 0) {}
     } catch (error) {
       console.error('Worker error:', error);
+    } finally {
+      isTicking = false;
     }
   }, intervalMs);
 
+  // Don't keep the process alive just for the worker
+  processInterval.unref();
+
   // Handle graceful shutdown
   process.on('SIGINT', () => {
     console.log('Stopping worker...');
@@ -136,8 +255,8 @@ export const startWorker = (intervalMs: number = 30000): void => {
 };
 
 /**
- * Process a single batch immediately (for testing)
+ * Process a single worker cycle immediately (for testing)
  */
-export const processSingleBatch = async (): Promise<void> => {
-  await processBatch(`manual-${Date.now()}`);
+export const processSingleBatch = async (): Promise<number> => {
+  return runWorkerCycle();
 };
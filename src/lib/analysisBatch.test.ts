@@ -0,0 +1,254 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+
+/**
+ * Runs whole batches through the worker and the fake LLM provider against an in-memory database:
+ * batch status transitions, partial failures, retrying the failed articles, and the batch-level context cache
+ */
+
+process.env.NODE_ENV = 'test';
+process.env.LLM_PROVIDER = 'fake';
+process.env.ANALYSIS_JOB_MAX_ATTEMPTS = '1'; // A failed attempt dead-letters straight away
+delete process.env.FAKE_LLM_SCRIPT;
+
+const WORKER_ID = `${os.hostname()}-${process.pid}`;
+
+const ARTICLES = [
+  {
+    id: 'article-1',
+    title: 'Drought hits farms',
+    fullBodyText: 'The drought is the worst on record. Farmers warn of losses. '
+      + '"We have never seen the river this low before," said Jane Smith, the regional water officer.',
+    newsOutlet: 'Daily News',
+    authors: ['A. Writer']
+  },
+  {
+    id: 'article-2',
+    title: 'River levels fall',
+    fullBodyText: 'River levels fell again this week. '
+      + '"Every farm in the valley will feel this by summer," said Tom Lee, a local grower.',
+    newsOutlet: 'Evening Post',
+    authors: []
+  },
+  {
+    id: 'article-3',
+    title: 'Council plans water limits',
+    fullBodyText: 'The council will vote on water limits next month. '
+      + '"We have to protect supplies for homes and hospitals first," said Ann Cole, the council leader.',
+    newsOutlet: 'Daily News',
+    authors: []
+  }
+];
+
+const CATEGORIES = [{ name: 'Water Policy', definition: 'Water supply and use', keywords: ['drought', 'river', 'water'] }];
+
+type Row = Record<string, any>;
+
+// Tables the batch and worker read back; everything else answers from the stubs below
+let tables: { analysisJob: Row[]; analysisBatch: Row[]; quote: Row[] };
+let promptVersion: number;
+let promptLoads: number;
+
+const matches = (row: Row, where: Row = {}) => Object.entries(where).every(([key, condition]) =>
+  condition !== null && typeof condition === 'object' && 'in' in condition
+    ? condition.in.includes(row[key])
+    : row[key] === condition);
+
+const table = (name: keyof typeof tables) => ({
+  create: async ({ data }: any) => {
+    const row = { id: `${name}-${tables[name].length + 1}`, attempts: 0, createdAt: new Date(), nextAttemptAt: new Date(), ...data };
+    tables[name].push(row);
+    return row;
+  },
+  createMany: async ({ data }: any) => {
+    tables[name].push(...data);
+    return { count: data.length };
+  },
+  findUnique: async ({ where }: any) => tables[name].find(row => matches(row, where)) || null,
+  findMany: async ({ where }: any) => tables[name].filter(row => matches(row, where)),
+  update: async ({ where, data }: any) => Object.assign(tables[name].find(row => matches(row, where)) as Row, data),
+  updateMany: async ({ where, data }: any) => {
+    const rows = tables[name].filter(row => matches(row, where));
+    rows.forEach(row => Object.assign(row, data));
+    return { count: rows.length };
+  }
+});
+
+const stubs: Record<string, Record<string, (args: any) => any>> = {
+  article: {
+    findMany: ({ where }) => ARTICLES.filter(article => where.id.in.includes(article.id)),
+    findUnique: () => ({ analysedAt: null, quotes: [] }),
+    update: ({ where, data }) => ({ id: where.id, ...data })
+  },
+  appSetting: { findUnique: () => null },
+  promptTemplate: {
+    findFirst: ({ where }) => {
+      promptLoads++;
+      return { id: `${where.type}-v${promptVersion}`, version: promptVersion, content: `Prompt v${promptVersion} for ${where.type}` };
+    }
+  },
+  category: { findMany: () => CATEGORIES },
+  analysisProvenance: { findUnique: () => ({ id: 'provenance-1' }) },
+  analysisRun: { updateMany: () => ({ count: 1 }) }
+};
+
+const fakeDb: any = new Proxy({}, {
+  get: (_, model: string) => {
+    if (model === '$transaction') {
+      return async (work: (tx: any) => Promise<any>) => work(fakeDb);
+    }
+    if (model in tables) {
+      return table(model as keyof typeof tables);
+    }
+
+    return new Proxy({}, {
+      get: (__, method: string) => async (args: any) => stubs[model]?.[method]?.(args) ?? { count: 0 }
+    });
+  }
+});
+
+require.cache[require.resolve('./db')] = { exports: { __esModule: true, default: fakeDb } } as any;
+
+// Loaded after the database is replaced, so nothing below touches Prisma
+const { AnalysisBatchService } = require('./analysisBatch') as typeof import('./analysisBatch');
+const { processJobs } = require('../jobs/worker') as typeof import('../jobs/worker');
+const { FakeProvider } = require('./llmProviders/fakeProvider') as typeof import('./llmProviders/fakeProvider');
+const { clearPromptCache } = require('./gemini') as typeof import('./gemini');
+
+const service = new AnalysisBatchService();
+
+/**
+ * Claim every queued job as the worker would, and process them together
+ */
+const runWorker = async () => {
+  const claimed = tables.analysisJob.filter(job => job.status === 'queued');
+  claimed.forEach(job => Object.assign(job, { status: 'processing', leasedBy: WORKER_ID, attempts: job.attempts + 1 }));
+  await processJobs(claimed as any);
+};
+
+const batch = () => tables.analysisBatch[0];
+const quotesFor = (articleId: string) => tables.quote.filter(quote => quote.articleId === articleId).map(quote => quote.stakeholderNameGemini);
+
+beforeEach(() => {
+  tables = {
+    analysisJob: [],
+    analysisBatch: [{
+      id: 'batch-1',
+      projectId: 'project-1',
+      articleIds: ARTICLES.map(article => article.id),
+      totalArticles: ARTICLES.length,
+      processedArticles: 0,
+      status: 'pending',
+      runId: 'run-1'
+    }],
+    quote: []
+  };
+  promptVersion = 1;
+  promptLoads = 0;
+  FakeProvider.reset();
+  clearPromptCache();
+});
+
+test('a batch with one malformed and one truncated article completes with the rest, and a retry finishes it', async () => {
+  FakeProvider.script([
+    { task: 'article-analysis', articleIds: ['article-2'], fault: 'malformed' },
+    { task: 'article-analysis', articleIds: ['article-3'], fault: 'truncated' }
+  ]);
+
+  await service.startBatch('batch-1');
+  assert.equal(batch().status, 'running');
+  assert.equal(tables.analysisJob.length, 3);
+
+  // Nothing analysed yet - the batch stays running
+  await service.refreshBatch('batch-1');
+  assert.equal(batch().status, 'running');
+
+  await runWorker();
+  await service.refreshBatch('batch-1');
+
+  assert.equal(batch().status, 'completed');
+  assert.equal(batch().processedArticles, 1);
+  assert.equal(batch().error, '2 of 3 articles failed');
+  assert.deepEqual(
+    batch().results.failedArticles.map((failure: any) => [failure.articleId, failure.deadLetter]),
+    [['article-2', true], ['article-3', true]]
+  );
+  assert.match(batch().results.failedArticles[0].error, /not valid JSON/);
+  assert.deepEqual(batch().results.articleAnalysis.articles.map((analysis: any) => analysis['1_id']), ['article-1']);
+
+  // Only the analysed article's quotes are stored
+  assert.deepEqual(quotesFor('article-1'), ['Jane Smith']);
+  assert.deepEqual(quotesFor('article-2'), []);
+  assert.deepEqual(quotesFor('article-3'), []);
+  assert.deepEqual(batch().results.quoteExtraction.quotes.map((quote: any) => quote['2_stakeholderName']), ['Jane Smith']);
+
+  // Retrying requeues just the failed articles with fresh attempts
+  FakeProvider.script([]);
+  const retry = await service.retryFailed('batch-1');
+
+  assert.equal(retry.retriedArticles, 2);
+  assert.equal(batch().status, 'running');
+  assert.equal(batch().error, null);
+  assert.deepEqual(
+    tables.analysisJob.map(job => [job.articleId, job.status, job.attempts]),
+    [['article-1', 'completed', 1], ['article-2', 'queued', 0], ['article-3', 'queued', 0]]
+  );
+
+  await runWorker();
+  await service.refreshBatch('batch-1');
+
+  assert.equal(batch().status, 'completed');
+  assert.equal(batch().processedArticles, 3);
+  assert.equal(batch().error, null);
+  assert.deepEqual(batch().results.failedArticles, []);
+  assert.deepEqual(quotesFor('article-2'), ['Tom Lee']);
+  assert.deepEqual(quotesFor('article-3'), ['Ann Cole']);
+});
+
+test('a batch where no article could be analysed fails', async () => {
+  FakeProvider.script([{ fault: 'timeout' }]);
+
+  await service.startBatch('batch-1');
+  await runWorker();
+  await service.refreshBatch('batch-1');
+
+  assert.equal(batch().status, 'failed');
+  assert.equal(batch().processedArticles, 0);
+  assert.equal(batch().error, '3 of 3 articles failed');
+  assert.equal(tables.quote.length, 0);
+
+  await assert.rejects(service.startBatch('batch-1'), /not in pending status/);
+});
+
+test('retrying a batch with no failed articles is refused', async () => {
+  await service.startBatch('batch-1');
+  await runWorker();
+  await service.refreshBatch('batch-1');
+
+  assert.equal(batch().status, 'completed');
+  await assert.rejects(service.retryFailed('batch-1'), /no failed articles to retry/);
+});
+
+test('each worker cycle builds the prompt contexts once and the next cycle picks up a new prompt version', async () => {
+  // The malformed article makes the worker fall back to one article at a time: four more requests, same contexts
+  FakeProvider.script([{ task: 'article-analysis', articleIds: ['article-2'], fault: 'malformed' }]);
+
+  await service.startBatch('batch-1');
+  await runWorker();
+
+  assert.equal(promptLoads, 2); // One per prompt type
+  const contexts = new Set(FakeProvider.calls.map(call => call.context));
+  assert.equal(contexts.size, 2);
+  assert.ok([...contexts].every(context => context?.startsWith('Prompt v1')));
+
+  await service.refreshBatch('batch-1');
+  promptVersion = 2;
+  FakeProvider.reset();
+  FakeProvider.script([]);
+  await service.retryFailed('batch-1');
+  await runWorker();
+
+  assert.ok(FakeProvider.calls.length > 0);
+  assert.ok(FakeProvider.calls.every(call => call.context?.startsWith('Prompt v2')));
+});
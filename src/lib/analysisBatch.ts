@@ -1,11 +1,17 @@
+import { Prisma } from '@prisma/client';
 import db from './db';
-import { analyzeArticles } from './gemini';
-import { extractQuotes } from './gemini';
-import { GeminiContextCache } from './contextCache';
+import { addToQueue, cancelQueuedJobs, requeueJobs, AnalysisJobResult } from '../jobs/queue';
 
 export interface AnalysisBatchRequest {
   projectId: string;
   articleIds: string[];
+  includeDuplicates?: boolean; // Analyse near-duplicate copies too (skipped by default)
+  runId?: string;              // Project-wide run creating this batch
+}
+
+export interface SkippedDuplicate {
+  articleId: string;
+  canonicalArticleId: string;
 }
 
 export interface AnalysisBatchResult {
@@ -13,6 +19,8 @@ export interface AnalysisBatchResult {
   status: string;
   totalArticles: number;
   processedArticles: number;
+  skippedDuplicates?: SkippedDuplicate[];
+  retriedArticles?: number;
   results?: any;
   error?: string;
 }
@@ -44,9 +52,23 @@ export class AnalysisBatchService {
         throw new Error('Some articles not found or do not belong to project');
       }
 
+      // Near-duplicate copies share their canonical article's text, so analysing them wastes Gemini calls
+      const skippedDuplicates: SkippedDuplicate[] = request.includeDuplicates
+        ? []
+        : articles
+          .filter(article => article.canonicalArticleId)
+          .map(article => ({ articleId: article.id, canonicalArticleId: article.canonicalArticleId! }));
+
+      const skippedIds = new Set(skippedDuplicates.map(skipped => skipped.articleId));
+      const articleIds = request.articleIds.filter(id => !skippedIds.has(id));
+
+      if (articleIds.length === 0) {
+        throw new Error('All selected articles are near-duplicate copies - analyse their canonical articles or set includeDuplicates');
+      }
+
       // Limit to configurable batch size (default 3 articles max)
       const batchSize = parseInt(process.env.GEMINI_BATCH_SIZE || '3');
-      if (request.articleIds.length > batchSize) {
+      if (articleIds.length > batchSize) {
         throw new Error(`Maximum ${batchSize} articles allowed per batch`);
       }
 
@@ -54,17 +76,23 @@ export class AnalysisBatchService {
       const batch = await db.analysisBatch.create({
         data: {
           projectId: request.projectId,
-          articleIds: request.articleIds,
-          totalArticles: request.articleIds.length,
-          status: 'pending'
+          articleIds,
+          totalArticles: articleIds.length,
+          status: 'pending',
+          runId: request.runId || null
         }
       });
 
+      if (skippedDuplicates.length > 0) {
+        console.log(`⏭️ Skipped ${skippedDuplicates.length} near-duplicate articles in batch ${batch.id}`);
+      }
+
       return {
         batchId: batch.id,
         status: batch.status,
         totalArticles: batch.totalArticles,
-        processedArticles: batch.processedArticles
+        processedArticles: batch.processedArticles,
+        skippedDuplicates
       };
     } catch (error: any) {
       console.error('Create analysis batch error:', error);
@@ -73,18 +101,13 @@ export class AnalysisBatchService {
   }
 
   /**
-   * Start processing an analysis batch
+   * Start an analysis batch by queueing one job per article
+   * The worker analyses the jobs and refreshBatch settles the batch once they have all finished
    */
   async startBatch(batchId: string): Promise<AnalysisBatchResult> {
     try {
-      // Initialize batch-level context cache for optimal token usage
-      await GeminiContextCache.initializeBatchContext();
-      console.log(`🚀 Batch context initialized for batch: ${batchId}`);
-
-      // Get batch details
       const batch = await db.analysisBatch.findUnique({
-        where: { id: batchId },
-        include: { project: true }
+        where: { id: batchId }
       });
 
       if (!batch) {
@@ -95,7 +118,8 @@ export class AnalysisBatchService {
         throw new Error(`Batch is not in pending status`);
       }
 
-      // Update status to running
+      await addToQueue(batch.articleIds, batch.projectId, batchId);
+
       await db.analysisBatch.update({
         where: { id: batchId },
         data: {
@@ -104,143 +128,156 @@ export class AnalysisBatchService {
         }
       });
 
-      // Get articles for analysis
-      const articles = await db.article.findMany({
-        where: {
-          id: { in: batch.articleIds }
-        }
-      });
-
-      // Filter articles with valid fullBodyText and transform for Gemini
-      const validArticles = articles
-        .filter(article => article.fullBodyText && article.fullBodyText.trim().length > 0)
-        .map(article => ({
-          id: article.id,
-          title: article.title,
-          fullBodyText: article.fullBodyText!, // Asserting as non-null after filter
-          newsOutlet: article.newsOutlet || undefined,
-          authors: article.authors || undefined
-        }));
-
-      if (validArticles.length === 0) {
-        throw new Error('No articles with valid content found');
-      }
+      console.log(`🚀 Queued ${batch.articleIds.length} analysis jobs for batch ${batchId}`);
 
-      // Process articles (batch size configurable via GEMINI_BATCH_SIZE environment variable)
-      const results = {
-        articleAnalysis: [],
-        quoteExtraction: []
+      return {
+        batchId,
+        status: 'running',
+        totalArticles: batch.totalArticles,
+        processedArticles: 0
       };
+    } catch (error: any) {
+      console.error('Start analysis batch error:', error);
+      throw new Error(error.message || 'Failed to start analysis batch');
+    }
+  }
 
-      try {
-        // Article analysis
-        console.log(`Starting article analysis for batch ${batchId}`);
-        const articleAnalysis = await analyzeArticles(validArticles);
-        results.articleAnalysis = articleAnalysis;
-
-        // Update articles with analysis results
-        console.log(`📝 Updating ${articleAnalysis.articles?.length || 0} articles with analysis results`);
-        
-        for (const analysis of articleAnalysis.articles || []) {
-          try {
-            console.log(`🔄 Updating article ${analysis['1_id']} with analysis data`);
-            
-            const updatedArticle = await db.article.update({
-              where: { id: analysis['1_id'] },
-              data: {
-                summaryGemini: analysis['7_summary'],
-                categoryGemini: analysis['8_category'],
-                sentimentGemini: analysis['9_sentiment'].toLowerCase(),
-                translatedGemini: analysis['10_translated'],
-                analysedAt: new Date()
-              }
-            });
-            
-            console.log(`✅ Successfully updated article ${analysis['1_id']}`);
-          } catch (updateError: any) {
-            console.error(`❌ Failed to update article ${analysis['1_id']}:`, updateError.message);
-            // Continue with other articles instead of failing the entire batch
-            // This ensures partial success rather than complete failure
-          }
-        }
+  /**
+   * Update progress on every running batch, completing those whose jobs have all finished
+   */
+  async refreshRunningBatches(): Promise<void> {
+    const batches = await db.analysisBatch.findMany({
+      where: { status: 'running' },
+      select: { id: true }
+    });
+
+    for (const batch of batches) {
+      await this.refreshBatch(batch.id);
+    }
+  }
 
-        // Quote extraction
-        console.log(`Starting quote extraction for batch ${batchId}`);
-        const quoteExtraction = await extractQuotes(validArticles);
-        results.quoteExtraction = quoteExtraction;
-
-        // Store extracted quotes
-        console.log(`💬 Storing ${quoteExtraction.quotes?.length || 0} extracted quotes`);
-        
-        for (const quote of quoteExtraction.quotes || []) {
-          try {
-            console.log(`🔄 Creating quote for article ${quote['1_articleId']}`);
-            
-            await db.quote.create({
-              data: {
-                articleId: quote['1_articleId'],
-                stakeholderNameGemini: quote['2_stakeholderName'],
-                stakeholderAffiliationGemini: quote['3_stakeholderAffiliation'],
-                quoteGemini: quote['4_quote']
-              }
-            });
-            
-            console.log(`✅ Successfully created quote for article ${quote['1_articleId']}`);
-          } catch (quoteError: any) {
-            console.error(`❌ Failed to create quote for article ${quote['1_articleId']}:`, quoteError.message);
-            // Continue with other quotes instead of failing the entire batch
-          }
-        }
+  /**
+   * Recount a running batch's jobs; once none are left to process, store the collected
+   * results and mark the batch completed (or failed if no article could be analysed)
+   */
+  async refreshBatch(batchId: string): Promise<void> {
+    const batch = await db.analysisBatch.findUnique({
+      where: { id: batchId }
+    });
 
-        // Mark batch as completed
-        await db.analysisBatch.update({
-          where: { id: batchId },
-          data: {
-            status: 'completed',
-            completedAt: new Date(),
-            processedArticles: batch.totalArticles,
-            results: results
-          }
-        });
+    if (!batch || batch.status !== 'running') {
+      return;
+    }
+
+    const jobs = await db.analysisJob.findMany({
+      where: { batchId },
+      select: { articleId: true, status: true, error: true, attempts: true, result: true }
+    });
 
-        console.log(`🎉 Batch ${batchId} completed successfully!`);
-        console.log(`📊 Processed ${batch.totalArticles} articles with analysis and quotes`);
-
-        // Clear batch cache after completion
-        GeminiContextCache.clearBatchCache();
-        console.log(`🧹 Batch cache cleared for batch: ${batchId}`);
-
-        return {
-          batchId,
-          status: 'completed',
-          totalArticles: batch.totalArticles,
-          processedArticles: batch.totalArticles,
-          results
-        };
-
-      } catch (analysisError: any) {
-        console.error('Analysis processing error:', analysisError);
-        
-        // Clear batch cache on error
-        GeminiContextCache.clearBatchCache();
-        console.log(`🧹 Batch cache cleared due to error for batch: ${batchId}`);
-        
-        // Mark batch as failed
+    const completed = jobs.filter(job => job.status === 'completed');
+    const outstanding = jobs.filter(job => job.status === 'queued' || job.status === 'processing');
+
+    if (outstanding.length > 0) {
+      if (completed.length !== batch.processedArticles) {
         await db.analysisBatch.update({
           where: { id: batchId },
-          data: {
-            status: 'failed',
-            completedAt: new Date(),
-            error: analysisError.message || 'Unknown error'
-          }
+          data: { processedArticles: completed.length }
         });
+      }
+      return;
+    }
+
+    const failedArticles = jobs
+      .filter(job => job.status === 'failed' || job.status === 'dead_letter')
+      .map(job => ({
+        articleId: job.articleId,
+        error: job.error,
+        attempts: job.attempts,
+        deadLetter: job.status === 'dead_letter'
+      }));
+
+    const jobResults = completed
+      .map(job => job.result as unknown as AnalysisJobResult | null)
+      .filter((result): result is AnalysisJobResult => !!result);
+
+    const results = {
+      articleAnalysis: { articles: jobResults.map(result => result.analysis) },
+      quoteExtraction: { quotes: jobResults.flatMap(result => result.quotes) },
+      failedArticles
+    };
+
+    await db.analysisBatch.update({
+      where: { id: batchId },
+      data: {
+        status: completed.length === 0 ? 'failed' : 'completed',
+        completedAt: new Date(),
+        processedArticles: completed.length,
+        results: results as unknown as Prisma.InputJsonValue,
+        error: failedArticles.length > 0 ? `${failedArticles.length} of ${batch.totalArticles} articles failed` : null
+      }
+    });
+
+    console.log(`🎉 Batch ${batchId} finished: ${completed.length} analysed, ${failedArticles.length} failed`);
+  }
+
+  /**
+   * Re-run only the articles that failed in a finished batch
+   * The batch (and its run, if any) goes back to running until the retried jobs finish
+   */
+  async retryFailed(batchId: string): Promise<AnalysisBatchResult> {
+    try {
+      const batch = await db.analysisBatch.findUnique({
+        where: { id: batchId }
+      });
+
+      if (!batch) {
+        throw new Error('Analysis batch not found');
+      }
+
+      if (batch.status !== 'completed' && batch.status !== 'failed') {
+        throw new Error('Only completed or failed batches can be retried');
+      }
+
+      const failedJobs = await db.analysisJob.findMany({
+        where: { batchId, status: { in: ['failed', 'dead_letter'] } },
+        select: { id: true }
+      });
 
-        throw analysisError;
+      if (failedJobs.length === 0) {
+        throw new Error('Batch has no failed articles to retry');
       }
 
+      const retriedArticles = await requeueJobs(failedJobs.map(job => job.id));
+
+      await db.analysisBatch.update({
+        where: { id: batchId },
+        data: {
+          status: 'running',
+          completedAt: null,
+          error: null
+        }
+      });
+
+      // A finished run picks the batch up again and recounts once it settles
+      if (batch.runId) {
+        await db.analysisRun.updateMany({
+          where: { id: batch.runId, status: { in: ['completed', 'failed'] } },
+          data: { status: 'running', completedAt: null, error: null }
+        });
+      }
+
+      console.log(`🔁 Requeued ${retriedArticles} failed articles in batch ${batchId}`);
+
+      return {
+        batchId,
+        status: 'running',
+        totalArticles: batch.totalArticles,
+        processedArticles: batch.processedArticles,
+        retriedArticles
+      };
     } catch (error: any) {
-      console.error('Start analysis batch error:', error);
-      throw new Error(error.message || 'Failed to start analysis batch');
+      console.error('Retry failed articles error:', error);
+      throw new Error(error.message || 'Failed to retry failed articles');
     }
   }
 
@@ -320,6 +357,9 @@ export class AnalysisBatchService {
         }
       });
 
+      // Jobs already being analysed finish; the rest never start
+      await cancelQueuedJobs(batchId);
+
       return {
         batchId,
         status: 'cancelled',
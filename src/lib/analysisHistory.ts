@@ -0,0 +1,169 @@
+import { ArchivedAnalysis, Prisma } from '@prisma/client';
+import db from './db';
+import { GeminiContextCache } from './contextCache';
+
+/**
+ * The prompt versions and category set analysis would use right now
+ */
+export interface CurrentAnalysisVersions {
+  articlePromptTemplateId: string;
+  articlePromptVersion: number;
+  categorySetHash: string | null;
+  quotePromptTemplateId: string;
+  quotePromptVersion: number;
+}
+
+export interface StaleAnalysisSummary {
+  analysed: number; // Articles with analysis results
+  stale: number;    // Of those, results not produced by the current prompts and categories
+  current: number;
+  reasons: {
+    unrecorded: number;         // Analysed before provenance was recorded
+    promptChanged: number;      // Article analysis prompt version differs
+    categoriesChanged: number;  // Category set differs
+    quotePromptChanged: number; // Quote extraction prompt differs, or wasn't recorded for the article
+  };
+  currentVersions: CurrentAnalysisVersions;
+}
+
+/**
+ * Get the versions a fresh analysis would be recorded against
+ */
+export const getCurrentAnalysisVersions = async (): Promise<CurrentAnalysisVersions> => {
+  const contexts = await GeminiContextCache.loadCurrentContexts();
+
+  return {
+    articlePromptTemplateId: contexts['article-analysis'].promptTemplateId,
+    articlePromptVersion: contexts['article-analysis'].promptVersion,
+    categorySetHash: contexts['article-analysis'].categorySetHash,
+    quotePromptTemplateId: contexts['quote-analysis'].promptTemplateId,
+    quotePromptVersion: contexts['quote-analysis'].promptVersion
+  };
+};
+
+/**
+ * Prisma filters for analysed articles whose results are stale, one per reason
+ */
+const staleConditions = (current: CurrentAnalysisVersions): Record<keyof StaleAnalysisSummary['reasons'], Prisma.ArticleWhereInput> => ({
+  unrecorded: { analysisProvenanceId: null },
+  promptChanged: {
+    analysisProvenance: {
+      OR: [{ promptTemplateId: null }, { promptTemplateId: { not: current.articlePromptTemplateId } }]
+    }
+  },
+  categoriesChanged: {
+    analysisProvenance: {
+      OR: [{ categorySetHash: null }, { categorySetHash: { not: current.categorySetHash ?? '' } }]
+    }
+  },
+  quotePromptChanged: {
+    OR: [
+      { quoteProvenanceId: null },
+      { quoteProvenance: { OR: [{ promptTemplateId: null }, { promptTemplateId: { not: current.quotePromptTemplateId } }] } }
+    ]
+  }
+});
+
+/**
+ * Prisma filter for analysed articles whose results weren't produced by the current prompts and categories
+ */
+export const buildStaleArticleFilter = (current: CurrentAnalysisVersions): Prisma.ArticleWhereInput => ({
+  analysedAt: { not: null },
+  OR: Object.values(staleConditions(current))
+});
+
+/**
+ * Count a project's stale analysis results, by reason
+ * An article can be stale for more than one reason, so the reasons may add up to more than the total
+ */
+export const getStaleAnalysisSummary = async (projectId: string): Promise<StaleAnalysisSummary> => {
+  const currentVersions = await getCurrentAnalysisVersions();
+  const conditions = staleConditions(currentVersions);
+  const analysed = { projectId, analysedAt: { not: null } };
+
+  const [analysedCount, stale, unrecorded, promptChanged, categoriesChanged, quotePromptChanged] = await Promise.all([
+    db.article.count({ where: analysed }),
+    db.article.count({ where: { projectId, ...buildStaleArticleFilter(currentVersions) } }),
+    db.article.count({ where: { ...analysed, ...conditions.unrecorded } }),
+    db.article.count({ where: { ...analysed, ...conditions.promptChanged } }),
+    db.article.count({ where: { ...analysed, ...conditions.categoriesChanged } }),
+    db.article.count({ where: { ...analysed, ...conditions.quotePromptChanged } })
+  ]);
+
+  return {
+    analysed: analysedCount,
+    stale,
+    current: analysedCount - stale,
+    reasons: { unrecorded, promptChanged, categoriesChanged, quotePromptChanged },
+    currentVersions
+  };
+};
+
+/**
+ * Move an article's existing results into its analysis history before a re-analysis replaces them
+ * Only AI quotes are archived and removed - quotes added by hand stay on the article
+ * Accepted human codings are reopened; overrides keep their human values
+ * Does nothing if the article hasn't been analysed
+ * @param tx Transaction the new results are written in, so the article is read and archived in the same one
+ */
+export const archivePreviousAnalysis = async (articleId: string, tx: Prisma.TransactionClient = db): Promise<void> => {
+  const article = await tx.article.findUnique({
+    where: { id: articleId },
+    select: {
+      summaryGemini: true,
+      categoryGemini: true,
+      sentimentGemini: true,
+      translatedGemini: true,
+      analysedAt: true,
+      analysisProvenanceId: true,
+      quotes: {
+        where: { source: 'ai' },
+        select: {
+          id: true,
+          stakeholderNameGemini: true,
+          stakeholderAffiliationGemini: true,
+          quoteGemini: true,
+          analysisProvenanceId: true
+        }
+      }
+    }
+  });
+
+  if (!article?.analysedAt) {
+    return;
+  }
+
+  await tx.archivedAnalysis.create({
+    data: {
+      articleId,
+      summaryGemini: article.summaryGemini,
+      categoryGemini: article.categoryGemini,
+      sentimentGemini: article.sentimentGemini,
+      translatedGemini: article.translatedGemini,
+      analysedAt: article.analysedAt,
+      analysisProvenanceId: article.analysisProvenanceId,
+      quotes: article.quotes
+    }
+  });
+
+  await tx.quote.deleteMany({
+    where: { id: { in: article.quotes.map(quote => quote.id) } }
+  });
+
+  // Coders accepted the values being replaced, so the article goes back into their review queues
+  await tx.coding.updateMany({
+    where: { articleId, status: 'accepted' },
+    data: { status: 'unreviewed', reviewedAt: null }
+  });
+};
+
+/**
+ * An article's earlier analysis results, newest first, with the provenance of each
+ */
+export const listArchivedAnalyses = async (articleId: string): Promise<ArchivedAnalysis[]> => {
+  return db.archivedAnalysis.findMany({
+    where: { articleId },
+    include: { analysisProvenance: true },
+    orderBy: { archivedAt: 'desc' }
+  });
+};
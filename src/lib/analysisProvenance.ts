@@ -0,0 +1,97 @@
+import { AnalysisProvenance, Prisma } from '@prisma/client';
+import * as crypto from 'crypto';
+import db from './db';
+import { AnalysisProvenanceInfo } from './gemini';
+
+export interface ProjectProvenanceEntry {
+  provenance: AnalysisProvenance;
+  articles: number; // Project articles whose current analysis it produced
+  quotes: number;   // Project quotes it produced
+}
+
+/**
+ * Get the provenance record for results produced in a batch, creating it the first time
+ * Records are shared by every result produced the same way, so this is safe to call per article
+ * @returns The provenance record's ID
+ */
+export const recordProvenance = async (info: AnalysisProvenanceInfo, batchId?: string): Promise<string> => {
+  const key = crypto.createHash('sha256').update(JSON.stringify([
+    info.task,
+    info.promptTemplateId,
+    info.promptVersion,
+    info.categorySetHash,
+    info.provider,
+    info.model,
+    info.generationSettings,
+    batchId ?? null
+  ])).digest('hex');
+
+  const existing = await db.analysisProvenance.findUnique({
+    where: { key },
+    select: { id: true }
+  });
+
+  if (existing) {
+    return existing.id;
+  }
+
+  try {
+    const created = await db.analysisProvenance.create({
+      data: {
+        key,
+        task: info.task,
+        promptTemplateId: info.promptTemplateId,
+        promptVersion: info.promptVersion,
+        categorySetHash: info.categorySetHash,
+        provider: info.provider,
+        model: info.model,
+        generationSettings: info.generationSettings as unknown as Prisma.InputJsonValue,
+        batchId
+      }
+    });
+
+    return created.id;
+  } catch (error) {
+    // Another worker created the same record in the meantime
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const created = await db.analysisProvenance.findUniqueOrThrow({
+        where: { key },
+        select: { id: true }
+      });
+      return created.id;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Every way a project's current analysis results were produced, with how many articles and quotes each produced
+ * Ordered oldest first, so the list reads as the history of the project's coding
+ */
+export const getProjectProvenance = async (projectId: string): Promise<ProjectProvenanceEntry[]> => {
+  const [articleCounts, quoteCounts] = await Promise.all([
+    db.article.groupBy({
+      by: ['analysisProvenanceId'],
+      where: { projectId, analysisProvenanceId: { not: null } },
+      _count: { _all: true }
+    }),
+    db.quote.groupBy({
+      by: ['analysisProvenanceId'],
+      where: { article: { projectId }, analysisProvenanceId: { not: null } },
+      _count: { _all: true }
+    })
+  ]);
+
+  const ids = [...new Set([...articleCounts, ...quoteCounts].map(group => group.analysisProvenanceId!))];
+
+  const records = await db.analysisProvenance.findMany({
+    where: { id: { in: ids } },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  return records.map(provenance => ({
+    provenance,
+    articles: articleCounts.find(group => group.analysisProvenanceId === provenance.id)?._count._all || 0,
+    quotes: quoteCounts.find(group => group.analysisProvenanceId === provenance.id)?._count._all || 0
+  }));
+};
@@ -0,0 +1,339 @@
+import { AnalysisRun, Prisma } from '@prisma/client';
+import db from './db';
+import { AnalysisBatchService } from './analysisBatch';
+import { buildStaleArticleFilter, getCurrentAnalysisVersions } from './analysisHistory';
+
+export interface AnalysisRunFilters {
+  unanalysedOnly?: boolean;    // Only articles without Gemini analysis
+  staleOnly?: boolean;         // Only articles analysed under an older prompt or category set
+  category?: string;           // Only articles Gemini put in this category
+  importSessionId?: string;    // Only articles imported by this session
+  includeDuplicates?: boolean; // Analyse near-duplicate copies too (skipped by default)
+}
+
+export interface AnalysisRunRequest {
+  projectId: string;
+  filters: AnalysisRunFilters;
+  concurrency?: number; // Sub-batches processed at once
+}
+
+export interface AnalysisRunResult {
+  runId: string;
+  status: string;
+  filters: AnalysisRunFilters;
+  concurrency: number;
+  totalArticles: number;
+  processedArticles: number;
+  totalBatches: number;
+  completedBatches: number;
+  failedBatches: number;
+  pendingBatches: number;
+  skippedDuplicates: number;
+  progress: number; // Share of batches finished, 0-100
+  error?: string;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
+
+/**
+ * Runs analysis over a filtered selection of a project's articles
+ * The selection is split into sub-batches of GEMINI_BATCH_SIZE articles, processed one after another
+ * or a few at a time, with progress reported on the parent run
+ * The analysis worker advances runs, so a run carries on where it left off after a restart
+ */
+export class AnalysisRunService {
+  private batchService: AnalysisBatchService;
+  private batchSize: number;
+  private maxConcurrency: number;
+
+  constructor() {
+    this.batchService = new AnalysisBatchService();
+    this.batchSize = parseInt(process.env.GEMINI_BATCH_SIZE || '3');
+    this.maxConcurrency = parseInt(process.env.ANALYSIS_RUN_MAX_CONCURRENCY || '3');
+  }
+
+  /**
+   * Select the articles and create the run and its sub-batches for the worker to start
+   */
+  async startRun(request: AnalysisRunRequest): Promise<AnalysisRunResult> {
+    const { projectId, filters } = request;
+    const concurrency = Math.min(Math.max(1, request.concurrency || 1), this.maxConcurrency);
+
+    const project = await db.project.findUnique({
+      where: { id: projectId }
+    });
+
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const staleFilter = filters.staleOnly ? buildStaleArticleFilter(await getCurrentAnalysisVersions()) : undefined;
+    const where = this.buildSelection(projectId, filters, staleFilter);
+    const articles = await db.article.findMany({
+      where,
+      select: { id: true },
+      orderBy: [{ dateWritten: 'asc' }, { id: 'asc' }]
+    });
+
+    const skippedDuplicates = filters.includeDuplicates
+      ? 0
+      : await db.article.count({
+        where: { ...this.buildSelection(projectId, { ...filters, includeDuplicates: true }, staleFilter), canonicalArticleId: { not: null } }
+      });
+
+    if (articles.length === 0) {
+      throw new Error('No articles with text match the selected filters');
+    }
+
+    const articleIds = articles.map(article => article.id);
+    const chunks: string[][] = [];
+    for (let i = 0; i < articleIds.length; i += this.batchSize) {
+      chunks.push(articleIds.slice(i, i + this.batchSize));
+    }
+
+    const run = await db.analysisRun.create({
+      data: {
+        projectId,
+        filters: filters as Prisma.InputJsonValue,
+        concurrency,
+        totalArticles: articleIds.length,
+        totalBatches: chunks.length,
+        skippedDuplicates,
+        status: 'pending'
+      }
+    });
+
+    // The run stays pending until all its batches exist, so advanceRuns can't finish it part-way through
+    try {
+      for (const chunk of chunks) {
+        await this.batchService.createBatch({
+          projectId,
+          articleIds: chunk,
+          includeDuplicates: true, // Already filtered above
+          runId: run.id
+        });
+      }
+    } catch (error: any) {
+      await db.analysisBatch.updateMany({
+        where: { runId: run.id, status: 'pending' },
+        data: { status: 'cancelled', completedAt: new Date() }
+      });
+      await db.analysisRun.update({
+        where: { id: run.id },
+        data: { status: 'failed', completedAt: new Date(), error: `Failed to create batches: ${error.message}` }
+      });
+      throw error;
+    }
+
+    // Only a run still pending starts - it may have been cancelled in the meantime
+    await db.analysisRun.updateMany({
+      where: { id: run.id, status: 'pending' },
+      data: { status: 'running', startedAt: new Date() }
+    });
+
+    console.log(`🏃 Analysis run ${run.id}: ${articleIds.length} articles in ${chunks.length} batches (concurrency ${concurrency})`);
+
+    return this.getRunStatus(run.id);
+  }
+
+  /**
+   * Move every running run along: record progress, start pending sub-batches up to the run's
+   * concurrency, and finish runs with nothing left to process
+   */
+  async advanceRuns(): Promise<void> {
+    const runs = await db.analysisRun.findMany({
+      where: { status: 'running' }
+    });
+
+    for (const run of runs) {
+      try {
+        await this.advanceRun(run);
+      } catch (error: any) {
+        console.error(`Analysis run ${run.id} failed to advance:`, error.message);
+      }
+    }
+  }
+
+  /**
+   * Get a run's aggregate progress
+   */
+  async getRunStatus(runId: string): Promise<AnalysisRunResult> {
+    const run = await db.analysisRun.findUnique({
+      where: { id: runId }
+    });
+
+    if (!run) {
+      throw new Error('Analysis run not found');
+    }
+
+    const pendingBatches = await db.analysisBatch.count({
+      where: { runId, status: { in: ['pending', 'running'] } }
+    });
+
+    return this.formatRun(run, pendingBatches);
+  }
+
+  /**
+   * Get all runs for a project
+   */
+  async getProjectRuns(projectId: string): Promise<AnalysisRunResult[]> {
+    const runs = await db.analysisRun.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return runs.map(run => this.formatRun(run, run.totalBatches - run.completedBatches - run.failedBatches));
+  }
+
+  /**
+   * Cancel a run - articles already being analysed finish, the rest are cancelled
+   */
+  async cancelRun(runId: string): Promise<AnalysisRunResult> {
+    const run = await db.analysisRun.findUnique({
+      where: { id: runId }
+    });
+
+    if (!run) {
+      throw new Error('Analysis run not found');
+    }
+
+    if (!['pending', 'running'].includes(run.status)) {
+      throw new Error(`Cannot cancel a ${run.status} run`);
+    }
+
+    await db.analysisRun.update({
+      where: { id: runId },
+      data: { status: 'cancelled', completedAt: new Date() }
+    });
+
+    await db.analysisBatch.updateMany({
+      where: { runId, status: 'pending' },
+      data: { status: 'cancelled', completedAt: new Date() }
+    });
+
+    const running = await db.analysisBatch.findMany({
+      where: { runId, status: 'running' },
+      select: { id: true }
+    });
+    for (const batch of running) {
+      await this.batchService.cancelBatch(batch.id);
+    }
+
+    return this.getRunStatus(runId);
+  }
+
+  /**
+   * Prisma filter for the articles a run analyses - only articles with text can be analysed
+   * @param staleFilter Filter for stale articles, required when filters.staleOnly is set
+   */
+  private buildSelection(projectId: string, filters: AnalysisRunFilters, staleFilter?: Prisma.ArticleWhereInput): Prisma.ArticleWhereInput {
+    return {
+      projectId,
+      fullBodyText: { not: '' },
+      ...(staleFilter && { AND: [staleFilter] }),
+      ...(filters.unanalysedOnly && { analysedAt: null }),
+      ...(filters.category && { categoryGemini: filters.category }),
+      ...(filters.importSessionId && { importSessionId: filters.importSessionId }),
+      ...(!filters.includeDuplicates && { canonicalArticleId: null })
+    };
+  }
+
+  /**
+   * Recount the run's finished batches and processed articles
+   */
+  private async updateProgress(runId: string) {
+    const batches = await db.analysisBatch.groupBy({
+      by: ['status'],
+      where: { runId },
+      _count: { _all: true },
+      _sum: { processedArticles: true }
+    });
+
+    const completed = batches.find(group => group.status === 'completed');
+    const failed = batches.find(group => group.status === 'failed');
+
+    const progress = {
+      completedBatches: completed?._count._all || 0,
+      failedBatches: failed?._count._all || 0,
+      processedArticles: completed?._sum.processedArticles || 0
+    };
+
+    await db.analysisRun.update({
+      where: { id: runId },
+      data: progress
+    });
+
+    return progress;
+  }
+
+  /**
+   * Start the run's next sub-batches, or finish the run once all of them have
+   */
+  private async advanceRun(run: AnalysisRun): Promise<void> {
+    const progress = await this.updateProgress(run.id);
+
+    const running = await db.analysisBatch.count({
+      where: { runId: run.id, status: 'running' }
+    });
+
+    const pending = await db.analysisBatch.findMany({
+      where: { runId: run.id, status: 'pending' },
+      orderBy: { createdAt: 'asc' },
+      take: Math.max(0, run.concurrency - running),
+      select: { id: true }
+    });
+
+    for (const batch of pending) {
+      try {
+        await this.batchService.startBatch(batch.id);
+      } catch (error: any) {
+        console.error(`Analysis run ${run.id}: batch ${batch.id} failed to start:`, error.message);
+        await db.analysisBatch.updateMany({
+          where: { id: batch.id, status: 'pending' },
+          data: { status: 'failed', completedAt: new Date(), error: error.message }
+        });
+      }
+    }
+
+    if (running > 0 || pending.length > 0) {
+      return;
+    }
+
+    const allFailed = progress.completedBatches === 0 && progress.failedBatches > 0;
+
+    await db.analysisRun.update({
+      where: { id: run.id },
+      data: {
+        status: allFailed ? 'failed' : 'completed',
+        completedAt: new Date(),
+        error: progress.failedBatches > 0 ? `${progress.failedBatches} of ${run.totalBatches} batches failed` : null
+      }
+    });
+
+    console.log(`🎉 Analysis run ${run.id} finished: ${progress.completedBatches} batches completed, ${progress.failedBatches} failed`);
+  }
+
+  private formatRun(run: AnalysisRun, pendingBatches: number): AnalysisRunResult {
+    const finished = run.completedBatches + run.failedBatches;
+
+    return {
+      runId: run.id,
+      status: run.status,
+      filters: run.filters as AnalysisRunFilters,
+      concurrency: run.concurrency,
+      totalArticles: run.totalArticles,
+      processedArticles: run.processedArticles,
+      totalBatches: run.totalBatches,
+      completedBatches: run.completedBatches,
+      failedBatches: run.failedBatches,
+      pendingBatches,
+      skippedDuplicates: run.skippedDuplicates,
+      progress: run.totalBatches > 0 ? Math.round((finished / run.totalBatches) * 100) : 0,
+      error: run.error || undefined,
+      createdAt: run.createdAt,
+      startedAt: run.startedAt,
+      completedAt: run.completedAt
+    };
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Schemas for the JSON the analysis prompts ask the model for
+ * Model output is untrusted: every field is checked before anything reaches the database,
+ * and errors are collected per article so they can be sent back in a repair prompt
+ */
+
+export const SENTIMENTS = ['positive', 'neutral', 'negative'] as const;
+
+export type SentimentValue = typeof SENTIMENTS[number];
+
+/** One article's entry in an article-analysis response, after validation */
+export interface ArticleAnalysisResult {
+  '1_id': string;
+  '7_summary': string;
+  '8_category': string;   // Always the name of an active Category
+  '9_sentiment': SentimentValue;
+  '10_translated': boolean;
+}
+
+/** One quote in a quote-analysis response, after validation */
+export interface QuoteResult {
+  '1_articleId': string;
+  '2_stakeholderName': string;
+  '3_stakeholderAffiliation': string | null;
+  '4_quote': string;
+}
+
+export interface ValidatedOutput<T> {
+  items: T[];
+  errors: Record<string, string[]>; // Article ID -> problems with that article's output
+  ignored: string[];                // Problems with output for articles that weren't requested
+}
+
+/**
+ * Parse model output as JSON, removing markdown fences and fixing the slips models commonly make
+ * @throws SyntaxError if the text still isn't JSON
+ */
+export const parseModelJson = (text: string): any => {
+  let jsonText = text;
+
+  // Remove markdown code blocks if present
+  if (jsonText.includes('```json')) {
+    const jsonMatch = jsonText.match(/```json\s*([\s\S]*?)\s*```/);
+    if (jsonMatch) {
+      jsonText = jsonMatch[1];
+    }
+  } else if (jsonText.includes('```')) {
+    const jsonMatch = jsonText.match(/```\s*([\s\S]*?)\s*```/);
+    if (jsonMatch) {
+      jsonText = jsonMatch[1];
+    }
+  }
+
+  // Additional cleanup for any remaining markdown artifacts
+  jsonText = jsonText.replace(/^```json\s*/gm, '').replace(/\s*```$/gm, '').trim();
+
+  try {
+    return JSON.parse(jsonText);
+  } catch (parseError) {
+    // Escape stray quotes and control characters in quote fields, then fix
+    // trailing commas and missing commas between objects
+    const fixedJson = jsonText
+      .replace(/"4_quote":\s*"([^"]*(?:"[^"]*)*[^"]*?)"/g, (_match: string, quoteContent: string) => {
+        const escapedQuote = quoteContent
+          .replace(/\\/g, '\\\\')
+          .replace(/"/g, '\\"')
+          .replace(/\n/g, '\\n')
+          .replace(/\r/g, '\\r')
+          .replace(/\t/g, '\\t');
+        return `"4_quote": "${escapedQuote}"`;
+      })
+      .replace(/,(\s*[}\]])/g, '$1')
+      .replace(/}\s*{/g, '},{');
+
+    try {
+      return JSON.parse(fixedJson);
+    } catch {
+      throw parseError;
+    }
+  }
+};
+
+/**
+ * Match a category the model returned onto an active category name
+ * Case, punctuation and "and"/"&" differences are ignored
+ * @returns The active category name, or null if nothing matches
+ */
+export const matchCategory = (value: string, categoryNames: string[]): string | null => {
+  const normalise = (name: string) => name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+  const exact = categoryNames.find(name => name === value);
+  if (exact) {
+    return exact;
+  }
+
+  const target = normalise(value);
+  return categoryNames.find(name => normalise(name) === target) || null;
+};
+
+/**
+ * Check an article-analysis response against the requested articles and active categories
+ */
+export const validateArticleAnalysis = (
+  output: any,
+  articleIds: string[],
+  categoryNames: string[]
+): ValidatedOutput<ArticleAnalysisResult> => {
+  const result: ValidatedOutput<ArticleAnalysisResult> = { items: [], errors: {}, ignored: [] };
+  const addError = (articleId: string, error: string) => {
+    result.errors[articleId] = [...(result.errors[articleId] || []), error];
+  };
+
+  if (!output || !Array.isArray(output.articles)) {
+    articleIds.forEach(id => addError(id, 'Response must be an object with an "articles" array'));
+    return result;
+  }
+
+  const seen = new Set<string>();
+
+  output.articles.forEach((entry: any, index: number) => {
+    const id = entry?.['1_id'];
+
+    if (typeof id !== 'string' || !articleIds.includes(id)) {
+      result.ignored.push(`articles[${index}]: "1_id" ${JSON.stringify(id)} is not one of the requested article IDs`);
+      return;
+    }
+
+    if (seen.has(id)) {
+      result.ignored.push(`articles[${index}]: article ${id} appears more than once`);
+      return;
+    }
+    seen.add(id);
+
+    const errorCount = result.errors[id]?.length || 0;
+
+    const summary = entry['7_summary'];
+    if (typeof summary !== 'string' || summary.trim().length === 0) {
+      addError(id, '"7_summary" must be a non-empty string');
+    }
+
+    const category = typeof entry['8_category'] === 'string' ? matchCategory(entry['8_category'], categoryNames) : null;
+    if (!category) {
+      addError(id, `"8_category" ${JSON.stringify(entry['8_category'])} is not one of: ${categoryNames.join(', ')}`);
+    }
+
+    const sentiment = typeof entry['9_sentiment'] === 'string' ? entry['9_sentiment'].trim().toLowerCase() : null;
+    if (!sentiment || !SENTIMENTS.includes(sentiment as SentimentValue)) {
+      addError(id, `"9_sentiment" ${JSON.stringify(entry['9_sentiment'])} must be one of: ${SENTIMENTS.join(', ')}`);
+    }
+
+    const translated = entry['10_translated'] === 'true' ? true : entry['10_translated'] === 'false' ? false : entry['10_translated'];
+    if (typeof translated !== 'boolean') {
+      addError(id, '"10_translated" must be true or false');
+    }
+
+    if ((result.errors[id]?.length || 0) === errorCount) {
+      result.items.push({
+        '1_id': id,
+        '7_summary': summary.trim(),
+        '8_category': category!,
+        '9_sentiment': sentiment as SentimentValue,
+        '10_translated': translated
+      });
+    }
+  });
+
+  articleIds
+    .filter(id => !seen.has(id))
+    .forEach(id => addError(id, 'No analysis was returned for this article'));
+
+  return result;
+};
+
+/**
+ * Check a quote-analysis response against the requested articles
+ * Articles may have no quotes, so a missing article is not an error
+ */
+export const validateQuoteExtraction = (output: any, articleIds: string[]): ValidatedOutput<QuoteResult> => {
+  const result: ValidatedOutput<QuoteResult> = { items: [], errors: {}, ignored: [] };
+  const addError = (articleId: string, error: string) => {
+    result.errors[articleId] = [...(result.errors[articleId] || []), error];
+  };
+
+  if (!output || !Array.isArray(output.quotes)) {
+    articleIds.forEach(id => addError(id, 'Response must be an object with a "quotes" array'));
+    return result;
+  }
+
+  output.quotes.forEach((entry: any, index: number) => {
+    const articleId = entry?.['1_articleId'];
+
+    if (typeof articleId !== 'string' || !articleIds.includes(articleId)) {
+      result.ignored.push(`quotes[${index}]: "1_articleId" ${JSON.stringify(articleId)} is not one of the requested article IDs`);
+      return;
+    }
+
+    const errorCount = result.errors[articleId]?.length || 0;
+    const name = entry['2_stakeholderName'];
+    const affiliation = entry['3_stakeholderAffiliation'];
+    const quote = entry['4_quote'];
+
+    if (typeof quote !== 'string' || quote.trim().length === 0) {
+      addError(articleId, `quotes[${index}]: "4_quote" must be a non-empty string`);
+    }
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      addError(articleId, `quotes[${index}]: "2_stakeholderName" must be a non-empty string`);
+    }
+    if (affiliation !== null && affiliation !== undefined && typeof affiliation !== 'string') {
+      addError(articleId, `quotes[${index}]: "3_stakeholderAffiliation" must be a string or null`);
+    }
+
+    if ((result.errors[articleId]?.length || 0) === errorCount) {
+      result.items.push({
+        '1_articleId': articleId,
+        '2_stakeholderName': name.trim(),
+        '3_stakeholderAffiliation': typeof affiliation === 'string' && affiliation.trim() ? affiliation.trim() : null,
+        '4_quote': quote.trim()
+      });
+    }
+  });
+
+  return result;
+};
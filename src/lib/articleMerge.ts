@@ -0,0 +1,364 @@
+import { Article, Coding, Prisma } from '@prisma/client';
+import db from './db';
+
+// Fields the caller can resolve when the merged articles disagree
+export const MERGEABLE_FIELDS = [
+  'title',
+  'newsOutlet',
+  'url',
+  'fullBodyText',
+  'dateWritten',
+  'summaryGemini',
+  'categoryGemini',
+  'sentimentGemini',
+  'translatedGemini',
+  'imageUrl',
+  'sourceUri'
+] as const;
+
+export type MergeableField = typeof MERGEABLE_FIELDS[number];
+
+// Analysis results, which only describe an article together with its provenance and analysedAt,
+// so they all come from one article
+export const ANALYSIS_FIELDS: readonly MergeableField[] = ['summaryGemini', 'categoryGemini', 'sentimentGemini', 'translatedGemini'];
+
+export interface ArticleMergeRequest {
+  survivorId: string;
+  loserIds: string[];
+  fields?: Partial<Record<MergeableField, string>>; // Field -> ID of the article whose value wins
+}
+
+export interface FieldConflict {
+  field: MergeableField;
+  values: { articleId: string; value: any }[];
+}
+
+export interface ArticleMergeResult {
+  survivorId: string;
+  mergedArticleIds: string[];
+  quotesMoved: number;
+  authors: string[];
+  fieldsApplied: Partial<Record<MergeableField, string>>;
+  analysisSourceId: string; // Article whose analysis results, provenance and analysedAt the survivor keeps
+}
+
+/**
+ * Merges duplicate articles into one survivor
+ * Quotes move to the survivor, authors are unioned and the merged-away articles are deleted,
+ * leaving an ArticleMerge record so their old IDs still resolve to the survivor
+ * Analysis results are kept whole from a single article, never mixed field by field
+ */
+export class ArticleMergeService {
+  /**
+   * Fields where the articles hold different non-empty values and no winner has been picked
+   */
+  findConflicts(articles: Article[], fields: ArticleMergeRequest['fields'] = {}): FieldConflict[] {
+    const conflicts: FieldConflict[] = [];
+    const analysisChosen = ANALYSIS_FIELDS.some(field => fields[field]);
+
+    for (const field of MERGEABLE_FIELDS) {
+      if (fields[field]) continue;
+
+      // Picking any analysis field picks the whole analysis
+      if (analysisChosen && ANALYSIS_FIELDS.includes(field)) continue;
+
+      const values = articles
+        .filter(article => !this.isEmpty(article[field]))
+        .map(article => ({ articleId: article.id, value: article[field] }));
+
+      const distinct = new Set(values.map(entry => this.compareKey(entry.value)));
+      if (distinct.size > 1) {
+        conflicts.push({ field, values });
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Gold sets holding more than one of the articles, whose human coding can't be combined by a merge
+   * @returns The gold set names
+   */
+  async findGoldSetConflicts(articleIds: string[], tx: Prisma.TransactionClient = db): Promise<string[]> {
+    const groups = await tx.goldArticle.groupBy({
+      by: ['goldSetId'],
+      where: { articleId: { in: articleIds } },
+      _count: { _all: true }
+    });
+
+    const conflicting = groups.filter(group => group._count._all > 1).map(group => group.goldSetId);
+    if (conflicting.length === 0) {
+      return [];
+    }
+
+    const goldSets = await tx.goldSet.findMany({
+      where: { id: { in: conflicting } },
+      select: { name: true }
+    });
+
+    return goldSets.map(goldSet => goldSet.name);
+  }
+
+  /**
+   * Coders who reviewed more than one of the articles, whose reviews can't be combined by a merge
+   * Unreviewed codings are only claims from the reviewer queue, so they never conflict
+   */
+  async findCodingConflicts(articleIds: string[], tx: Prisma.TransactionClient = db): Promise<string[]> {
+    const groups = await tx.coding.groupBy({
+      by: ['coder'],
+      where: { articleId: { in: articleIds }, status: { in: ['accepted', 'overridden'] } },
+      _count: { _all: true }
+    });
+
+    return groups.filter(group => group._count._all > 1).map(group => group.coder);
+  }
+
+  /**
+   * Merge the losers into the survivor
+   * Unresolved conflicts keep the survivor's value; empty survivor fields take the losers' value.
+   * Analysis results come from the article named for them in fields, else the survivor if it was
+   * analysed, else the first analysed loser
+   * @throws Error if fields name different articles for different analysis fields, a gold set holds more than one
+   * of the articles or a coder reviewed more than one of them
+   */
+  async merge(request: ArticleMergeRequest): Promise<ArticleMergeResult> {
+    const { survivorId, loserIds, fields = {} } = request;
+
+    const articles = await db.article.findMany({
+      where: { id: { in: [survivorId, ...loserIds] } }
+    });
+
+    const survivor = articles.find(article => article.id === survivorId);
+    if (!survivor) {
+      throw new Error('Survivor article not found');
+    }
+
+    const losers = loserIds.map(id => articles.find(article => article.id === id)!);
+    const fieldsApplied: Partial<Record<MergeableField, string>> = {};
+    const data: Partial<Pick<Article, MergeableField>> = {};
+
+    const analysisSource = articles.find(article => article.id === this.analysisSourceId(survivor, losers, fields))!;
+    if (analysisSource.id !== survivorId) {
+      for (const field of ANALYSIS_FIELDS) {
+        this.copyField(data, analysisSource, field);
+        fieldsApplied[field] = analysisSource.id;
+      }
+    }
+
+    for (const field of MERGEABLE_FIELDS) {
+      if (ANALYSIS_FIELDS.includes(field)) continue;
+
+      const sourceId = fields[field]
+        || (this.isEmpty(survivor[field]) ? losers.find(loser => !this.isEmpty(loser[field]))?.id : undefined);
+
+      if (sourceId && sourceId !== survivorId) {
+        const source = articles.find(article => article.id === sourceId)!;
+        this.copyField(data, source, field);
+        fieldsApplied[field] = sourceId;
+      }
+    }
+
+    // Union authors, ignoring case and surrounding whitespace
+    const authors: string[] = [];
+    const seenAuthors = new Set<string>();
+    for (const author of [survivor, ...losers].flatMap(article => article.authors)) {
+      const key = author.trim().toLowerCase();
+      if (key && !seenAuthors.has(key)) {
+        seenAuthors.add(key);
+        authors.push(author.trim());
+      }
+    }
+
+    const quotesMoved = await db.$transaction(async (tx) => {
+      const goldSetConflicts = await this.findGoldSetConflicts([survivorId, ...loserIds], tx);
+      if (goldSetConflicts.length > 0) {
+        throw new Error(`Articles are coded separately in gold sets: ${goldSetConflicts.join(', ')}`);
+      }
+
+      // Human gold coding follows the article
+      await tx.goldArticle.updateMany({
+        where: { articleId: { in: loserIds } },
+        data: { articleId: survivorId }
+      });
+
+      await this.moveCodings(tx, survivorId, loserIds, analysisSource.id);
+
+      const quotes = await tx.quote.updateMany({
+        where: { articleId: { in: loserIds } },
+        data: { articleId: survivorId }
+      });
+
+      // Earlier merges into a loser now resolve to the survivor
+      await tx.articleMerge.updateMany({
+        where: { survivorId: { in: loserIds } },
+        data: { survivorId }
+      });
+
+      for (const loser of losers) {
+        const { id, ...snapshot } = loser;
+        await tx.articleMerge.create({
+          data: {
+            mergedArticleId: id,
+            survivorId,
+            projectId: loser.projectId,
+            title: loser.title,
+            snapshot: JSON.parse(JSON.stringify(snapshot)),
+            fieldsApplied: Object.keys(fieldsApplied).length > 0 ? fieldsApplied : Prisma.JsonNull
+          }
+        });
+      }
+
+      // Near-duplicate copies of a loser join the survivor's cluster
+      await tx.article.updateMany({
+        where: { canonicalArticleId: { in: loserIds }, id: { not: survivorId } },
+        data: { canonicalArticleId: survivorId }
+      });
+
+      // The losers' analysis history stays with the article they now live on
+      await tx.archivedAnalysis.updateMany({
+        where: { articleId: { in: loserIds } },
+        data: { articleId: survivorId }
+      });
+
+      // A survivor whose analysis is replaced by a loser's keeps its own in the history; its quotes stay on the article
+      if (analysisSource.id !== survivorId && survivor.analysedAt) {
+        await tx.archivedAnalysis.create({
+          data: {
+            articleId: survivorId,
+            summaryGemini: survivor.summaryGemini,
+            categoryGemini: survivor.categoryGemini,
+            sentimentGemini: survivor.sentimentGemini,
+            translatedGemini: survivor.translatedGemini,
+            analysedAt: survivor.analysedAt,
+            analysisProvenanceId: survivor.analysisProvenanceId,
+            quotes: []
+          }
+        });
+      }
+
+      await tx.importSessionItem.updateMany({
+        where: { articleId: { in: loserIds } },
+        data: { articleId: survivorId }
+      });
+
+      await tx.analysisJob.deleteMany({
+        where: { articleId: { in: loserIds }, status: 'queued' }
+      });
+
+      await tx.article.deleteMany({
+        where: { id: { in: loserIds } }
+      });
+
+      await tx.article.update({
+        where: { id: survivorId },
+        data: {
+          ...data,
+          authors,
+          analysedAt: analysisSource.analysedAt,
+          analysisProvenanceId: analysisSource.analysisProvenanceId,
+          quoteProvenanceId: analysisSource.quoteProvenanceId,
+          // A survivor that was a copy of one of the losers now represents the cluster itself
+          ...(survivor.canonicalArticleId && loserIds.includes(survivor.canonicalArticleId) && {
+            canonicalArticleId: null,
+            duplicateSimilarity: null
+          }),
+          editedAt: new Date()
+        }
+      });
+
+      return quotes.count;
+    });
+
+    console.log(`🔀 Merged ${loserIds.length} articles into ${survivorId} (${quotesMoved} quotes moved)`);
+
+    return {
+      survivorId,
+      mergedArticleIds: loserIds,
+      quotesMoved,
+      authors,
+      fieldsApplied,
+      analysisSourceId: analysisSource.id
+    };
+  }
+
+  /**
+   * The article a merged-away ID now lives on, if it was merged
+   */
+  async resolveMergedId(articleId: string): Promise<string | null> {
+    const merge = await db.articleMerge.findUnique({
+      where: { mergedArticleId: articleId },
+      select: { survivorId: true }
+    });
+
+    return merge?.survivorId || null;
+  }
+
+  /**
+   * The article whose analysis results the survivor keeps
+   */
+  private analysisSourceId(survivor: Article, losers: Article[], fields: ArticleMergeRequest['fields'] = {}): string {
+    const chosen = [...new Set(ANALYSIS_FIELDS.map(field => fields[field]).filter((id): id is string => !!id))];
+
+    if (chosen.length > 1) {
+      throw new Error(`Analysis fields must all come from the same article (${ANALYSIS_FIELDS.join(', ')})`);
+    }
+
+    return chosen[0]
+      || (survivor.analysedAt ? survivor.id : losers.find(loser => loser.analysedAt)?.id)
+      || survivor.id;
+  }
+
+  /**
+   * Move the losers' codings to the survivor, keeping one per coder
+   * Accepted codings of an analysis the survivor doesn't keep go back to review
+   */
+  private async moveCodings(tx: Prisma.TransactionClient, survivorId: string, loserIds: string[], analysisSourceId: string): Promise<void> {
+    const codingConflicts = await this.findCodingConflicts([survivorId, ...loserIds], tx);
+    if (codingConflicts.length > 0) {
+      throw new Error(`Articles were reviewed separately by: ${codingConflicts.join(', ')}`);
+    }
+
+    const codings = await tx.coding.findMany({
+      where: { articleId: { in: [survivorId, ...loserIds] } }
+    });
+
+    // Per coder, a reviewed coding wins over claims, then the survivor's claim over a loser's
+    const kept = new Map<string, Coding>();
+    for (const coding of codings) {
+      const current = kept.get(coding.coder);
+      if (!current || (current.status === 'unreviewed' && (coding.status !== 'unreviewed' || coding.articleId === survivorId))) {
+        kept.set(coding.coder, coding);
+      }
+    }
+
+    const keptCodings = [...kept.values()];
+    const keptIds = keptCodings.map(coding => coding.id);
+
+    await tx.coding.deleteMany({
+      where: { id: { in: codings.filter(coding => !keptIds.includes(coding.id)).map(coding => coding.id) } }
+    });
+
+    await tx.coding.updateMany({
+      where: { id: { in: keptCodings.filter(coding => coding.status === 'accepted' && coding.articleId !== analysisSourceId).map(coding => coding.id) } },
+      data: { status: 'unreviewed', reviewedAt: null }
+    });
+
+    await tx.coding.updateMany({
+      where: { id: { in: keptIds }, articleId: { in: loserIds } },
+      data: { articleId: survivorId }
+    });
+  }
+
+  private copyField<K extends MergeableField>(data: Partial<Pick<Article, MergeableField>>, source: Article, field: K): void {
+    data[field] = source[field];
+  }
+
+  private isEmpty(value: any): boolean {
+    return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+  }
+
+  private compareKey(value: any): string {
+    if (value instanceof Date) return value.toISOString();
+    return typeof value === 'string' ? value.trim() : JSON.stringify(value);
+  }
+}
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseBooleanQuery, validateBooleanQuery } from './booleanQuery';
+
+const body = (keyword: string) => ({ keyword, keywordLoc: 'body' });
+
+test('valid queries compile to NewsAPI.ai conditions', () => {
+  const cases: [string, any][] = [
+    ['climate', body('climate')],
+    ['carbon tax AND policy', { $and: [body('carbon tax'), body('policy')] }],
+    ['(climate OR weather) AND policy', { $and: [{ $or: [body('climate'), body('weather')] }, body('policy')] }],
+    ['"carbon tax" OR levy', { $or: [body('carbon tax'), body('levy')] }],
+    ['climate OR weather AND policy', { $or: [body('climate'), { $and: [body('weather'), body('policy')] }] }]
+  ];
+
+  for (const [query, expected] of cases) {
+    assert.deepEqual(parseBooleanQuery(query), expected, query);
+  }
+});
+
+test('nested $or and $and groups are flattened', () => {
+  assert.deepEqual(parseBooleanQuery('a OR (b OR c)'), { $or: [body('a'), body('b'), body('c')] });
+  assert.deepEqual(parseBooleanQuery('a AND (b AND c)'), { $and: [body('a'), body('b'), body('c')] });
+});
+
+test('title: and body: prefixes set the location of a term or group', () => {
+  assert.deepEqual(parseBooleanQuery('title:"carbon tax" AND body:(farm OR farming)', 'title,body'), {
+    $and: [
+      { keyword: 'carbon tax', keywordLoc: 'title' },
+      { $or: [body('farm'), body('farming')] }
+    ]
+  });
+
+  assert.deepEqual(parseBooleanQuery('drought', 'title,body'), { keyword: 'drought', keywordLoc: 'title,body' });
+  assert.deepEqual(parseBooleanQuery('title:(body:farm OR crops)'), {
+    $or: [body('farm'), { keyword: 'crops', keywordLoc: 'title' }]
+  });
+});
+
+test('NOT becomes a $not on the query it is joined to', () => {
+  assert.deepEqual(parseBooleanQuery('climate AND NOT weather'), { ...body('climate'), $not: body('weather') });
+  assert.deepEqual(parseBooleanQuery('climate AND NOT a AND NOT b'), { ...body('climate'), $not: { $or: [body('a'), body('b')] } });
+  assert.deepEqual(parseBooleanQuery('climate AND NOT (a OR b)'), { ...body('climate'), $not: { $or: [body('a'), body('b')] } });
+});
+
+test('a query that already has a $not is wrapped before another is added', () => {
+  assert.deepEqual(parseBooleanQuery('(climate AND NOT weather) AND NOT policy'), {
+    $and: [{ ...body('climate'), $not: body('weather') }],
+    $not: body('policy')
+  });
+});
+
+test('invalid queries report the problem and its 1-based position', () => {
+  const cases: [string, string, number][] = [
+    ['', 'Query is empty', 1],
+    ['climate OR NOT weather', 'NOT cannot be used inside OR - combine it with AND instead', 12],
+    ['NOT weather', 'NOT needs at least one other term joined with AND', 1],
+    ['"carbon tax', 'Unterminated quoted phrase', 1],
+    ['climate AND ""', 'Empty quoted phrase', 13],
+    ['(climate OR weather', "Missing ')' to close '(' at position 1", 20],
+    ['climate AND', 'Query ends unexpectedly - expected a search term', 12],
+    ['climate )', "Unexpected ')' with no matching '('", 9],
+    ['climate "weather"', 'Missing AND/OR before "weather"', 9],
+    ['policy AND ()', 'Empty parentheses', 12],
+    ['climate AND OR weather', 'Expected a search term before OR', 13]
+  ];
+
+  for (const [query, message, position] of cases) {
+    assert.deepEqual(validateBooleanQuery(query), { isValid: false, errors: [{ message, position }] }, query);
+  }
+
+  assert.deepEqual(validateBooleanQuery('climate AND NOT weather'), { isValid: true, errors: [] });
+});
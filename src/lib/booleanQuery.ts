@@ -0,0 +1,363 @@
+/**
+ * Boolean search language for NewsAPI.ai keyword queries
+ *
+ * Supported syntax:
+ * - Operators AND, OR, NOT (uppercase; lowercase words are search terms)
+ * - Parentheses for grouping: (climate OR weather) AND policy
+ * - Quoted phrases: "carbon tax"
+ * - Consecutive bare words form one phrase: carbon tax AND policy
+ * - Location prefixes on a term or group: title:"carbon tax", body:(farm OR farming)
+ *
+ * AND binds tighter than OR. NOT excludes its operand and must be joined to at least
+ * one other term with AND, because NewsAPI.ai only supports exclusions alongside a query.
+ */
+
+export type KeywordLocation = 'body' | 'title' | 'title,body';
+
+export interface BooleanQueryError {
+  message: string;
+  position: number; // 1-based character position in the query string
+}
+
+export interface BooleanQueryValidation {
+  isValid: boolean;
+  errors: BooleanQueryError[];
+}
+
+/**
+ * Raised for a query that can't be tokenised, parsed or translated
+ */
+export class BooleanQuerySyntaxError extends Error {
+  public detail: string;
+  public position: number;
+
+  constructor(detail: string, position: number) {
+    super(`${detail} (at position ${position})`);
+    this.name = 'BooleanQuerySyntaxError';
+    this.detail = detail;
+    this.position = position;
+  }
+}
+
+type TokenType = 'lparen' | 'rparen' | 'and' | 'or' | 'not' | 'phrase' | 'word' | 'field';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+type QueryNode =
+  | { type: 'term'; value: string; location?: KeywordLocation; position: number }
+  | { type: 'and' | 'or'; children: QueryNode[]; position: number }
+  | { type: 'not'; operand: QueryNode; position: number };
+
+const OPERATORS: Record<string, TokenType> = {
+  AND: 'and',
+  OR: 'or',
+  NOT: 'not'
+};
+
+const FIELD_LOCATIONS: Record<string, KeywordLocation> = {
+  title: 'title',
+  body: 'body'
+};
+
+/**
+ * Split a query string into tokens
+ */
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', value: char, position: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      const end = query.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new BooleanQuerySyntaxError('Unterminated quoted phrase', i + 1);
+      }
+
+      const phrase = query.substring(i + 1, end).trim();
+      if (phrase.length === 0) {
+        throw new BooleanQuerySyntaxError('Empty quoted phrase', i + 1);
+      }
+
+      tokens.push({ type: 'phrase', value: phrase, position: i + 1 });
+      i = end + 1;
+      continue;
+    }
+
+    // Bare word - runs until whitespace, a parenthesis or a quote
+    const start = i;
+    while (i < query.length && !/[\s()"]/.test(query[i])) {
+      i++;
+    }
+    const word = query.substring(start, i);
+
+    // "title:" / "body:" prefixes apply a keyword location to the next term or group
+    const fieldMatch = word.match(/^([a-z]+):(.*)$/i);
+    if (fieldMatch && FIELD_LOCATIONS[fieldMatch[1].toLowerCase()]) {
+      tokens.push({ type: 'field', value: fieldMatch[1].toLowerCase(), position: start + 1 });
+      if (fieldMatch[2].length > 0) {
+        tokens.push({ type: 'word', value: fieldMatch[2], position: start + fieldMatch[1].length + 2 });
+      }
+      continue;
+    }
+
+    tokens.push(OPERATORS[word]
+      ? { type: OPERATORS[word], value: word, position: start + 1 }
+      : { type: 'word', value: word, position: start + 1 });
+  }
+
+  return tokens;
+};
+
+/**
+ * Recursive descent parser producing a query tree
+ *
+ *   or      := and (OR and)*
+ *   and     := unary (AND unary)*
+ *   unary   := NOT unary | primary
+ *   primary := FIELD primary | '(' or ')' | PHRASE | WORD+
+ */
+class QueryParser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private queryLength: number) {}
+
+  parse(): QueryNode {
+    if (this.tokens.length === 0) {
+      throw new BooleanQuerySyntaxError('Query is empty', 1);
+    }
+
+    const node = this.parseOr();
+
+    const next = this.peek();
+    if (next) {
+      if (next.type === 'rparen') {
+        throw new BooleanQuerySyntaxError("Unexpected ')' with no matching '('", next.position);
+      }
+      throw new BooleanQuerySyntaxError(`Missing AND/OR before "${next.value}"`, next.position);
+    }
+
+    return node;
+  }
+
+  private parseOr(): QueryNode {
+    const first = this.parseAnd();
+    const children = [first];
+
+    while (this.peek()?.type === 'or') {
+      this.index++;
+      children.push(this.parseAnd());
+    }
+
+    return children.length === 1 ? first : { type: 'or', children, position: first.position };
+  }
+
+  private parseAnd(): QueryNode {
+    const first = this.parseUnary();
+    const children = [first];
+
+    while (this.peek()?.type === 'and') {
+      this.index++;
+      children.push(this.parseUnary());
+    }
+
+    return children.length === 1 ? first : { type: 'and', children, position: first.position };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek();
+    if (token?.type === 'not') {
+      this.index++;
+      return { type: 'not', operand: this.parseUnary(), position: token.position };
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.peek();
+
+    if (!token) {
+      throw new BooleanQuerySyntaxError('Query ends unexpectedly - expected a search term', this.queryLength + 1);
+    }
+
+    switch (token.type) {
+      case 'field': {
+        this.index++;
+        const operand = this.parsePrimary();
+        return this.applyLocation(operand, FIELD_LOCATIONS[token.value]);
+      }
+
+      case 'lparen': {
+        this.index++;
+        if (this.peek()?.type === 'rparen') {
+          throw new BooleanQuerySyntaxError('Empty parentheses', token.position);
+        }
+
+        const node = this.parseOr();
+        if (this.peek()?.type !== 'rparen') {
+          throw new BooleanQuerySyntaxError(`Missing ')' to close '(' at position ${token.position}`, this.peek()?.position || this.queryLength + 1);
+        }
+        this.index++;
+        return node;
+      }
+
+      case 'phrase':
+        this.index++;
+        return { type: 'term', value: token.value, position: token.position };
+
+      case 'word': {
+        // Consecutive bare words are one phrase, matching how NewsAPI.ai treats a multi-word keyword
+        const words: string[] = [];
+        while (this.peek()?.type === 'word') {
+          words.push(this.tokens[this.index].value);
+          this.index++;
+        }
+        return { type: 'term', value: words.join(' '), position: token.position };
+      }
+
+      case 'rparen':
+        throw new BooleanQuerySyntaxError("Unexpected ')' - expected a search term", token.position);
+
+      default:
+        throw new BooleanQuerySyntaxError(`Expected a search term before ${token.value}`, token.position);
+    }
+  }
+
+  /**
+   * Set the keyword location on every term in a subtree that doesn't already have one
+   */
+  private applyLocation(node: QueryNode, location: KeywordLocation): QueryNode {
+    switch (node.type) {
+      case 'term':
+        return { ...node, location: node.location || location };
+      case 'not':
+        return { ...node, operand: this.applyLocation(node.operand, location) };
+      default:
+        return { ...node, children: node.children.map(child => this.applyLocation(child, location)) };
+    }
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+}
+
+/**
+ * Translate a query tree into NewsAPI.ai $and / $or / $not structures
+ */
+const compileNode = (node: QueryNode, defaultLocation: KeywordLocation): any => {
+  switch (node.type) {
+    case 'term':
+      return {
+        keyword: node.value,
+        keywordLoc: node.location || defaultLocation
+      };
+
+    case 'or': {
+      const notChild = node.children.find(child => child.type === 'not');
+      if (notChild) {
+        throw new BooleanQuerySyntaxError('NOT cannot be used inside OR - combine it with AND instead', notChild.position);
+      }
+
+      return {
+        $or: node.children.flatMap(child => {
+          const compiled = compileNode(child, defaultLocation);
+          return isOnly(compiled, '$or') ? compiled.$or : [compiled];
+        })
+      };
+    }
+
+    case 'and': {
+      const included = node.children.filter(child => child.type !== 'not');
+      const excluded = node.children.filter(child => child.type === 'not') as Array<Extract<QueryNode, { type: 'not' }>>;
+
+      if (included.length === 0) {
+        throw new BooleanQuerySyntaxError('NOT needs at least one other term joined with AND', excluded[0].position);
+      }
+
+      const compiledIncluded = included.flatMap(child => {
+        const compiled = compileNode(child, defaultLocation);
+        return isOnly(compiled, '$and') ? compiled.$and : [compiled];
+      });
+
+      const query = compiledIncluded.length === 1 ? compiledIncluded[0] : { $and: compiledIncluded };
+      if (excluded.length === 0) {
+        return query;
+      }
+
+      const exclusions = excluded.flatMap(child => {
+        const compiled = compileNode(child.operand, defaultLocation);
+        return isOnly(compiled, '$or') ? compiled.$or : [compiled];
+      });
+      const $not = exclusions.length === 1 ? exclusions[0] : { $or: exclusions };
+
+      // A query can carry only one $not, so wrap anything that already has one
+      return query.$not ? { $and: [query], $not } : { ...query, $not };
+    }
+
+    case 'not':
+      throw new BooleanQuerySyntaxError('NOT needs at least one other term joined with AND', node.position);
+  }
+};
+
+const isOnly = (compiled: any, key: string): boolean => {
+  const keys = Object.keys(compiled);
+  return keys.length === 1 && keys[0] === key;
+};
+
+/**
+ * Parse a boolean search string and compile it into a NewsAPI.ai query condition
+ * @throws BooleanQuerySyntaxError with the position of the problem
+ */
+export const parseBooleanQuery = (query: string, defaultLocation: KeywordLocation = 'body'): any => {
+  const tokens = tokenize(query);
+  const tree = new QueryParser(tokens, query.length).parse();
+  return compileNode(tree, defaultLocation);
+};
+
+/**
+ * Check a boolean search string without throwing
+ */
+export const validateBooleanQuery = (query: string): BooleanQueryValidation => {
+  try {
+    parseBooleanQuery(query);
+    return { isValid: true, errors: [] };
+  } catch (error: any) {
+    if (error instanceof BooleanQuerySyntaxError) {
+      return {
+        isValid: false,
+        errors: [{ message: error.detail, position: error.position }]
+      };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Whether a boolean query is a pre-built NewsAPI.ai JSON query rather than a search string
+ */
+export const isJSONQuery = (query: string): boolean => {
+  try {
+    const parsed = JSON.parse(query);
+    return typeof parsed === 'object' && parsed !== null;
+  } catch (error) {
+    return false;
+  }
+};
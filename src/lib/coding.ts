@@ -0,0 +1,209 @@
+import { Article, Coding, CodingStatus, Prisma } from '@prisma/client';
+import db from './db';
+import { SentimentValue, matchCategory } from './analysisSchema';
+
+export interface CodingReview {
+  status: 'accepted' | 'overridden';
+  summary?: string;       // Overrides only; a value left out keeps the AI value
+  category?: string;
+  sentiment?: SentimentValue;
+  translated?: boolean;
+  notes?: string;
+}
+
+/** Values an export or reader should treat as the article's coding */
+export interface FinalCodingValues {
+  summary: string | null;
+  category: string | null;
+  sentiment: string | null;
+  translated: boolean;
+  status: CodingStatus;   // Most decisive review: overridden, then accepted, then unreviewed
+  coder: string | null;   // Coder whose override supplied the human values
+  overriddenFields: string[];
+}
+
+export interface CoderProgress {
+  coder: string;
+  unreviewed: number;
+  accepted: number;
+  overridden: number;
+}
+
+type CodedArticle = Pick<Article, 'summaryGemini' | 'categoryGemini' | 'sentimentGemini' | 'translatedGemini'> & {
+  codings?: Coding[];
+};
+
+// Statuses that take an article out of a coder's queue
+const REVIEWED_STATUSES: CodingStatus[] = ['accepted', 'overridden'];
+
+/**
+ * Final values for an article: a coder's override where there is one, the AI values everywhere else
+ * With several overrides the most recently reviewed wins
+ */
+export const resolveFinalValues = (article: CodedArticle): FinalCodingValues => {
+  const codings = article.codings || [];
+  const override = codings
+    .filter(coding => coding.status === 'overridden')
+    .sort((a, b) => (b.reviewedAt?.getTime() || 0) - (a.reviewedAt?.getTime() || 0))[0];
+
+  const overriddenFields = override
+    ? (['summary', 'category', 'sentiment', 'translated'] as const).filter(field => override[field] !== null)
+    : [];
+
+  return {
+    summary: override?.summary ?? article.summaryGemini,
+    category: override?.category ?? article.categoryGemini,
+    sentiment: override?.sentiment ?? article.sentimentGemini,
+    translated: override?.translated ?? article.translatedGemini,
+    status: override ? 'overridden' : codings.some(coding => coding.status === 'accepted') ? 'accepted' : 'unreviewed',
+    coder: override?.coder ?? null,
+    overriddenFields
+  };
+};
+
+/**
+ * Human review of AI analysis results
+ * Each coder has their own coding of an article, so the same article can be coded independently by several
+ * people. Human values are stored alongside the AI fields and never overwrite them.
+ */
+export class CodingService {
+  /**
+   * Next analysed article in a project for a coder to review, oldest analysis first
+   * The article is claimed with an unreviewed coding, so it's served again until the coder reviews it
+   * @returns Null when the coder has reviewed every analysed article
+   */
+  async getNextForReview(projectId: string, coder: string) {
+    const queue: Prisma.ArticleWhereInput = {
+      projectId,
+      analysedAt: { not: null },
+      codings: { none: { coder, status: { in: REVIEWED_STATUSES } } }
+    };
+
+    const claimed = await db.article.findFirst({
+      where: { ...queue, codings: { some: { coder, status: 'unreviewed' } } },
+      orderBy: { analysedAt: 'asc' },
+      select: { id: true }
+    });
+    const next = claimed || await db.article.findFirst({
+      where: queue,
+      orderBy: { analysedAt: 'asc' },
+      select: { id: true }
+    });
+
+    if (!next) {
+      return null;
+    }
+
+    const [coding, remaining] = await Promise.all([
+      db.coding.upsert({
+        where: { articleId_coder: { articleId: next.id, coder } },
+        create: { articleId: next.id, coder },
+        update: {}
+      }),
+      db.article.count({ where: queue })
+    ]);
+
+    const article = await db.article.findUniqueOrThrow({
+      where: { id: next.id },
+      include: {
+        quotes: true,
+        analysisProvenance: true
+      }
+    });
+
+    return { article, coding, remaining };
+  }
+
+  /**
+   * An article's AI values, every coder's coding and the resulting final values
+   * @returns Null if the article doesn't exist
+   */
+  async getArticleCodings(articleId: string) {
+    const article = await db.article.findUnique({
+      where: { id: articleId },
+      select: {
+        id: true,
+        projectId: true,
+        analysedAt: true,
+        summaryGemini: true,
+        categoryGemini: true,
+        sentimentGemini: true,
+        translatedGemini: true,
+        codings: { orderBy: { createdAt: 'asc' } }
+      }
+    });
+
+    if (!article) {
+      return null;
+    }
+
+    return { ...article, finalValues: resolveFinalValues(article) };
+  }
+
+  /**
+   * Record a coder's review of an article's AI values
+   * Accepting clears any values from an earlier override by the same coder
+   */
+  async reviewArticle(articleId: string, coder: string, review: CodingReview): Promise<Coding> {
+    const values = review.status === 'overridden'
+      ? {
+        summary: review.summary ?? null,
+        category: review.category ?? null,
+        sentiment: review.sentiment ?? null,
+        translated: review.translated ?? null
+      }
+      : { summary: null, category: null, sentiment: null, translated: null };
+
+    const data = {
+      status: review.status,
+      ...values,
+      notes: review.notes,
+      reviewedAt: new Date()
+    };
+
+    return db.coding.upsert({
+      where: { articleId_coder: { articleId, coder } },
+      create: { articleId, coder, ...data },
+      update: data
+    });
+  }
+
+  /**
+   * Match a category a coder entered onto an active category name
+   * @returns The category name, or null if it isn't an active category
+   */
+  async matchActiveCategory(value: string): Promise<string | null> {
+    const categories = await db.category.findMany({
+      where: { isActive: true },
+      select: { name: true }
+    });
+
+    return matchCategory(value, categories.map(category => category.name));
+  }
+
+  /**
+   * Review progress per coder across a project's analysed articles
+   * Analysed articles a coder hasn't been served yet count as unreviewed for them
+   */
+  async getProjectProgress(projectId: string): Promise<{ analysed: number; coders: CoderProgress[] }> {
+    const [analysed, groups] = await Promise.all([
+      db.article.count({ where: { projectId, analysedAt: { not: null } } }),
+      db.coding.groupBy({
+        by: ['coder', 'status'],
+        where: { article: { projectId, analysedAt: { not: null } } },
+        _count: { _all: true }
+      })
+    ]);
+
+    const coders = [...new Set(groups.map(group => group.coder))].sort().map(coder => {
+      const count = (status: CodingStatus) =>
+        groups.find(group => group.coder === coder && group.status === status)?._count._all || 0;
+      const accepted = count('accepted');
+      const overridden = count('overridden');
+
+      return { coder, unreviewed: analysed - accepted - overridden, accepted, overridden };
+    });
+
+    return { analysed, coders };
+  }
+}
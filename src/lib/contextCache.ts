@@ -1,8 +1,19 @@
+import axios from 'axios';
 import db from './db';
 import * as crypto from 'crypto';
+import { DEFAULT_BASE_URLS, canSendApiKey } from './llmProviders/base';
 
-interface CachedContext {
+/**
+ * A prompt context and what it was built from, recorded as the provenance of the results it produces
+ */
+export interface AnalysisContext {
   content: string;
+  promptTemplateId: string;
+  promptVersion: number;
+  categorySetHash: string | null; // Hash of the active categories embedded in the context (article analysis only)
+}
+
+interface CachedContext extends AnalysisContext {
   contentHash: string;
   createdAt: Date;
   expiresAt: Date;
@@ -15,6 +26,31 @@ interface ContextCacheConfig {
   retryDelay: number;
 }
 
+/**
+ * A context stored by Gemini's cachedContents API and referenced from generateContent
+ */
+interface ServerCachedContent {
+  name: string;        // "cachedContents/..." resource name
+  model: string;
+  baseUrl: string;
+  contentHash: string;
+  tokenCount: number;  // Tokens Gemini holds in the cache
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Where to create server-side caches - supplied by the Gemini provider
+ */
+export interface GeminiCacheTarget {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+}
+
+// Extend a server-side cache's TTL once it has less than this left
+const SERVER_CACHE_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
 export class GeminiContextCache {
   private static cache: Map<string, CachedContext> = new Map();
   private static readonly config: ContextCacheConfig = {
@@ -26,20 +62,34 @@ export class GeminiContextCache {
   // Batch-level cache that gets refreshed at the start of each batch
   private static batchCache: Map<string, CachedContext> = new Map();
 
+  // Gemini cachedContents by "model:contentHash", and contexts Gemini refused to cache (with the reason)
+  private static serverCache: Map<string, ServerCachedContent> = new Map();
+  private static serverCacheUnsupported: Map<string, string> = new Map();
+
+  // Prompt token usage reported by Gemini since the process started
+  private static usage = {
+    requests: 0,
+    cachedRequests: 0,
+    promptTokens: 0,
+    cachedTokens: 0
+  };
+
   /**
-   * Load prompt template from database
+   * Load prompt template from database - the active version unless one is given
    */
-  private static async loadPromptTemplate(type: 'article-analysis' | 'quote-analysis'): Promise<string> {
+  private static async loadPromptTemplate(type: 'article-analysis' | 'quote-analysis', version?: number) {
     const prompt = await db.promptTemplate.findFirst({
-      where: { type, isActive: true },
+      where: version === undefined ? { type, isActive: true } : { type, version },
       orderBy: { version: 'desc' }
     });
     
     if (!prompt) {
-      throw new Error(`Active prompt template not found: ${type}`);
+      throw new Error(version === undefined
+        ? `Active prompt template not found: ${type}`
+        : `Prompt template not found: ${type} v${version}`);
     }
     
-    return prompt.content;
+    return prompt;
   }
 
   /**
@@ -61,13 +111,17 @@ export class GeminiContextCache {
   /**
    * Create optimized context content for caching
    */
-  private static async createCachedContextContent(type: 'article-analysis' | 'quote-analysis'): Promise<string> {
+  private static async createCachedContextContent(type: 'article-analysis' | 'quote-analysis', version?: number): Promise<AnalysisContext> {
+    const template = await this.loadPromptTemplate(type, version);
+    const systemPrompt = template.content;
+    const provenance = { promptTemplateId: template.id, promptVersion: template.version };
+
     if (type === 'article-analysis') {
-      const systemPrompt = await this.loadPromptTemplate('article-analysis');
       const categories = await this.loadCategoryDefinitions();
+      const categoriesJson = JSON.stringify(categories, null, 2);
       
       // Create a clean, optimized context that emphasizes JSON-only responses
-      return `${systemPrompt}
+      const content = `${systemPrompt}
 
 CRITICAL FORMATTING REQUIREMENTS:
 - You MUST respond with ONLY valid JSON
@@ -76,13 +130,13 @@ CRITICAL FORMATTING REQUIREMENTS:
 - NO conversational responses
 
 Categories JSON:
-${JSON.stringify(categories, null, 2)}
+${categoriesJson}
 
 IMPORTANT: Use these categories for classification. Return analysis in the exact JSON format specified above.`;
+
+      return { content, ...provenance, categorySetHash: this.hashCategorySet(categoriesJson) };
     } else { // quote-analysis
-      const systemPrompt = await this.loadPromptTemplate('quote-analysis');
-      
-      return `${systemPrompt}
+      const content = `${systemPrompt}
 
 CRITICAL FORMATTING REQUIREMENTS:
 - You MUST respond with ONLY valid JSON
@@ -91,9 +145,38 @@ CRITICAL FORMATTING REQUIREMENTS:
 - NO conversational responses
 
 IMPORTANT: Return quote extraction in the exact JSON format specified above.`;
+
+      return { content, ...provenance, categorySetHash: null };
     }
   }
 
+  /**
+   * Hash of a category set as embedded in the article analysis context
+   * Any change to a name, definition, keyword or the order changes the hash
+   */
+  private static hashCategorySet(categoriesJson: string): string {
+    return crypto.createHash('sha256').update(categoriesJson).digest('hex').substring(0, 16);
+  }
+
+  /**
+   * Build both contexts from the active prompts and categories, bypassing every cache
+   * Used to tell whether stored results came from the current prompt and category set
+   */
+  static async loadCurrentContexts(): Promise<Record<'article-analysis' | 'quote-analysis', AnalysisContext>> {
+    return {
+      'article-analysis': await this.createCachedContextContent('article-analysis'),
+      'quote-analysis': await this.createCachedContextContent('quote-analysis')
+    };
+  }
+
+  /**
+   * Build a context from any version of a prompt, active or not, with the active categories
+   * Not cached - used to evaluate prompt versions before they are activated
+   */
+  static async buildContextForVersion(type: 'article-analysis' | 'quote-analysis', version: number): Promise<AnalysisContext> {
+    return this.createCachedContextContent(type, version);
+  }
+
   /**
    * Initialize batch-level context cache (call at start of batch processing)
    */
@@ -111,16 +194,16 @@ IMPORTANT: Return quote extraction in the exact JSON format specified above.`;
     const expiresAt = new Date(Date.now() + parseInt(this.config.ttl) * 1000);
     
     this.batchCache.set('article-analysis', {
-      content: articleContext,
-      contentHash: crypto.createHash('sha256').update(articleContext).digest('hex'),
+      ...articleContext,
+      contentHash: crypto.createHash('sha256').update(articleContext.content).digest('hex'),
       type: 'article-analysis',
       createdAt: new Date(),
       expiresAt
     });
     
     this.batchCache.set('quote-analysis', {
-      content: quoteContext,
-      contentHash: crypto.createHash('sha256').update(quoteContext).digest('hex'),
+      ...quoteContext,
+      contentHash: crypto.createHash('sha256').update(quoteContext.content).digest('hex'),
       type: 'quote-analysis',
       createdAt: new Date(),
       expiresAt
@@ -132,32 +215,32 @@ IMPORTANT: Return quote extraction in the exact JSON format specified above.`;
   /**
    * Get article analysis context with batch-level caching
    */
-  static async getArticleAnalysisContext(): Promise<string> {
+  static async getArticleAnalysisContext(): Promise<AnalysisContext> {
     const cacheKey = 'article-analysis';
     
     // First check batch cache (highest priority)
     const batchCached = this.batchCache.get(cacheKey);
     if (batchCached && batchCached.expiresAt > new Date()) {
       console.log('📦 Using batch-cached article analysis context');
-      return batchCached.content;
+      return batchCached;
     }
     
     // Fallback to regular cache
     const cached = this.cache.get(cacheKey);
     const currentContent = await this.createCachedContextContent(cacheKey);
-    const currentContentHash = crypto.createHash('sha256').update(currentContent).digest('hex');
+    const currentContentHash = crypto.createHash('sha256').update(currentContent.content).digest('hex');
 
     // Check if cache is valid and content hasn't changed
     if (cached && cached.expiresAt > new Date() && cached.contentHash === currentContentHash) {
       console.log('📦 Using cached article analysis context');
-      return cached.content;
+      return cached;
     }
 
     console.log('🔄 Creating new article analysis context cache');
     const expiresAt = new Date(Date.now() + parseInt(this.config.ttl) * 1000);
     
     this.cache.set(cacheKey, {
-      content: currentContent,
+      ...currentContent,
       contentHash: currentContentHash,
       type: cacheKey,
       createdAt: new Date(),
@@ -171,32 +254,32 @@ IMPORTANT: Return quote extraction in the exact JSON format specified above.`;
   /**
    * Get quote analysis context with batch-level caching
    */
-  static async getQuoteAnalysisContext(): Promise<string> {
+  static async getQuoteAnalysisContext(): Promise<AnalysisContext> {
     const cacheKey = 'quote-analysis';
     
     // First check batch cache (highest priority)
     const batchCached = this.batchCache.get(cacheKey);
     if (batchCached && batchCached.expiresAt > new Date()) {
       console.log('📦 Using batch-cached quote analysis context');
-      return batchCached.content;
+      return batchCached;
     }
     
     // Fallback to regular cache
     const cached = this.cache.get(cacheKey);
     const currentContent = await this.createCachedContextContent(cacheKey);
-    const currentContentHash = crypto.createHash('sha256').update(currentContent).digest('hex');
+    const currentContentHash = crypto.createHash('sha256').update(currentContent.content).digest('hex');
 
     // Check if cache is valid and content hasn't changed
     if (cached && cached.expiresAt > new Date() && cached.contentHash === currentContentHash) {
       console.log('📦 Using cached quote analysis context');
-      return cached.content;
+      return cached;
     }
 
     console.log('🔄 Creating new quote analysis context cache');
     const expiresAt = new Date(Date.now() + parseInt(this.config.ttl) * 1000);
     
     this.cache.set(cacheKey, {
-      content: currentContent,
+      ...currentContent,
       contentHash: currentContentHash,
       type: cacheKey,
       createdAt: new Date(),
@@ -214,6 +297,121 @@ IMPORTANT: Return quote extraction in the exact JSON format specified above.`;
     console.log('🗑️ Clearing all context caches');
     this.cache.clear();
     this.batchCache.clear();
+    this.serverCacheUnsupported.clear();
+
+    // Server-side caches expire on their own, so a failed delete is only logged
+    const serverCaches = [...this.serverCache.values()];
+    this.serverCache.clear();
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (apiKey) {
+      for (const cached of serverCaches.filter(cached => canSendApiKey(cached.baseUrl, DEFAULT_BASE_URLS.gemini))) {
+        axios.delete(`${cached.baseUrl}/${cached.name}?key=${apiKey}`).catch(error => {
+          console.log(`⚠️ Failed to delete Gemini cached content ${cached.name}: ${error.message}`);
+        });
+      }
+    }
+  }
+
+  /**
+   * The Gemini cached content to reference for a context, creating or extending it as needed
+   * @returns The cachedContents resource name, or null to send the context inline instead
+   */
+  static async getServerCachedContent(target: GeminiCacheTarget, content: string): Promise<string | null> {
+    // Every cachedContents call carries the API key in the URL
+    if (process.env.GEMINI_SERVER_CACHE_ENABLED === 'false' || !canSendApiKey(target.baseUrl, DEFAULT_BASE_URLS.gemini)) {
+      return null;
+    }
+
+    const contentHash = crypto.createHash('sha256').update(content).digest('hex');
+    const key = `${target.model}:${contentHash}`;
+
+    if (this.serverCacheUnsupported.has(key)) {
+      return null;
+    }
+
+    const cached = this.serverCache.get(key);
+    const now = Date.now();
+
+    if (cached && cached.expiresAt.getTime() - now > SERVER_CACHE_REFRESH_MARGIN_MS) {
+      return cached.name;
+    }
+
+    if (cached && cached.expiresAt.getTime() > now) {
+      try {
+        const response = await axios.patch(
+          `${target.baseUrl}/${cached.name}?updateMask=ttl&key=${target.apiKey}`,
+          { ttl: this.config.ttl }
+        );
+        cached.expiresAt = new Date(response.data.expireTime || now + parseInt(this.config.ttl) * 1000);
+        console.log(`♻️ Extended Gemini cached content ${cached.name}`);
+        return cached.name;
+      } catch (error: any) {
+        console.log(`⚠️ Failed to extend Gemini cached content ${cached.name}, creating a new one: ${error.message}`);
+      }
+    }
+
+    this.serverCache.delete(key);
+
+    try {
+      const response = await axios.post(
+        `${target.baseUrl}/cachedContents?key=${target.apiKey}`,
+        {
+          model: `models/${target.model}`,
+          displayName: `newshub-${contentHash.substring(0, 12)}`,
+          contents: [{ role: 'user', parts: [{ text: content }] }],
+          ttl: this.config.ttl
+        },
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+
+      const created: ServerCachedContent = {
+        name: response.data.name,
+        model: target.model,
+        baseUrl: target.baseUrl,
+        contentHash,
+        tokenCount: response.data.usageMetadata?.totalTokenCount || 0,
+        createdAt: new Date(),
+        expiresAt: new Date(response.data.expireTime || now + parseInt(this.config.ttl) * 1000)
+      };
+
+      this.serverCache.set(key, created);
+      console.log(`✅ Created Gemini cached content ${created.name} (${created.tokenCount} tokens)`);
+      return created.name;
+    } catch (error: any) {
+      const reason = error.response?.data?.error?.message || error.message;
+
+      // 4xx: the model doesn't support caching or the context is below its minimum size - don't ask again
+      // for this content. Anything else may be temporary, so the next request tries again.
+      if (error.response?.status >= 400 && error.response?.status < 500) {
+        this.serverCacheUnsupported.set(key, reason);
+      }
+
+      console.log(`⚠️ Gemini context caching unavailable, sending context inline: ${reason}`);
+      return null;
+    }
+  }
+
+  /**
+   * Forget a cached content Gemini no longer recognises (expired or deleted server-side)
+   */
+  static forgetServerCachedContent(name: string): void {
+    for (const [key, cached] of this.serverCache) {
+      if (cached.name === name) {
+        this.serverCache.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Record a generateContent response's usage metadata for the token savings report
+   */
+  static recordUsage(usageMetadata: any, usedServerCache: boolean): void {
+    this.usage.requests++;
+    if (usedServerCache) {
+      this.usage.cachedRequests++;
+    }
+    this.usage.promptTokens += usageMetadata?.promptTokenCount || 0;
+    this.usage.cachedTokens += usageMetadata?.cachedContentTokenCount || 0;
   }
 
   /**
@@ -241,7 +439,16 @@ IMPORTANT: Return quote extraction in the exact JSON format specified above.`;
   static getCacheStatus() {
     const status: Record<string, any> = {
       regular: {},
-      batch: {}
+      batch: {},
+      server: {},
+      serverUnsupported: Object.fromEntries(this.serverCacheUnsupported),
+      tokenSavings: {
+        ...this.usage,
+        uncachedPromptTokens: this.usage.promptTokens - this.usage.cachedTokens,
+        cachedShare: this.usage.promptTokens > 0
+          ? Math.round((this.usage.cachedTokens / this.usage.promptTokens) * 1000) / 10
+          : 0
+      }
     };
     
     // Regular cache status
@@ -251,6 +458,8 @@ IMPORTANT: Return quote extraction in the exact JSON format specified above.`;
         expiresAt: cached.expiresAt.toISOString(),
         createdAt: cached.createdAt.toISOString(),
         contentHash: cached.contentHash,
+        promptVersion: cached.promptVersion,
+        categorySetHash: cached.categorySetHash,
         contentPreview: cached.content.substring(0, 100) + '...'
       };
     });
@@ -262,10 +471,25 @@ IMPORTANT: Return quote extraction in the exact JSON format specified above.`;
         expiresAt: cached.expiresAt.toISOString(),
         createdAt: cached.createdAt.toISOString(),
         contentHash: cached.contentHash,
+        promptVersion: cached.promptVersion,
+        categorySetHash: cached.categorySetHash,
         contentPreview: cached.content.substring(0, 100) + '...'
       };
     });
     
+    // Gemini server-side caches
+    this.serverCache.forEach((cached, key) => {
+      status.server[key] = {
+        name: cached.name,
+        model: cached.model,
+        active: cached.expiresAt > new Date(),
+        expiresAt: cached.expiresAt.toISOString(),
+        createdAt: cached.createdAt.toISOString(),
+        contentHash: cached.contentHash,
+        tokenCount: cached.tokenCount
+      };
+    });
+    
     return status;
   }
 }
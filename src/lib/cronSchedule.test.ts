@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CronSchedule } from './cronSchedule';
+
+const next = (expression: string, after: string) => new CronSchedule(expression).next(new Date(after)).toISOString();
+
+test('next finds the first run strictly after the given time, in UTC', () => {
+  assert.equal(next('0 6 * * *', '2024-03-05T05:30:00Z'), '2024-03-05T06:00:00.000Z');
+  assert.equal(next('0 6 * * *', '2024-03-05T06:00:00Z'), '2024-03-06T06:00:00.000Z');
+  assert.equal(next('*/15 * * * *', '2024-03-05T10:07:30Z'), '2024-03-05T10:15:00.000Z');
+  assert.equal(next('5/20 * * * *', '2024-03-05T10:46:00Z'), '2024-03-05T11:05:00.000Z');
+});
+
+test('next skips to matching weekdays, months and years', () => {
+  // Friday 8 March 2024 -> Monday
+  assert.equal(next('30 9 * * 1-5', '2024-03-08T10:00:00Z'), '2024-03-11T09:30:00.000Z');
+  assert.equal(next('0 12 * * 7', '2024-03-05T00:00:00Z'), '2024-03-10T12:00:00.000Z');
+  assert.equal(next('0 0 1 1 *', '2024-06-15T00:00:00Z'), '2025-01-01T00:00:00.000Z');
+  assert.equal(next('0 0 29 2 *', '2024-03-01T00:00:00Z'), '2028-02-29T00:00:00.000Z');
+});
+
+test('when both day fields are restricted, a day matching either runs', () => {
+  assert.equal(next('0 0 13 * 5', '2024-03-01T12:00:00Z'), '2024-03-08T00:00:00.000Z');
+  assert.equal(next('0 0 13 * 5', '2024-03-08T12:00:00Z'), '2024-03-13T00:00:00.000Z');
+});
+
+test('a schedule that never fires throws', () => {
+  assert.throws(() => next('0 0 31 2 *', '2024-01-01T00:00:00Z'), /never fires/);
+});
+
+test('invalid expressions are described by validate', () => {
+  assert.equal(CronSchedule.validate('0 6 * * *'), null);
+  assert.equal(CronSchedule.validate('0 6 * *'), 'Cron expression must have 5 fields (minute hour day-of-month month day-of-week), got 4');
+  assert.equal(CronSchedule.validate('60 * * * *'), 'minute field "60" is outside 0-59');
+  assert.equal(CronSchedule.validate('*/0 * * * *'), 'Step in minute field must be at least 1');
+  assert.equal(CronSchedule.validate('a * * * *'), 'Invalid value "a" in minute field');
+  assert.equal(CronSchedule.validate('0 0 * * 5-1'), 'day of week field "5-1" is outside 0-7');
+});
@@ -0,0 +1,171 @@
+/**
+ * Minimal five-field cron expression support for saved search schedules
+ *
+ *   minute hour day-of-month month day-of-week
+ *
+ * Each field accepts "*", numbers, ranges ("1-5"), lists ("1,15") and steps ("*\/15", "0-30/10").
+ * Day-of-week runs 0-6 with Sunday as 0 (7 is also accepted for Sunday). Times are UTC.
+ * As in standard cron, when both day fields are restricted a day matching either one runs.
+ */
+
+interface CronField {
+  values: Set<number>;
+  restricted: boolean; // false when the field was "*"
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+// Longest gap to search for the next run before giving up (covers "29 2 *" style schedules)
+const MAX_SEARCH_DAYS = 366 * 5;
+
+export class CronSchedule {
+  private minutes: CronField;
+  private hours: CronField;
+  private daysOfMonth: CronField;
+  private months: CronField;
+  private daysOfWeek: CronField;
+
+  constructor(public readonly expression: string) {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5) {
+      throw new Error(`Cron expression must have 5 fields (minute hour day-of-month month day-of-week), got ${parts.length}`);
+    }
+
+    [this.minutes, this.hours, this.daysOfMonth, this.months, this.daysOfWeek] =
+      parts.map((part, index) => this.parseField(part, FIELD_RANGES[index]));
+
+    // Treat 7 as Sunday
+    if (this.daysOfWeek.values.has(7)) {
+      this.daysOfWeek.values.add(0);
+    }
+  }
+
+  /**
+   * Check an expression without throwing
+   * @returns An error message, or null if the expression is valid
+   */
+  static validate(expression: string): string | null {
+    try {
+      new CronSchedule(expression);
+      return null;
+    } catch (error: any) {
+      return error.message;
+    }
+  }
+
+  /**
+   * Whether the schedule fires at the given minute
+   */
+  matches(date: Date): boolean {
+    return this.minutes.values.has(date.getUTCMinutes())
+      && this.hours.values.has(date.getUTCHours())
+      && this.months.values.has(date.getUTCMonth() + 1)
+      && this.matchesDay(date);
+  }
+
+  /**
+   * The first time strictly after `after` at which the schedule fires
+   */
+  next(after: Date): Date {
+    const candidate = new Date(after.getTime());
+    candidate.setUTCSeconds(0, 0);
+    candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+    const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+
+    while (candidate.getTime() <= limit) {
+      if (!this.months.values.has(candidate.getUTCMonth() + 1)) {
+        candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+        candidate.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.matchesDay(candidate)) {
+        candidate.setUTCDate(candidate.getUTCDate() + 1);
+        candidate.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.hours.values.has(candidate.getUTCHours())) {
+        candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.minutes.values.has(candidate.getUTCMinutes())) {
+        candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+        continue;
+      }
+
+      return candidate;
+    }
+
+    throw new Error(`Cron expression "${this.expression}" never fires`);
+  }
+
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.values.has(date.getUTCDate());
+    const dayOfWeek = this.daysOfWeek.values.has(date.getUTCDay());
+
+    if (this.daysOfMonth.restricted && this.daysOfWeek.restricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+  }
+
+  /**
+   * Expand one field into the set of values it allows
+   */
+  private parseField(field: string, range: { name: string; min: number; max: number }): CronField {
+    const values = new Set<number>();
+
+    for (const item of field.split(',')) {
+      const [rangePart, stepPart, extra] = item.split('/');
+      if (extra !== undefined) {
+        throw new Error(`Invalid ${range.name} field "${field}"`);
+      }
+
+      const step = stepPart === undefined ? 1 : this.parseNumber(stepPart, range.name);
+      if (step < 1) {
+        throw new Error(`Step in ${range.name} field must be at least 1`);
+      }
+
+      let start: number;
+      let end: number;
+      if (rangePart === '*') {
+        start = range.min;
+        end = range.max;
+      } else if (rangePart.includes('-')) {
+        const [from, to] = rangePart.split('-');
+        start = this.parseNumber(from, range.name);
+        end = this.parseNumber(to, range.name);
+      } else {
+        start = this.parseNumber(rangePart, range.name);
+        // "5/15" means every 15 starting at 5
+        end = stepPart === undefined ? start : range.max;
+      }
+
+      if (start < range.min || end > range.max || start > end) {
+        throw new Error(`${range.name} field "${field}" is outside ${range.min}-${range.max}`);
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return { values, restricted: field !== '*' };
+  }
+
+  private parseNumber(text: string, fieldName: string): number {
+    if (!/^\d+$/.test(text)) {
+      throw new Error(`Invalid value "${text}" in ${fieldName} field`);
+    }
+    return parseInt(text, 10);
+  }
+}
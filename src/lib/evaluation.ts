@@ -0,0 +1,442 @@
+import { EvaluationRun, GoldArticle, GoldSet, Prisma } from '@prisma/client';
+import db from './db';
+import { AnalysisContext, GeminiContextCache } from './contextCache';
+import { analyzeArticles, extractQuotes } from './gemini';
+import { LLMSettings, createLLMProvider, getLLMSettings } from './llm';
+import { LLMProvider, LLMResponseError } from './llmProviders/base';
+import { matchCategory } from './analysisSchema';
+import {
+  EvaluationReport,
+  ExpectedQuote,
+  scoreCategories,
+  scoreQuotes,
+  scoreSentiment
+} from './evaluationMetrics';
+
+export interface GoldArticleInput {
+  articleId: string;
+  category: string;
+  sentiment: 'positive' | 'neutral' | 'negative';
+  quotes?: ExpectedQuote[];
+  notes?: string;
+}
+
+export interface EvaluationRunRequest {
+  articlePromptVersion?: number; // Active version when unset
+  quotePromptVersion?: number;   // Active version when unset
+  llm?: LLMSettings;             // Configured provider when unset
+}
+
+/** The prompts and model an evaluation run analyses with */
+interface RunSetup {
+  articleContext: AnalysisContext;
+  quoteContext: AnalysisContext;
+  provider: LLMProvider;
+}
+
+/** What the model returned for one gold article */
+export interface EvaluationPrediction {
+  articleId: string;
+  category: string | null;
+  sentiment: string | null;
+  quotes: ExpectedQuote[];
+  errors: string[];
+}
+
+export interface EvaluationComparison {
+  runs: {
+    runId: string;
+    status: string;
+    articlePromptVersion: number;
+    quotePromptVersion: number;
+    provider: string;
+    model: string;
+    completedAt: Date | null;
+    categoryAccuracy: number | null;
+    categoryMacroF1: number | null;
+    sentimentAccuracy: number | null;
+    quoteF1: number | null;
+    failedArticles: number | null;
+  }[];
+  perCategoryF1: Record<string, (number | null)[]>; // Category -> F1 in each run, in run order
+}
+
+/**
+ * Gold sets of human-coded articles, and evaluation runs that score a prompt version and provider against them
+ * Runs analyse the gold articles with the chosen prompts and model but never write to the articles,
+ * so prompt versions can be compared before one is activated
+ */
+export class EvaluationService {
+  private batchSize: number;
+
+  constructor() {
+    this.batchSize = parseInt(process.env.GEMINI_BATCH_SIZE || '3');
+  }
+
+  /**
+   * Create an empty gold set in a project
+   */
+  async createGoldSet(projectId: string, name: string, description?: string): Promise<GoldSet> {
+    const project = await db.project.findUnique({
+      where: { id: projectId }
+    });
+
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    return db.goldSet.create({
+      data: { projectId, name, description }
+    });
+  }
+
+  /**
+   * Gold sets in a project with their article and run counts
+   */
+  async getProjectGoldSets(projectId: string) {
+    return db.goldSet.findMany({
+      where: { projectId },
+      include: { _count: { select: { articles: true, runs: true } } },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * A gold set with its coded articles
+   */
+  async getGoldSet(goldSetId: string) {
+    return db.goldSet.findUnique({
+      where: { id: goldSetId },
+      include: {
+        articles: {
+          include: { article: { select: { id: true, title: true, newsOutlet: true } } },
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    });
+  }
+
+  /**
+   * Add articles to a gold set, or replace the coding of articles already in it
+   * Categories are stored as the active category name they match, so they compare with the model's predictions
+   * @throws Error if the gold set doesn't exist, an article isn't in its project or a category isn't active
+   */
+  async upsertGoldArticles(goldSetId: string, articles: GoldArticleInput[]): Promise<GoldArticle[]> {
+    const goldSet = await db.goldSet.findUnique({
+      where: { id: goldSetId }
+    });
+
+    if (!goldSet) {
+      throw new Error('Gold set not found');
+    }
+
+    const found = await db.article.count({
+      where: { id: { in: articles.map(article => article.articleId) }, projectId: goldSet.projectId }
+    });
+
+    if (found !== new Set(articles.map(article => article.articleId)).size) {
+      throw new Error('Some articles not found or do not belong to the gold set\'s project');
+    }
+
+    const categoryNames = (await db.category.findMany({
+      where: { isActive: true },
+      select: { name: true }
+    })).map(category => category.name);
+
+    const unknown = articles.filter(article => !matchCategory(article.category, categoryNames));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown categories: ${[...new Set(unknown.map(article => article.category))].join(', ')}`);
+    }
+
+    return db.$transaction(articles.map(article => {
+      const coding = {
+        category: matchCategory(article.category, categoryNames)!,
+        sentiment: article.sentiment,
+        quotes: (article.quotes || []) as unknown as Prisma.InputJsonValue,
+        notes: article.notes
+      };
+
+      return db.goldArticle.upsert({
+        where: { goldSetId_articleId: { goldSetId, articleId: article.articleId } },
+        create: { goldSetId, articleId: article.articleId, ...coding },
+        update: coding
+      });
+    }));
+  }
+
+  /**
+   * Take an article out of a gold set
+   * @returns False if the article wasn't in the set
+   */
+  async removeGoldArticle(goldSetId: string, articleId: string): Promise<boolean> {
+    const result = await db.goldArticle.deleteMany({
+      where: { goldSetId, articleId }
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Delete a gold set with its coding and evaluation runs
+   * @returns False if the gold set doesn't exist
+   */
+  async deleteGoldSet(goldSetId: string): Promise<boolean> {
+    const result = await db.goldSet.deleteMany({
+      where: { id: goldSetId }
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Start scoring a prompt version and provider against a gold set
+   * The run is created straight away and processed in the background; poll getRun for the report
+   * @throws Error if the gold set is missing or empty, or a prompt version doesn't exist
+   */
+  async startRun(goldSetId: string, request: EvaluationRunRequest): Promise<EvaluationRun> {
+    const goldSet = await db.goldSet.findUnique({
+      where: { id: goldSetId },
+      include: { _count: { select: { articles: true } } }
+    });
+
+    if (!goldSet) {
+      throw new Error('Gold set not found');
+    }
+
+    if (goldSet._count.articles === 0) {
+      throw new Error('Gold set has no articles');
+    }
+
+    // Resolve everything up front so a bad version or provider fails the request, not the run
+    const current = request.articlePromptVersion === undefined || request.quotePromptVersion === undefined
+      ? await GeminiContextCache.loadCurrentContexts()
+      : null;
+    const articleContext = request.articlePromptVersion !== undefined
+      ? await GeminiContextCache.buildContextForVersion('article-analysis', request.articlePromptVersion)
+      : current!['article-analysis'];
+    const quoteContext = request.quotePromptVersion !== undefined
+      ? await GeminiContextCache.buildContextForVersion('quote-analysis', request.quotePromptVersion)
+      : current!['quote-analysis'];
+    const provider = createLLMProvider(request.llm || await getLLMSettings());
+
+    const run = await db.evaluationRun.create({
+      data: {
+        goldSetId,
+        articlePromptVersion: articleContext.promptVersion,
+        quotePromptVersion: quoteContext.promptVersion,
+        categorySetHash: articleContext.categorySetHash,
+        provider: provider.name,
+        model: provider.model
+      }
+    });
+
+    console.log(`🧪 Evaluation run ${run.id}: article prompt v${run.articlePromptVersion}, quote prompt v${run.quotePromptVersion}, ${provider.name} (${provider.model})`);
+
+    this.processRun(run.id, { articleContext, quoteContext, provider }).catch(error => {
+      console.error(`Evaluation run ${run.id} failed:`, error);
+    });
+
+    return run;
+  }
+
+  /**
+   * Fail runs left pending or running by a previous process - they're processed in memory, so nothing resumes them
+   * @param startedAt When this process started; runs created since are its own
+   * @returns Number of runs failed
+   */
+  async failInterruptedRuns(startedAt: Date): Promise<number> {
+    const result = await db.evaluationRun.updateMany({
+      where: { status: { in: ['pending', 'running'] }, createdAt: { lt: startedAt } },
+      data: { status: 'failed', completedAt: new Date(), error: 'Interrupted by a server restart - start the run again' }
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Get a run with its report
+   */
+  async getRun(runId: string): Promise<EvaluationRun | null> {
+    return db.evaluationRun.findUnique({
+      where: { id: runId }
+    });
+  }
+
+  /**
+   * A gold set's runs, newest first, without their per-article predictions
+   */
+  async getGoldSetRuns(goldSetId: string) {
+    return db.evaluationRun.findMany({
+      where: { goldSetId },
+      omit: { predictions: true },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Headline metrics of several runs side by side, with per-category F1 for each
+   * @param runIds Runs to compare, in column order
+   */
+  async compareRuns(runIds: string[]): Promise<EvaluationComparison> {
+    const found = await db.evaluationRun.findMany({
+      where: { id: { in: runIds } }
+    });
+    const runs = runIds
+      .map(id => found.find(run => run.id === id))
+      .filter((run): run is EvaluationRun => run !== undefined);
+
+    const reports = runs.map(run => run.report as unknown as EvaluationReport | null);
+    const categories = [...new Set(reports.flatMap(report => report ? Object.keys(report.category.perCategory) : []))].sort();
+
+    return {
+      runs: runs.map((run, index) => ({
+        runId: run.id,
+        status: run.status,
+        articlePromptVersion: run.articlePromptVersion,
+        quotePromptVersion: run.quotePromptVersion,
+        provider: run.provider,
+        model: run.model,
+        completedAt: run.completedAt,
+        categoryAccuracy: reports[index]?.category.accuracy ?? null,
+        categoryMacroF1: reports[index]?.category.macroF1 ?? null,
+        sentimentAccuracy: reports[index]?.sentiment.accuracy ?? null,
+        quoteF1: reports[index]?.quotes.f1 ?? null,
+        failedArticles: reports[index]?.failedArticles ?? null
+      })),
+      perCategoryF1: Object.fromEntries(categories.map(category => [
+        category,
+        reports.map(report => report?.category.perCategory[category]?.f1 ?? null)
+      ]))
+    };
+  }
+
+  /**
+   * Analyse the gold articles in batches, score the predictions and store the report
+   */
+  private async processRun(runId: string, setup: RunSetup): Promise<void> {
+    const run = await db.evaluationRun.update({
+      where: { id: runId },
+      data: { status: 'running', startedAt: new Date() }
+    });
+
+    try {
+      const goldArticles = await db.goldArticle.findMany({
+        where: { goldSetId: run.goldSetId },
+        include: { article: { select: { id: true, title: true, fullBodyText: true, newsOutlet: true, authors: true } } }
+      });
+
+      const predictions: EvaluationPrediction[] = [];
+
+      for (let i = 0; i < goldArticles.length; i += this.batchSize) {
+        const chunk = goldArticles.slice(i, i + this.batchSize).map(gold => gold.article);
+        predictions.push(...await this.predict(chunk, setup));
+      }
+
+      const report = this.score(goldArticles, predictions);
+
+      await db.evaluationRun.update({
+        where: { id: runId },
+        data: {
+          status: 'completed',
+          completedAt: new Date(),
+          report: report as unknown as Prisma.InputJsonValue,
+          predictions: predictions as unknown as Prisma.InputJsonValue
+        }
+      });
+
+      console.log(`🧪 Evaluation run ${runId} completed: category macro F1 ${report.category.macroF1}, sentiment accuracy ${report.sentiment.accuracy}, quote F1 ${report.quotes.f1}`);
+    } catch (error: any) {
+      await db.evaluationRun.update({
+        where: { id: runId },
+        data: { status: 'failed', completedAt: new Date(), error: error.message }
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Analyse articles together, falling back to one at a time when the model's output is unusable
+   * Articles that still fail are predicted as nothing, which counts against recall
+   */
+  private async predict(
+    articles: { id: string; title: string; fullBodyText: string | null; newsOutlet: string | null; authors: string[] }[],
+    setup: RunSetup
+  ): Promise<EvaluationPrediction[]> {
+    const requests = articles.map(article => ({
+      id: article.id,
+      title: article.title,
+      fullBodyText: article.fullBodyText || '',
+      newsOutlet: article.newsOutlet || undefined,
+      authors: article.authors || undefined
+    }));
+
+    try {
+      const analysis = await analyzeArticles(requests, { context: setup.articleContext, provider: setup.provider });
+      const quotes = await extractQuotes(requests, { context: setup.quoteContext, provider: setup.provider });
+
+      return articles.map(article => {
+        const result = analysis.articles.find(entry => entry['1_id'] === article.id);
+        const failures = [...analysis.failures, ...quotes.failures].filter(failure => failure.articleId === article.id);
+
+        return {
+          articleId: article.id,
+          category: result?.['8_category'] ?? null,
+          sentiment: result?.['9_sentiment'] ?? null,
+          quotes: quotes.quotes
+            .filter(quote => quote['1_articleId'] === article.id)
+            .map(quote => ({
+              stakeholderName: quote['2_stakeholderName'],
+              stakeholderAffiliation: quote['3_stakeholderAffiliation'],
+              quote: quote['4_quote']
+            })),
+          errors: failures.flatMap(failure => failure.errors)
+        };
+      });
+    } catch (error: any) {
+      if (error instanceof LLMResponseError && articles.length > 1) {
+        const predictions: EvaluationPrediction[] = [];
+        for (const article of articles) {
+          predictions.push(...await this.predict([article], setup));
+        }
+        return predictions;
+      }
+
+      // Provider errors (timeouts, bad keys) affect every article, so stop the run
+      if (!(error instanceof LLMResponseError)) {
+        throw error;
+      }
+
+      return articles.map(article => ({
+        articleId: article.id,
+        category: null,
+        sentiment: null,
+        quotes: [],
+        errors: [error.message]
+      }));
+    }
+  }
+
+  /**
+   * Score predictions against the gold coding
+   */
+  private score(goldArticles: GoldArticle[], predictions: EvaluationPrediction[]): EvaluationReport {
+    const predictionFor = (articleId: string) => predictions.find(prediction => prediction.articleId === articleId);
+
+    return {
+      articles: goldArticles.length,
+      failedArticles: predictions.filter(prediction => prediction.category === null).length,
+      category: scoreCategories(goldArticles.map(gold => ({
+        expected: gold.category,
+        predicted: predictionFor(gold.articleId)?.category ?? null
+      }))),
+      sentiment: scoreSentiment(goldArticles.map(gold => ({
+        expected: gold.sentiment,
+        predicted: predictionFor(gold.articleId)?.sentiment ?? null
+      }))),
+      quotes: scoreQuotes(goldArticles.map(gold => ({
+        expected: (gold.quotes as unknown as ExpectedQuote[]) || [],
+        predicted: predictionFor(gold.articleId)?.quotes || []
+      })))
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NO_PREDICTION, scoreCategories, scoreQuotes, scoreSentiment } from './evaluationMetrics';
+
+test('categories are scored per label, with failed articles counted as no prediction', () => {
+  const report = scoreCategories([
+    { expected: 'Water Policy', predicted: 'Water Policy' },
+    { expected: 'Water Policy', predicted: 'Agriculture' },
+    { expected: 'Agriculture', predicted: 'Agriculture' },
+    { expected: 'Agriculture', predicted: null }
+  ]);
+
+  assert.equal(report.accuracy, 0.5);
+  assert.deepEqual(report.perCategory['Water Policy'], { support: 2, predicted: 1, truePositives: 1, precision: 1, recall: 0.5, f1: 0.667 });
+  assert.deepEqual(report.perCategory['Agriculture'], { support: 2, predicted: 2, truePositives: 1, precision: 0.5, recall: 0.5, f1: 0.5 });
+  assert.deepEqual(report.perCategory[NO_PREDICTION], { support: 0, predicted: 1, truePositives: 0, precision: 0, recall: null, f1: null });
+
+  // Macro averages cover only the gold categories
+  assert.equal(report.macroPrecision, 0.75);
+  assert.equal(report.macroRecall, 0.5);
+});
+
+test('sentiment predictions outside the labels land in the no-prediction column', () => {
+  const report = scoreSentiment([
+    { expected: 'positive', predicted: 'positive' },
+    { expected: 'negative', predicted: 'neutral' },
+    { expected: 'neutral', predicted: null },
+    { expected: 'neutral', predicted: 'mixed' }
+  ]);
+
+  assert.equal(report.accuracy, 0.25);
+  assert.deepEqual(report.labels, ['positive', 'neutral', 'negative', NO_PREDICTION]);
+  assert.deepEqual(report.matrix.neutral, { positive: 0, neutral: 0, negative: 0, [NO_PREDICTION]: 2 });
+  assert.deepEqual(report.matrix.negative, { positive: 0, neutral: 1, negative: 0, [NO_PREDICTION]: 0 });
+});
+
+test('quotes match on word overlap, and a short form of the speaker still counts', () => {
+  const report = scoreQuotes([
+    {
+      expected: [{ stakeholderName: 'Jane Smith', quote: 'We have never seen the river this low' }],
+      predicted: [{ stakeholderName: 'Smith', quote: '"We have never seen the river this low before,"' }]
+    },
+    {
+      expected: [{ stakeholderName: 'Tom Lee', quote: 'Prices will rise' }],
+      predicted: []
+    },
+    {
+      expected: [],
+      predicted: [{ stakeholderName: 'Ann Cole', quote: 'Something else entirely' }]
+    }
+  ]);
+
+  assert.deepEqual(report, { expected: 2, predicted: 2, matched: 1, speakerMatched: 1, precision: 0.5, recall: 0.5, f1: 0.5 });
+});
+
+test('each quote matches at most one other', () => {
+  const quote = { stakeholderName: 'Jane Smith', quote: 'The river is low' };
+  const report = scoreQuotes([{ expected: [quote, quote], predicted: [{ ...quote, stakeholderName: 'Tom Lee' }] }]);
+
+  assert.equal(report.matched, 1);
+  assert.equal(report.speakerMatched, 0);
+  assert.equal(report.recall, 0.5);
+  assert.equal(report.precision, 1);
+});
@@ -0,0 +1,213 @@
+import { SENTIMENTS, SentimentValue } from './analysisSchema';
+
+/** Label used when the model gave no usable answer for an article */
+export const NO_PREDICTION = '(none)';
+
+export interface ExpectedQuote {
+  stakeholderName: string;
+  stakeholderAffiliation?: string | null;
+  quote: string;
+}
+
+export interface ClassMetrics {
+  support: number;        // Gold articles with this label
+  predicted: number;      // Articles the model gave this label
+  truePositives: number;
+  precision: number | null; // Null when the label was never predicted
+  recall: number | null;    // Null when no gold article has the label
+  f1: number | null;
+}
+
+export interface CategoryReport {
+  accuracy: number;
+  macroPrecision: number;
+  macroRecall: number;
+  macroF1: number;
+  perCategory: Record<string, ClassMetrics>;
+}
+
+export interface SentimentReport {
+  accuracy: number;
+  labels: string[];                               // Row and column order
+  matrix: Record<string, Record<string, number>>; // Gold sentiment -> predicted sentiment -> articles
+}
+
+export interface QuoteReport {
+  expected: number;
+  predicted: number;
+  matched: number;
+  speakerMatched: number; // Matched quotes also attributed to the right stakeholder
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface EvaluationReport {
+  articles: number;
+  failedArticles: number; // Articles the model gave no usable output for
+  category: CategoryReport;
+  sentiment: SentimentReport;
+  quotes: QuoteReport;
+}
+
+// Share of words two quotes must have in common to count as the same quote
+const QUOTE_MATCH_THRESHOLD = 0.6;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const ratio = (numerator: number, denominator: number): number | null =>
+  denominator > 0 ? round(numerator / denominator) : null;
+
+const f1Of = (precision: number | null, recall: number | null): number | null =>
+  precision === null || recall === null
+    ? null
+    : precision + recall > 0 ? round((2 * precision * recall) / (precision + recall)) : 0;
+
+/**
+ * Per-category precision and recall, with accuracy and macro averages over the gold categories
+ * @param pairs Gold and predicted category per article (predicted null when the model failed)
+ */
+export const scoreCategories = (pairs: { expected: string; predicted: string | null }[]): CategoryReport => {
+  const labels = [...new Set(pairs.flatMap(pair => [pair.expected, pair.predicted ?? NO_PREDICTION]))].sort();
+  const perCategory: Record<string, ClassMetrics> = {};
+
+  for (const label of labels) {
+    const support = pairs.filter(pair => pair.expected === label).length;
+    const predicted = pairs.filter(pair => (pair.predicted ?? NO_PREDICTION) === label).length;
+    const truePositives = pairs.filter(pair => pair.expected === label && pair.predicted === label).length;
+    const precision = ratio(truePositives, predicted);
+    const recall = ratio(truePositives, support);
+
+    perCategory[label] = { support, predicted, truePositives, precision, recall, f1: f1Of(precision, recall) };
+  }
+
+  // Macro averages cover the categories in the gold set; a gold category never predicted scores 0 precision
+  const goldLabels = labels.filter(label => perCategory[label].support > 0);
+  const average = (values: number[]) => values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+
+  return {
+    accuracy: ratio(pairs.filter(pair => pair.expected === pair.predicted).length, pairs.length) ?? 0,
+    macroPrecision: average(goldLabels.map(label => perCategory[label].precision ?? 0)),
+    macroRecall: average(goldLabels.map(label => perCategory[label].recall ?? 0)),
+    macroF1: average(goldLabels.map(label => perCategory[label].f1 ?? 0)),
+    perCategory
+  };
+};
+
+/**
+ * Sentiment confusion matrix, gold sentiment by predicted sentiment
+ * @param pairs Gold and predicted sentiment per article (predicted null when the model failed)
+ */
+export const scoreSentiment = (pairs: { expected: string; predicted: string | null }[]): SentimentReport => {
+  const labels = [...SENTIMENTS, NO_PREDICTION];
+  const matrix: Record<string, Record<string, number>> = {};
+
+  for (const expected of SENTIMENTS) {
+    matrix[expected] = Object.fromEntries(labels.map(label => [label, 0]));
+  }
+
+  // Anything outside the sentiment labels counts as no prediction rather than adding a stray column
+  for (const pair of pairs) {
+    const predicted = SENTIMENTS.includes(pair.predicted as SentimentValue) ? pair.predicted as string : NO_PREDICTION;
+    matrix[pair.expected][predicted]++;
+  }
+
+  return {
+    accuracy: ratio(pairs.filter(pair => pair.expected === pair.predicted).length, pairs.length) ?? 0,
+    labels,
+    matrix
+  };
+};
+
+/**
+ * Match predicted quotes to expected quotes article by article and score the matches
+ * Quotes match when enough of their words overlap, so small differences in punctuation or
+ * trimming don't count against the model; each quote matches at most one other
+ */
+export const scoreQuotes = (articles: { expected: ExpectedQuote[]; predicted: ExpectedQuote[] }[]): QuoteReport => {
+  let expected = 0;
+  let predicted = 0;
+  let matched = 0;
+  let speakerMatched = 0;
+
+  for (const article of articles) {
+    expected += article.expected.length;
+    predicted += article.predicted.length;
+
+    // Best overlaps first, so a quote isn't taken by a weaker match
+    const candidates = article.expected
+      .flatMap((gold, goldIndex) => article.predicted.map((quote, predictedIndex) => ({
+        goldIndex,
+        predictedIndex,
+        overlap: wordOverlap(gold.quote, quote.quote)
+      })))
+      .filter(candidate => candidate.overlap >= QUOTE_MATCH_THRESHOLD)
+      .sort((a, b) => b.overlap - a.overlap);
+
+    const usedGold = new Set<number>();
+    const usedPredicted = new Set<number>();
+
+    for (const candidate of candidates) {
+      if (usedGold.has(candidate.goldIndex) || usedPredicted.has(candidate.predictedIndex)) continue;
+      usedGold.add(candidate.goldIndex);
+      usedPredicted.add(candidate.predictedIndex);
+      matched++;
+
+      if (sameSpeaker(article.expected[candidate.goldIndex].stakeholderName, article.predicted[candidate.predictedIndex].stakeholderName)) {
+        speakerMatched++;
+      }
+    }
+  }
+
+  const precision = ratio(matched, predicted) ?? (expected === 0 ? 1 : 0);
+  const recall = ratio(matched, expected) ?? 1;
+
+  return {
+    expected,
+    predicted,
+    matched,
+    speakerMatched,
+    precision,
+    recall,
+    f1: f1Of(precision, recall) ?? 0
+  };
+};
+
+const words = (text: string): string[] => text
+  .toLowerCase()
+  .replace(/[^\p{L}\p{N}\s]+/gu, ' ')
+  .split(/\s+/)
+  .filter(Boolean);
+
+/**
+ * Share of words in common, relative to the longer quote
+ */
+const wordOverlap = (a: string, b: string): number => {
+  const aWords = words(a);
+  const bWords = words(b);
+  if (aWords.length === 0 || bWords.length === 0) return 0;
+
+  const remaining = new Map<string, number>();
+  aWords.forEach(word => remaining.set(word, (remaining.get(word) || 0) + 1));
+
+  let common = 0;
+  for (const word of bWords) {
+    const count = remaining.get(word) || 0;
+    if (count > 0) {
+      common++;
+      remaining.set(word, count - 1);
+    }
+  }
+
+  return common / Math.max(aWords.length, bWords.length);
+};
+
+/**
+ * Same stakeholder if either name contains the other, so "Smith" matches "Jane Smith"
+ */
+const sameSpeaker = (a: string, b: string): boolean => {
+  const normalisedA = words(a).join(' ');
+  const normalisedB = words(b).join(' ');
+  return normalisedA.length > 0 && normalisedB.length > 0
+    && (normalisedA.includes(normalisedB) || normalisedB.includes(normalisedA));
+};
@@ -0,0 +1,122 @@
+import db from './db';
+import { FinalCodingValues, resolveFinalValues } from './coding';
+
+/** Which coding to export: the AI values, or final values that prefer human overrides */
+export const EXPORT_VALUES = ['gemini', 'final'] as const;
+
+export type ExportValues = typeof EXPORT_VALUES[number];
+
+export interface ProjectExportData {
+  id: string;
+  name: string;
+  description?: string | null;
+  articles: Array<{
+    id: string;
+    title: string;
+    newsOutlet?: string | null;
+    authors: string[];
+    url?: string | null;
+    dateWritten?: Date | null;
+    summaryGemini?: string | null;
+    categoryGemini?: string | null;
+    sentimentGemini?: string | null;
+    mergedFrom?: Array<{ mergedArticleId: string }>; // IDs of duplicates merged into this article
+    finalValues?: FinalCodingValues; // Set when exporting final values
+    quotes: Array<{
+      id: string;
+      stakeholderNameGemini?: string | null;
+      stakeholderAffiliationGemini?: string | null;
+      quoteGemini?: string | null;
+    }>;
+  }>;
+}
+
+/**
+ * Load a project's articles and quotes for export, with final values resolved when asked for
+ * @returns Null if the project doesn't exist
+ */
+export const loadProjectExport = async (projectId: string, values: ExportValues): Promise<ProjectExportData | null> => {
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    include: {
+      articles: {
+        include: {
+          quotes: true,
+          mergedFrom: {
+            select: { mergedArticleId: true }
+          },
+          codings: values === 'final'
+        },
+        orderBy: { dateWritten: 'asc' }
+      }
+    }
+  });
+
+  if (!project) {
+    return null;
+  }
+
+  return {
+    ...project,
+    articles: project.articles.map(article => values === 'final'
+      ? { ...article, finalValues: resolveFinalValues(article) }
+      : article)
+  };
+};
+
+/**
+ * Articles table: header row then one row per article
+ * Final values add each article's review status, the overriding coder and the fields they changed
+ */
+export const buildArticleRows = (projectData: ProjectExportData, values: ExportValues): string[][] => {
+  const exportFinal = values === 'final';
+
+  return [
+    [
+      'ID', 'Title', 'News Outlet', 'Authors', 'URL', 'Date Written', 'Summary', 'Category', 'Sentiment', 'Merged Article IDs',
+      ...(exportFinal ? ['Review Status', 'Overridden By', 'Overridden Fields'] : [])
+    ],
+    ...projectData.articles.map(article => {
+      const final = exportFinal ? article.finalValues : undefined;
+
+      return [
+        article.id,
+        article.title,
+        article.newsOutlet || '',
+        article.authors.join(', '),
+        article.url || '',
+        article.dateWritten?.toISOString() || '',
+        (final ? final.summary : article.summaryGemini) || '',
+        (final ? final.category : article.categoryGemini) || '',
+        (final ? final.sentiment : article.sentimentGemini) || '',
+        (article.mergedFrom || []).map(merge => merge.mergedArticleId).join(', '),
+        ...(exportFinal ? [final?.status || 'unreviewed', final?.coder || '', (final?.overriddenFields || []).join(', ')] : [])
+      ];
+    })
+  ];
+};
+
+/**
+ * Quotes table: header row then one row per quote
+ */
+export const buildQuoteRows = (projectData: ProjectExportData): string[][] => [
+  ['ID', 'Article ID', 'Stakeholder Name', 'Affiliation', 'Quote'],
+  ...projectData.articles.flatMap(article =>
+    article.quotes.map(quote => [
+      quote.id,
+      article.id,
+      quote.stakeholderNameGemini || '',
+      quote.stakeholderAffiliationGemini || '',
+      quote.quoteGemini || ''
+    ])
+  )
+];
+
+/**
+ * Rows as RFC 4180 CSV, quoting fields that contain commas, quotes or line breaks
+ */
+export const toCsv = (rows: string[][]): string => {
+  return rows
+    .map(row => row.map(field => /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field).join(','))
+    .join('\r\n') + '\r\n';
+};
@@ -1,6 +1,15 @@
-import axios from 'axios';
 import db from './db';
-import { GeminiContextCache } from './contextCache';
+import { AnalysisContext, GeminiContextCache } from './contextCache';
+import { getLLMProvider } from './llm';
+import { LLMGenerationSettings, LLMProvider, LLMResponseError, LLMTask } from './llmProviders/base';
+import {
+  ArticleAnalysisResult,
+  QuoteResult,
+  ValidatedOutput,
+  parseModelJson,
+  validateArticleAnalysis,
+  validateQuoteExtraction
+} from './analysisSchema';
 
 interface GeminiAnalysisRequest {
   articles: Array<{
@@ -12,21 +21,50 @@ interface GeminiAnalysisRequest {
   }>;
 }
 
-interface GeminiAnalysisResponse {
-  articles: Array<{
-    id: string;
-    summary: string;
-    category: string;
-    sentiment: 'positive' | 'neutral' | 'negative';
-    translated: boolean;
-    quotes: Array<{
-      stakeholderName: string;
-      stakeholderAffiliation: string;
-      quote: string;
-    }>;
-  }>;
+/** An article whose output was still invalid after the repair prompt */
+export interface OutputFailure {
+  articleId: string;
+  errors: string[];
+  rawOutput: string;
+}
+
+/** Overrides for analysing with something other than the active prompt and provider, e.g. in evaluations */
+export interface AnalysisOptions {
+  context?: AnalysisContext;
+  provider?: LLMProvider;
+}
+
+/** What produced a set of results: the prompt version, category set, model and settings */
+export interface AnalysisProvenanceInfo {
+  task: LLMTask;
+  promptTemplateId: string;
+  promptVersion: number;
+  categorySetHash: string | null; // Article analysis only
+  provider: string;
+  model: string;
+  generationSettings: LLMGenerationSettings;
 }
 
+export interface ArticleAnalysisOutput {
+  articles: ArticleAnalysisResult[];
+  failures: OutputFailure[];
+  provenance: AnalysisProvenanceInfo;
+}
+
+export interface QuoteExtractionOutput {
+  quotes: QuoteResult[];
+  failures: OutputFailure[];
+  provenance: AnalysisProvenanceInfo;
+}
+
+// Sampling settings for analysis and quote extraction, whichever provider is active
+const GENERATION_SETTINGS: LLMGenerationSettings = {
+  temperature: 0.1,
+  topK: 40,
+  topP: 0.95,
+  maxOutputTokens: 16384  // Increased from 8192 to handle larger responses
+};
+
 // Cache configuration
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 const promptCache = new Map<string, { content: string, timestamp: number }>();
@@ -92,19 +130,18 @@ async function loadCategoryDefinitions(): Promise<any[]> {
 }
 
 /**
- * Analyze articles using Gemini API with article analysis prompt
+ * Analyze articles with the configured LLM provider using the article analysis prompt
  * @param articles Array of articles to analyze (max configurable via GEMINI_BATCH_SIZE, default 10)
- * @returns Analysis results with summaries, categories, sentiment
+ * @param options Context and provider to use instead of the active prompt and configured provider
+ * @returns Validated analysis results with summaries, categories, sentiment, and the articles that failed validation
  */
-export const analyzeArticles = async (articles: GeminiAnalysisRequest['articles']): Promise<any> => {
-  const apiKey = process.env.GEMINI_API_KEY;
+export const analyzeArticles = async (
+  articles: GeminiAnalysisRequest['articles'],
+  options: AnalysisOptions = {}
+): Promise<ArticleAnalysisOutput> => {
   const timeoutMs = parseInt(process.env.GEMINI_TIMEOUT_MS || '300000'); // Default 5 minutes
   const batchSize = parseInt(process.env.GEMINI_BATCH_SIZE || '3'); // Default 3 articles per batch (reduced to prevent token limit issues)
   
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY environment variable is required');
-  }
-
   if (articles.length > batchSize) {
     throw new Error(`Maximum ${batchSize} articles can be analyzed per request`);
   }
@@ -113,12 +150,15 @@ export const analyzeArticles = async (articles: GeminiAnalysisRequest['articles'
     throw new Error('At least one article is required for analysis');
   }
 
-  console.log(`⏳ Starting Gemini article analysis at ${new Date().toISOString()}`);
+  const provider = options.provider || await getLLMProvider();
+  const articleIds = articles.map(article => article.id);
+
+  console.log(`⏳ Starting ${provider.name} (${provider.model}) article analysis at ${new Date().toISOString()}`);
   console.log(`📊 Processing ${articles.length} article${articles.length > 1 ? 's' : ''} - this may take 3-5 minutes`);
   console.log(`⏱️  Timeout configured: ${timeoutMs / 1000} seconds`);
 
   // Get cached context for article analysis (system prompt + categories)
-  const cachedContent = await GeminiContextCache.getArticleAnalysisContext();
+  const context = options.context || await GeminiContextCache.getArticleAnalysisContext();
   
   // Create number range for output
   const numberRange = `1-${articles.length}`;
@@ -139,96 +179,37 @@ Number Range: ${numberRange}
 
 RESPOND WITH JSON ONLY - NO EXPLANATIONS OR COMMENTARY`;
 
-  try {
-    const response = await axios.post(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${apiKey}`,
-      {
-        contents: [
-          {
-            parts: [
-              {
-                text: `${cachedContent}\n\n${userPrompt}`
-              }
-            ]
-          }
-        ],
-        generationConfig: {
-          temperature: 0.1,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 16384,  // Increased from 8192 to handle larger responses
-        }
-      },
-      {
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        timeout: timeoutMs
-      }
-    );
-
-    console.log(`✅ Gemini article analysis completed at ${new Date().toISOString()}`);
-
-    const generatedText = response.data.candidates?.[0]?.content?.parts?.[0]?.text;
-    
-    if (!generatedText) {
-      throw new Error('No content generated by Gemini');
-    }
+  const categoryNames = (await loadCategoryDefinitions()).map(category => category.category);
 
-    // Parse the JSON response - handle markdown code blocks
-    let jsonText = generatedText;
-    
-    // Remove markdown code blocks if present
-    if (jsonText.includes('```json')) {
-      const jsonMatch = jsonText.match(/```json\s*([\s\S]*?)\s*```/);
-      if (jsonMatch) {
-        jsonText = jsonMatch[1];
-      }
-    } else if (jsonText.includes('```')) {
-      const jsonMatch = jsonText.match(/```\s*([\s\S]*?)\s*```/);
-      if (jsonMatch) {
-        jsonText = jsonMatch[1];
-      }
-    }
-    
-    // Clean up any remaining markdown artifacts
-    jsonText = jsonText.trim();
-    
-    const analysisResult = JSON.parse(jsonText);
-    
-    // Validate the response structure
-    if (!analysisResult.articles || !Array.isArray(analysisResult.articles)) {
-      throw new Error('Invalid response format from Gemini');
-    }
+  const { items, failures } = await generateValidated(
+    provider,
+    'article-analysis',
+    context.content,
+    userPrompt,
+    timeoutMs,
+    output => validateArticleAnalysis(output, articleIds, categoryNames),
+    item => item['1_id'],
+    articleIds
+  );
 
-    console.log(`📈 Successfully parsed ${analysisResult.articles.length} article analysis results`);
+  console.log(`📈 ${items.length} article analysis results passed validation, ${failures.length} failed`);
 
-    return analysisResult;
-  } catch (error: any) {
-    if (axios.isAxiosError(error)) {
-      throw new Error(`Gemini API request failed: ${error.response?.data?.error?.message || error.message}`);
-    }
-    if (error instanceof SyntaxError) {
-      throw new Error(`Failed to parse Gemini response as JSON: ${error.message}`);
-    }
-    throw error;
-  }
+  return { articles: items, failures, provenance: describeProvenance('article-analysis', context, provider) };
 };
 
 /**
- * Extract quotes from articles using Gemini API with quote analysis prompt
+ * Extract quotes from articles with the configured LLM provider using the quote analysis prompt
  * @param articles Array of articles to analyze (max configurable via GEMINI_BATCH_SIZE, default 10)
- * @returns Quote extraction results
+ * @param options Context and provider to use instead of the active prompt and configured provider
+ * @returns Validated quotes, and the articles whose quotes failed validation
  */
-export const extractQuotes = async (articles: GeminiAnalysisRequest['articles']): Promise<any> => {
-  const apiKey = process.env.GEMINI_API_KEY;
+export const extractQuotes = async (
+  articles: GeminiAnalysisRequest['articles'],
+  options: AnalysisOptions = {}
+): Promise<QuoteExtractionOutput> => {
   const timeoutMs = parseInt(process.env.GEMINI_TIMEOUT_MS || '300000'); // Default 5 minutes
   const batchSize = parseInt(process.env.GEMINI_BATCH_SIZE || '3'); // Default 3 articles per batch (reduced to prevent token limit issues)
   
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY environment variable is required');
-  }
-
   if (articles.length > batchSize) {
     throw new Error(`Maximum ${batchSize} articles can be analyzed per request`);
   }
@@ -237,12 +218,15 @@ export const extractQuotes = async (articles: GeminiAnalysisRequest['articles'])
     throw new Error('At least one article is required for analysis');
   }
 
-  console.log(`⏳ Starting Gemini quote extraction at ${new Date().toISOString()}`);
+  const provider = options.provider || await getLLMProvider();
+  const articleIds = articles.map(article => article.id);
+
+  console.log(`⏳ Starting ${provider.name} (${provider.model}) quote extraction at ${new Date().toISOString()}`);
   console.log(`📊 Processing ${articles.length} article${articles.length > 1 ? 's' : ''} for quotes - this may take 3-5 minutes`);
   console.log(`⏱️  Timeout configured: ${timeoutMs / 1000} seconds`);
 
   // Get cached context for quote analysis (system prompt)
-  const cachedContent = await GeminiContextCache.getQuoteAnalysisContext();
+  const context = options.context || await GeminiContextCache.getQuoteAnalysisContext();
   
   // Create number range for output
   const numberRange = `1-${articles.length}`;
@@ -262,130 +246,121 @@ Number Range: ${numberRange}
 
 RESPOND WITH JSON ONLY - NO EXPLANATIONS OR COMMENTARY`;
 
-  try {
-    const response = await axios.post(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${apiKey}`,
-      {
-        contents: [
-          {
-            parts: [
-              {
-                text: `${cachedContent}\n\n${userPrompt}`
-              }
-            ]
-          }
-        ],
-        generationConfig: {
-          temperature: 0.1,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 16384,  // Increased from 8192 to handle larger responses
-        }
-      },
-      {
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        timeout: timeoutMs
-      }
-    );
-
-    console.log(`✅ Gemini quote extraction completed at ${new Date().toISOString()}`);
-
-    const generatedText = response.data.candidates?.[0]?.content?.parts?.[0]?.text;
-    
-    if (!generatedText) {
-      throw new Error('No content generated by Gemini');
-    }
+  const { items, failures } = await generateValidated(
+    provider,
+    'quote-analysis',
+    context.content,
+    userPrompt,
+    timeoutMs,
+    output => validateQuoteExtraction(output, articleIds),
+    item => item['1_articleId'],
+    articleIds
+  );
 
-    // Parse the JSON response - handle markdown code blocks and malformed JSON
-    let jsonText = generatedText;
-    
-    console.log('🔍 Raw Gemini response (first 200 chars):', jsonText.substring(0, 200));
-    console.log('📏 Full response length:', jsonText.length, 'characters');
-    
-    // Remove markdown code blocks if present - improved regex
-    if (jsonText.includes('```json')) {
-      const jsonMatch = jsonText.match(/```json\s*([\s\S]*?)\s*```/);
-      if (jsonMatch) {
-        jsonText = jsonMatch[1];
-        console.log('📝 Extracted JSON from markdown code block');
-      }
-    } else if (jsonText.includes('```')) {
-      const jsonMatch = jsonText.match(/```\s*([\s\S]*?)\s*```/);
-      if (jsonMatch) {
-        jsonText = jsonMatch[1];
-        console.log('📝 Extracted JSON from generic code block');
-      }
-    }
-    
-    // Additional cleanup for any remaining markdown artifacts
-    jsonText = jsonText.replace(/^```json\s*/gm, '').replace(/\s*```$/gm, '');
-    jsonText = jsonText.trim();
-    
-    console.log('🔍 Processed JSON (first 200 chars):', jsonText.substring(0, 200));
-    console.log('📏 Processed JSON length:', jsonText.length, 'characters');
-    console.log('🔍 Processed JSON (last 200 chars):', jsonText.substring(Math.max(0, jsonText.length - 200)));
-    
-    // Enhanced JSON parsing with fallback for malformed responses
-    let analysisResult;
+  console.log(`💬 ${items.length} quotes passed validation, ${failures.length} articles failed`);
+
+  return { quotes: items, failures, provenance: describeProvenance('quote-analysis', context, provider) };
+};
+
+/**
+ * Send a prompt (after the shared context) and validate the output; if any article's output is invalid, send one repair
+ * prompt listing the problems and take the corrected output for those articles
+ * Articles still invalid after the repair are returned as failures with both raw responses
+ * @throws LLMResponseError if neither response could be parsed as JSON
+ */
+async function generateValidated<T>(
+  provider: LLMProvider,
+  task: LLMTask,
+  context: string,
+  prompt: string,
+  timeoutMs: number,
+  validate: (output: any) => ValidatedOutput<T>,
+  articleIdOf: (item: T) => string,
+  articleIds: string[]
+): Promise<{ items: T[]; failures: OutputFailure[] }> {
+  const validateText = (text: string): { result: ValidatedOutput<T>; parseError?: string } => {
     try {
-      analysisResult = JSON.parse(jsonText);
-    } catch (parseError: any) {
-      console.log(`⚠️  JSON parsing failed, attempting to fix malformed JSON: ${parseError.message}`);
-      
-      // Try to fix common JSON issues
-      let fixedJson = jsonText;
-      
-      // Fix unescaped quotes in quote fields
-      fixedJson = fixedJson.replace(/"4_quote":\s*"([^"]*(?:"[^"]*)*[^"]*?)"/g, (match: string, quoteContent: string) => {
-        // Escape quotes and other special characters in quote content
-        const escapedQuote = quoteContent
-          .replace(/\\/g, '\\\\')  // Escape backslashes first
-          .replace(/"/g, '\\"')    // Escape quotes
-          .replace(/\n/g, '\\n')   // Escape newlines
-          .replace(/\r/g, '\\r')   // Escape carriage returns
-          .replace(/\t/g, '\\t');  // Escape tabs
-        return `"4_quote": "${escapedQuote}"`;
-      });
-      
-      // Fix trailing commas
-      fixedJson = fixedJson.replace(/,(\s*[}\]])/g, '$1');
-      
-      // Fix missing commas between objects
-      fixedJson = fixedJson.replace(/}\s*{/g, '},{');
-      
-      try {
-        analysisResult = JSON.parse(fixedJson);
-        console.log(`✅ Successfully fixed and parsed malformed JSON`);
-      } catch (secondError) {
-        console.log(`❌ Failed to fix JSON after attempts: ${secondError}`);
-        console.log(`🔍 Original JSON (first 500 chars): ${jsonText.substring(0, 500)}`);
-        throw new Error(`Failed to parse Gemini response as JSON: ${parseError.message}`);
-      }
-    }
-    
-    // Validate the response structure
-    if (!analysisResult.quotes || !Array.isArray(analysisResult.quotes)) {
-      throw new Error('Invalid response format from Gemini');
+      return { result: validate(parseModelJson(text)) };
+    } catch (error: any) {
+      if (!(error instanceof SyntaxError)) throw error;
+      const parseError = `Response is not valid JSON: ${error.message}`;
+      return {
+        result: { items: [], errors: Object.fromEntries(articleIds.map(id => [id, [parseError]])), ignored: [] },
+        parseError
+      };
     }
+  };
 
-    console.log(`💬 Successfully extracted ${analysisResult.quotes.length} quotes`);
+  const generatedText = await provider.generate({ task, context, prompt, settings: GENERATION_SETTINGS, timeoutMs });
+  console.log(`✅ ${provider.name} ${task} completed at ${new Date().toISOString()}`);
 
-    return analysisResult;
-  } catch (error: any) {
-    if (axios.isAxiosError(error)) {
-      throw new Error(`Gemini API request failed: ${error.response?.data?.error?.message || error.message}`);
-    }
-    if (error instanceof SyntaxError) {
-      throw new Error(`Failed to parse Gemini response as JSON: ${error.message}`);
-    }
-    throw error;
+  const first = validateText(generatedText);
+  const invalidIds = Object.keys(first.result.errors);
+
+  if (invalidIds.length === 0) {
+    return { items: first.result.items, failures: [] };
   }
-};
+
+  const problems = [
+    ...Object.entries(first.result.errors).flatMap(([articleId, errors]) => errors.map(error => `- Article ${articleId}: ${error}`)),
+    ...first.result.ignored.map(problem => `- ${problem}`)
+  ];
+
+  console.log(`🔧 ${invalidIds.length} articles failed validation, sending repair prompt:\n${problems.join('\n')}`);
+
+  const repairPrompt = `${prompt}
+
+Your previous response was:
+${generatedText}
+
+It was rejected because of these problems:
+${problems.join('\n')}
+
+Correct them and send the complete response again for every article.
+
+RESPOND WITH JSON ONLY - NO EXPLANATIONS OR COMMENTARY`;
+
+  const repairedText = await provider.generate({ task, context, prompt: repairPrompt, settings: GENERATION_SETTINGS, timeoutMs });
+  const repaired = validateText(repairedText);
+
+  if (first.parseError && repaired.parseError) {
+    throw new LLMResponseError(`Failed to parse ${provider.name} response as JSON: ${repaired.parseError}`, `${generatedText}\n\n--- repair response ---\n${repairedText}`);
+  }
+
+  // Keep what was valid first time; take the repair only for the articles that needed it
+  const items = [
+    ...first.result.items.filter(item => !invalidIds.includes(articleIdOf(item))),
+    ...repaired.result.items.filter(item => invalidIds.includes(articleIdOf(item)) && !repaired.result.errors[articleIdOf(item)])
+  ];
+
+  const failures = invalidIds
+    .filter(articleId => repaired.result.errors[articleId])
+    .map(articleId => ({
+      articleId,
+      errors: repaired.result.errors[articleId],
+      rawOutput: `${generatedText}\n\n--- repair response ---\n${repairedText}`
+    }));
+
+  return { items, failures };
+}
+
+/**
+ * The provenance of results generated from a context by a provider
+ */
+function describeProvenance(task: LLMTask, context: AnalysisContext, provider: LLMProvider): AnalysisProvenanceInfo {
+  return {
+    task,
+    promptTemplateId: context.promptTemplateId,
+    promptVersion: context.promptVersion,
+    categorySetHash: context.categorySetHash,
+    provider: provider.name,
+    model: provider.model,
+    generationSettings: GENERATION_SETTINGS
+  };
+}
 
 /**
- * Test Gemini API connection
+ * Test the configured LLM provider connection
  * @returns True if connection is successful
  */
 export const testGeminiConnection = async (): Promise<boolean> => {
@@ -1,6 +1,7 @@
-import { ImportSessionManager, ImportSessionConfig } from './importSession';
+import { ImportSessionManager, ImportSessionConfig, DirectImportConfig, PendingImportArticle, DirectImportResult, ImportRollbackResult } from './importSession';
 import { SearchSource } from '@prisma/client';
 import db from './db';
+import { parseBooleanQuery, validateBooleanQuery, isJSONQuery, KeywordLocation } from './booleanQuery';
 
 export interface ImportRequest {
   projectId: string;
@@ -10,6 +11,7 @@ export interface ImportRequest {
   endDate: string;
   useBooleanQuery?: boolean;
   booleanQuery?: string;
+  keywordLoc?: KeywordLocation;
   articleLimit?: number;
 }
 
@@ -17,6 +19,7 @@ export interface ImportPreview {
   estimatedArticles: number;
   sources: SearchSource[];
   searchTerms: string[];
+  compiledQuery?: any; // NewsAPI.ai condition the boolean search string translates to
   dateRange: {
     start: string;
     end: string;
@@ -59,10 +62,16 @@ export class ImportService {
       // This is a simplified version - in production you might want to cache this
       const estimatedArticles = await this.estimateArticleCount(request);
 
+      // Show how a boolean search string will be sent so it can be checked before importing
+      const compiledQuery = request.useBooleanQuery && request.booleanQuery && !isJSONQuery(request.booleanQuery)
+        ? parseBooleanQuery(request.booleanQuery, request.keywordLoc)
+        : undefined;
+
       return {
         estimatedArticles,
         sources,
         searchTerms: request.searchTerms,
+        compiledQuery,
         dateRange: {
           start: request.startDate,
           end: request.endDate
@@ -98,6 +107,7 @@ export class ImportService {
         endDate: request.endDate,
         useBooleanQuery: request.useBooleanQuery,
         booleanQuery: request.booleanQuery,
+        keywordLoc: request.keywordLoc,
         articleLimit: request.articleLimit
       };
 
@@ -121,6 +131,13 @@ export class ImportService {
     }
   }
 
+  /**
+   * Save uploaded or manually entered articles as a tracked import session
+   */
+  async runDirectImport(config: DirectImportConfig, articles: PendingImportArticle[]): Promise<DirectImportResult> {
+    return await this.sessionManager.runDirectImport(config, articles);
+  }
+
   /**
    * Get import session status
    */
@@ -142,6 +159,20 @@ export class ImportService {
     return await this.sessionManager.cancelSession(sessionId);
   }
 
+  /**
+   * Resume a failed or cancelled NewsAPI import session
+   */
+  async resumeSession(sessionId: string) {
+    return await this.sessionManager.resumeSession(sessionId);
+  }
+
+  /**
+   * Roll back an import session, deleting the articles it created
+   */
+  async rollbackSession(sessionId: string, force: boolean = false): Promise<ImportRollbackResult> {
+    return await this.sessionManager.rollbackSession(sessionId, force);
+  }
+
   /**
    * Get import statistics for a project
    */
@@ -271,6 +302,15 @@ export class ImportService {
 
     if (request.useBooleanQuery && !request.booleanQuery) {
       errors.push('Boolean query is required when useBooleanQuery is true');
+    } else if (request.useBooleanQuery && request.booleanQuery && !isJSONQuery(request.booleanQuery)) {
+      const queryValidation = validateBooleanQuery(request.booleanQuery);
+      queryValidation.errors.forEach(error => {
+        errors.push(`Boolean query: ${error.message} (at position ${error.position})`);
+      });
+    }
+
+    if (request.keywordLoc && !['body', 'title', 'title,body'].includes(request.keywordLoc)) {
+      errors.push('keywordLoc must be one of: body, title, title,body');
     }
 
     return {
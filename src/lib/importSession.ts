@@ -1,5 +1,9 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { NewsAPIClient, NewsAPIArticle } from './newsapi';
+import { KeywordLocation } from './booleanQuery';
+import { NearDuplicateDetector, NearDuplicateMatch } from './nearDuplicates';
+import { StoryGrouper } from './storyGrouping';
+import { AppError } from '../utils/errorHandler';
 
 const db = new PrismaClient();
 
@@ -11,26 +15,95 @@ export interface ImportSessionConfig {
   endDate: string;
   useBooleanQuery?: boolean;
   booleanQuery?: string;
+  keywordLoc?: KeywordLocation;
   articleLimit?: number;
+  savedSearchId?: string;
 }
 
 export interface ImportSessionResult {
   sessionId: string;
   articlesFound: number;
   articlesImported: number;
-  status: 'running' | 'completed' | 'failed';
+  totalResults?: number; // What NewsAPI.ai reported matching the search; more than articlesFound when a limit cut it short
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
   error?: string;
 }
 
+/**
+ * Where an interrupted NewsAPI session left off
+ */
+interface ImportResumePoint {
+  lastCompletedPage: number;
+  cursor: string | null; // URI of the last article handled on the partially processed page
+  articlesFound: number;
+  articlesImported: number;
+}
+
+export type ImportItemOutcome = 'imported' | 'duplicate' | 'failed';
+
+export interface ImportItemResult {
+  position: number;
+  title: string;
+  outcome: ImportItemOutcome;
+  reason?: string;
+  articleId?: string;
+}
+
+/**
+ * An import that runs inside the request rather than against NewsAPI
+ */
+export interface DirectImportConfig {
+  projectId: string;
+  inputMethod: 'pdf' | 'csv' | 'manual';
+  fileName?: string;
+}
+
+/**
+ * One article waiting to be saved by a direct import
+ * Items that already failed validation carry their errors and are recorded without saving
+ */
+export interface PendingImportArticle {
+  position: number;
+  title: string;
+  data?: any; // Article create data without projectId / importSessionId
+  errors?: string[];
+}
+
+export interface DirectImportResult {
+  sessionId: string;
+  imported: number;
+  duplicates: number;
+  failed: number;
+  articleIds: string[];
+  items: ImportItemResult[];
+}
+
+export interface ImportRollbackResult {
+  rolledBack: boolean;
+  articlesDeleted: number;
+  quotesDeleted: number;
+  analysisJobsDeleted: number;
+  // Articles that were analysed or edited by hand - these block a rollback unless forced
+  protectedArticles: Array<{ id: string; title: string; analysedAt: Date | null; editedAt: Date | null }>;
+}
+
 export class ImportSessionManager {
+  // Sessions with a processing loop in this process - guards against resuming a session that is still stopping
+  private static activeSessions: Set<string> = new Set();
+
+  private duplicateDetector: NearDuplicateDetector;
+  private storyGrouper: StoryGrouper;
+
   constructor() {
     // NewsAPIClient will be created fresh for each import session
+    this.duplicateDetector = new NearDuplicateDetector();
+    this.storyGrouper = new StoryGrouper();
   }
 
   /**
    * Create a new import session and start the import process
    */
-  async startImportSession(config: ImportSessionConfig): Promise<ImportSessionResult> {
+  async startImportSession(config: ImportSessionConfig, runInBackground: boolean = true): Promise<ImportSessionResult> {
     try {
       // Validate project exists
       const project = await db.project.findUnique({
@@ -51,17 +124,18 @@ export class ImportSessionManager {
           endDate: new Date(config.endDate),
           articlesFound: 0,
           articlesImported: 0,
-          status: 'running'
+          status: 'running',
+          requestConfig: config as unknown as Prisma.InputJsonValue,
+          savedSearchId: config.savedSearchId || null
         }
       });
 
       console.log(`Created import session ${session.id} for project ${config.projectId}`);
 
       // Start the import process asynchronously
-      this.processImportSession(session.id, config).catch(error => {
-        console.error(`Import session ${session.id} failed:`, error);
-        this.updateSessionStatus(session.id, 'failed', error.message);
-      });
+      if (runInBackground) {
+        this.runInBackground(session.id, config);
+      }
 
       return {
         sessionId: session.id,
@@ -76,10 +150,108 @@ export class ImportSessionManager {
     }
   }
 
+  /**
+   * Resume a failed or cancelled NewsAPI session from the last completed page
+   */
+  async resumeSession(sessionId: string): Promise<ImportSessionResult> {
+    const session = await db.importSession.findUnique({
+      where: { id: sessionId }
+    });
+
+    if (!session) {
+      throw new Error(`Import session ${sessionId} not found`);
+    }
+
+    if (session.inputMethod !== 'newsapi' || !session.requestConfig) {
+      throw new Error(`Session ${sessionId} cannot be resumed - only NewsAPI sessions store their search`);
+    }
+
+    if (session.status !== 'failed' && session.status !== 'cancelled') {
+      throw new Error(`Cannot resume session ${sessionId} - status is ${session.status}`);
+    }
+
+    if (ImportSessionManager.activeSessions.has(sessionId)) {
+      throw new Error(`Session ${sessionId} is still stopping - try again shortly`);
+    }
+
+    await db.importSession.update({
+      where: { id: sessionId },
+      data: { status: 'running', completedAt: null, errorMessage: null }
+    });
+
+    console.log(`Resuming import session ${sessionId} after page ${session.lastCompletedPage}`);
+
+    this.runInBackground(sessionId, session.requestConfig as unknown as ImportSessionConfig, {
+      lastCompletedPage: session.lastCompletedPage,
+      cursor: session.cursor,
+      articlesFound: session.articlesFound,
+      articlesImported: session.articlesImported
+    });
+
+    return {
+      sessionId,
+      articlesFound: session.articlesFound,
+      articlesImported: session.articlesImported,
+      status: 'running'
+    };
+  }
+
+  /**
+   * Create an import session and wait for it to finish
+   * Used by the saved search scheduler, which needs the outcome before moving to the next window
+   */
+  async runImportSession(config: ImportSessionConfig): Promise<ImportSessionResult> {
+    const { sessionId } = await this.startImportSession(config, false);
+    await this.execute(sessionId, config);
+
+    const session = await db.importSession.findUnique({
+      where: { id: sessionId }
+    });
+
+    return {
+      sessionId,
+      articlesFound: session?.articlesFound || 0,
+      articlesImported: session?.articlesImported || 0,
+      totalResults: session?.totalResults ?? undefined,
+      status: (session?.status || 'failed') as ImportSessionResult['status'],
+      error: session?.errorMessage || undefined
+    };
+  }
+
+  /**
+   * Start processing without blocking the caller
+   */
+  private runInBackground(sessionId: string, config: ImportSessionConfig, resumeFrom?: ImportResumePoint): void {
+    this.execute(sessionId, config, resumeFrom).catch(error => {
+      console.error(`Import session ${sessionId} could not record its failure:`, error);
+    });
+  }
+
+  /**
+   * Process a session, recording any failure on the session itself
+   */
+  private async execute(sessionId: string, config: ImportSessionConfig, resumeFrom?: ImportResumePoint): Promise<void> {
+    ImportSessionManager.activeSessions.add(sessionId);
+
+    try {
+      await this.processImportSession(sessionId, config, resumeFrom);
+    } catch (error: any) {
+      console.error(`Import session ${sessionId} failed:`, error);
+      await this.updateSessionStatus(sessionId, 'failed', error.message);
+    } finally {
+      ImportSessionManager.activeSessions.delete(sessionId);
+    }
+  }
+
   /**
    * Process the import session (fetch and save articles)
+   * Each page is saved as soon as it is fetched so progress survives a cancel or failure
    */
-  private async processImportSession(sessionId: string, config: ImportSessionConfig): Promise<void> {
+  private async processImportSession(
+    sessionId: string,
+    config: ImportSessionConfig,
+    resumeFrom?: ImportResumePoint
+  ): Promise<void> {
     try {
       console.log(`Starting import process for session ${sessionId}`);
       console.log('ImportSessionConfig:', {
@@ -122,39 +294,53 @@ export class ImportSessionManager {
         startDate: config.startDate,
         endDate: config.endDate,
         useBooleanQuery: config.useBooleanQuery,
-        booleanQuery: config.booleanQuery
+        booleanQuery: config.booleanQuery,
+        keywordLoc: config.keywordLoc
       });
 
-      // Fetch articles from NewsAPI.ai
-      console.log('Fetching articles from NewsAPI.ai...');
-      const articles = await newsapiClient.fetchArticles(request);
-      
-      console.log(`Found ${articles.length} articles from NewsAPI.ai`);
+      const progress: ImportResumePoint = resumeFrom || {
+        lastCompletedPage: 0,
+        cursor: null,
+        articlesFound: 0,
+        articlesImported: 0
+      };
 
-      // Update session with articles found count
-      await this.updateSessionArticlesFound(sessionId, articles.length);
+      // Fetch and save articles from NewsAPI.ai page by page
+      console.log('Fetching articles from NewsAPI.ai...');
+      await newsapiClient.fetchArticles(request, {
+        startPage: progress.lastCompletedPage + 1,
+        alreadyFetched: progress.articlesFound,
+        shouldStop: () => this.isStopped(sessionId),
+        onPage: async (page, articles, totalResults) => {
+          await this.savePage(sessionId, config.projectId, page, articles, totalResults, newsapiClient, progress);
+        }
+      });
 
-      if (articles.length === 0) {
-        console.log('No articles found, completing session');
-        await this.updateSessionStatus(sessionId, 'completed');
+      if (await this.isStopped(sessionId)) {
+        console.log(`Import session ${sessionId} stopped after page ${progress.lastCompletedPage} (${progress.articlesImported} imported)`);
         return;
       }
 
-      // Format articles for database
-      const formattedArticles = newsapiClient.formatArticlesForDatabase(articles);
-
-      // Save articles to database
-      console.log('Saving articles to database...');
-      const savedArticles = await this.saveArticlesToDatabase(sessionId, config.projectId, formattedArticles);
+      console.log(`Successfully imported ${progress.articlesImported} of ${progress.articlesFound} articles`);
 
-      console.log(`Successfully imported ${savedArticles.length} articles`);
-
-      // Update session with final counts
-      await this.updateSessionArticlesImported(sessionId, savedArticles.length);
-      await this.updateSessionStatus(sessionId, 'completed');
+      if (!await this.updateSessionStatus(sessionId, 'completed')) {
+        console.log(`Import session ${sessionId} was stopped before it could complete`);
+        return;
+      }
 
       console.log(`Import session ${sessionId} completed successfully`);
 
+      // New articles may extend existing stories or link previously separate ones
+      try {
+        const imported = await db.article.findMany({
+          where: { importSessionId: sessionId },
+          select: { id: true }
+        });
+        await this.storyGrouper.groupNewArticles(config.projectId, imported.map(article => article.id));
+      } catch (groupingError: any) {
+        console.error(`Failed to group stories for project ${config.projectId}:`, groupingError.message);
+      }
+
     } catch (error: any) {
       console.error(`Import session ${sessionId} failed:`, error);
       await this.updateSessionStatus(sessionId, 'failed', error.message);
@@ -163,62 +349,247 @@ export class ImportSessionManager {
   }
 
   /**
-   * Save articles to database with import session tracking
+   * Run a PDF, CSV or manual import as a tracked session
+   * Articles are saved immediately and every item gets an outcome row
    */
-  private async saveArticlesToDatabase(
-    sessionId: string, 
-    projectId: string, 
-    articles: any[]
-  ): Promise<any[]> {
-    const savedArticles = [];
+  async runDirectImport(config: DirectImportConfig, articles: PendingImportArticle[]): Promise<DirectImportResult> {
+    const session = await db.importSession.create({
+      data: {
+        projectId: config.projectId,
+        inputMethod: config.inputMethod,
+        fileName: config.fileName || null,
+        articlesFound: articles.length,
+        articlesImported: 0,
+        status: 'running'
+      }
+    });
 
-    for (const article of articles) {
-      try {
-        // Check if article already exists (by URL or title)
-        const existingArticle = await db.article.findFirst({
-          where: {
-            projectId: projectId,
-            OR: [
-              { url: article.url },
-              { title: article.title }
-            ]
-          }
-        });
+    console.log(`Created ${config.inputMethod} import session ${session.id} for project ${config.projectId}`);
+
+    const items: ImportItemResult[] = [];
 
-        if (existingArticle) {
-          console.log(`Article already exists: ${article.title}`);
+    try {
+      for (const article of articles) {
+        if (article.errors && article.errors.length > 0) {
+          items.push(await this.recordItem(session.id, {
+            position: article.position,
+            title: article.title,
+            outcome: 'failed',
+            reason: article.errors.join('; ')
+          }));
           continue;
         }
 
-        // Create new article with import session reference
-        const savedArticle = await db.article.create({
-          data: {
-            ...article,
-            projectId: projectId,
-            importSessionId: sessionId
-          }
-        });
+        items.push(await this.saveArticle(session.id, config.projectId, article.position, article.data));
+      }
+
+      const imported = items.filter(item => item.outcome === 'imported');
+      await this.updateSessionArticlesImported(session.id, imported.length);
+      await this.updateSessionStatus(session.id, 'completed');
+
+      console.log(`Import session ${session.id} completed: ${imported.length} of ${articles.length} imported`);
+
+      return {
+        sessionId: session.id,
+        imported: imported.length,
+        duplicates: items.filter(item => item.outcome === 'duplicate').length,
+        failed: items.filter(item => item.outcome === 'failed').length,
+        articleIds: imported.map(item => item.articleId as string),
+        items
+      };
+
+    } catch (error: any) {
+      console.error(`Import session ${session.id} failed:`, error);
+      await this.updateSessionStatus(session.id, 'failed', error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Save one fetched page, recording progress after every article
+   * On a resumed page, articles up to and including the stored cursor are skipped
+   */
+  private async savePage(
+    sessionId: string,
+    projectId: string,
+    page: number,
+    articles: NewsAPIArticle[],
+    totalResults: number,
+    newsapiClient: NewsAPIClient,
+    progress: ImportResumePoint
+  ): Promise<void> {
+    const formattedArticles = newsapiClient.formatArticlesForDatabase(articles);
+    const cursorIndex = progress.cursor ? articles.findIndex(article => article.uri === progress.cursor) : -1;
 
-        savedArticles.push(savedArticle);
-        console.log(`Saved article: ${savedArticle.title}`);
+    if (cursorIndex !== -1) {
+      console.log(`Skipping ${cursorIndex + 1} articles on page ${page} handled before the interruption`);
+    }
+
+    for (let i = cursorIndex + 1; i < formattedArticles.length; i++) {
+      if (await this.isStopped(sessionId)) {
+        console.log(`Import session ${sessionId} stopped mid-page ${page}`);
+        return;
+      }
 
-      } catch (error: any) {
-        console.error(`Failed to save article "${article.title}":`, error);
-        // Continue with other articles even if one fails
+      const result = await this.saveArticle(sessionId, projectId, progress.articlesFound + i + 1, formattedArticles[i]);
+      if (result.outcome === 'imported') {
+        progress.articlesImported++;
       }
+      progress.cursor = articles[i].uri;
+
+      await db.importSession.update({
+        where: { id: sessionId },
+        data: { articlesImported: progress.articlesImported, cursor: progress.cursor }
+      });
     }
 
-    return savedArticles;
+    // Page finished - only now does it count as found, so a resumed page is never counted twice
+    progress.lastCompletedPage = page;
+    progress.articlesFound += articles.length;
+    progress.cursor = null;
+
+    await db.importSession.update({
+      where: { id: sessionId },
+      data: {
+        lastCompletedPage: page,
+        cursor: null,
+        articlesFound: progress.articlesFound,
+        totalResults
+      }
+    });
   }
 
   /**
-   * Update session articles found count
+   * Whether a session has been cancelled (or otherwise taken out of 'running') since it started
    */
-  private async updateSessionArticlesFound(sessionId: string, count: number): Promise<void> {
-    await db.importSession.update({
+  private async isStopped(sessionId: string): Promise<boolean> {
+    const session = await db.importSession.findUnique({
       where: { id: sessionId },
-      data: { articlesFound: count }
+      select: { status: true }
     });
+
+    return !session || session.status !== 'running';
+  }
+
+  /**
+   * Save a single article unless it already exists, and record the outcome
+   * A title match alone still imports the article, flagged as a possible duplicate
+   */
+  private async saveArticle(
+    sessionId: string,
+    projectId: string,
+    position: number,
+    article: any
+  ): Promise<ImportItemResult> {
+    try {
+      // The same URL, or the same title from the same outlet on the same day, is the article we already have
+      const existingArticle = await this.findExistingArticle(projectId, article);
+
+      if (existingArticle) {
+        console.log(`Article already exists: ${article.title}`);
+        return await this.recordItem(sessionId, {
+          position,
+          title: article.title,
+          outcome: 'duplicate',
+          reason: article.url && existingArticle.url === article.url ? 'Same URL already in project' : 'Same title, outlet and date already in project',
+          articleId: existingArticle.id
+        });
+      }
+
+      // A title alone isn't enough - different outlets reuse headlines - so the article is kept and flagged
+      const sameTitle = await db.article.findFirst({
+        where: { projectId: projectId, title: article.title },
+        select: { id: true }
+      });
+
+      // Create new article with import session reference
+      const savedArticle = await db.article.create({
+        data: {
+          ...article,
+          projectId: projectId,
+          importSessionId: sessionId
+        }
+      });
+
+      console.log(`Saved article: ${savedArticle.title}`);
+
+      // Near-duplicates (e.g. reworded wire copy) are kept but joined to a cluster
+      let nearDuplicate: NearDuplicateMatch | null = null;
+      try {
+        nearDuplicate = await this.duplicateDetector.fingerprintArticle(savedArticle.id);
+      } catch (fingerprintError: any) {
+        console.error(`Failed to fingerprint article ${savedArticle.id}:`, fingerprintError.message);
+      }
+
+      return await this.recordItem(sessionId, {
+        position,
+        title: savedArticle.title,
+        outcome: 'imported',
+        reason: [
+          sameTitle ? `Possible duplicate of article ${sameTitle.id} (same title)` : null,
+          nearDuplicate ? `Near-duplicate of article ${nearDuplicate.canonicalArticleId}` : null
+        ].filter(Boolean).join('; ') || undefined,
+        articleId: savedArticle.id
+      });
+
+    } catch (error: any) {
+      console.error(`Failed to save article "${article.title}":`, error);
+      // Continue with other articles even if one fails
+      return await this.recordItem(sessionId, {
+        position,
+        title: article.title || 'Untitled',
+        outcome: 'failed',
+        reason: error.message
+      });
+    }
+  }
+
+  /**
+   * Find the project's copy of an article: same URL, or same title, outlet and publication day
+   * PDFs and manual entries often have no URL or date, so missing values only match missing values
+   */
+  private async findExistingArticle(projectId: string, article: any): Promise<{ id: string; url: string | null } | null> {
+    if (article.url) {
+      const sameUrl = await db.article.findFirst({
+        where: { projectId: projectId, url: article.url },
+        select: { id: true, url: true }
+      });
+
+      if (sameUrl) {
+        return sameUrl;
+      }
+    }
+
+    const sameTitle = await db.article.findMany({
+      where: { projectId: projectId, title: article.title, newsOutlet: article.newsOutlet ?? null },
+      select: { id: true, url: true, dateWritten: true }
+    });
+
+    const day = (date: Date | string | null | undefined) => {
+      const parsed = date ? new Date(date) : null;
+      return parsed && !isNaN(parsed.getTime()) ? parsed.toISOString().slice(0, 10) : null;
+    };
+    const match = sameTitle.find(existing => day(existing.dateWritten) === day(article.dateWritten));
+
+    return match ? { id: match.id, url: match.url } : null;
+  }
+
+  /**
+   * Store the outcome of one import item
+   */
+  private async recordItem(sessionId: string, item: ImportItemResult): Promise<ImportItemResult> {
+    await db.importSessionItem.create({
+      data: {
+        sessionId,
+        position: item.position,
+        title: item.title,
+        outcome: item.outcome,
+        reason: item.reason || null,
+        articleId: item.articleId || null
+      }
+    });
+
+    return item;
   }
 
   /**
@@ -232,23 +603,27 @@ export class ImportSessionManager {
   }
 
   /**
-   * Update session status
+   * Move a running session to its final status
+   * Only a session that is still running is updated, so a cancel is never overwritten by the import finishing
+   * @returns False if the session had already left 'running'
    */
   private async updateSessionStatus(
     sessionId: string, 
-    status: 'running' | 'completed' | 'failed', 
+    status: 'completed' | 'failed' | 'cancelled', 
     error?: string
-  ): Promise<void> {
-    const updateData: any = { status };
-    
-    if (status === 'completed' || status === 'failed') {
-      updateData.completedAt = new Date();
+  ): Promise<boolean> {
+    const updateData: any = { status, completedAt: new Date() };
+
+    if (error) {
+      updateData.errorMessage = error;
     }
 
-    await db.importSession.update({
-      where: { id: sessionId },
+    const { count } = await db.importSession.updateMany({
+      where: { id: sessionId, status: 'running' },
       data: updateData
     });
+
+    return count > 0;
   }
 
   /**
@@ -268,6 +643,16 @@ export class ImportSessionManager {
             newsOutlet: true,
             dateWritten: true
           }
+        },
+        items: {
+          orderBy: { position: 'asc' },
+          select: {
+            position: true,
+            title: true,
+            outcome: true,
+            reason: true,
+            articleId: true
+          }
         }
       }
     });
@@ -283,7 +668,7 @@ export class ImportSessionManager {
    * Get all import sessions for a project
    */
   async getProjectImportSessions(projectId: string): Promise<any[]> {
-    return await db.importSession.findMany({
+    const sessions = await db.importSession.findMany({
       where: { projectId },
       orderBy: { createdAt: 'desc' },
       include: {
@@ -297,6 +682,24 @@ export class ImportSessionManager {
         }
       }
     });
+
+    // Summarise item outcomes per session rather than returning every row
+    const outcomeCounts = await db.importSessionItem.groupBy({
+      by: ['sessionId', 'outcome'],
+      where: { sessionId: { in: sessions.map(s => s.id) } },
+      _count: { _all: true }
+    });
+
+    return sessions.map(session => {
+      const outcomes = { imported: 0, duplicate: 0, failed: 0 };
+      outcomeCounts
+        .filter(count => count.sessionId === session.id)
+        .forEach(count => {
+          outcomes[count.outcome as ImportItemOutcome] = count._count._all;
+        });
+
+      return { ...session, outcomes };
+    });
   }
 
   /**
@@ -315,7 +718,95 @@ export class ImportSessionManager {
       throw new Error(`Cannot cancel session ${sessionId} - status is ${session.status}`);
     }
 
-    await this.updateSessionStatus(sessionId, 'failed', 'Cancelled by user');
+    // The paging and save loops check the status and stop at the next article
+    if (!await this.updateSessionStatus(sessionId, 'cancelled', 'Cancelled by user')) {
+      throw new Error(`Cannot cancel session ${sessionId} - it finished before the cancel`);
+    }
+  }
+
+  /**
+   * Delete every article an import session created, along with their quotes and analysis jobs
+   * Refuses when any of the articles have been analysed or edited, unless force is set
+   * @throws AppError 404 if the session doesn't exist, 409 if it's running or already rolled back
+   */
+  async rollbackSession(sessionId: string, force: boolean = false): Promise<ImportRollbackResult> {
+    const session = await db.importSession.findUnique({
+      where: { id: sessionId }
+    });
+
+    if (!session) {
+      throw new AppError(`Import session ${sessionId} not found`, 404);
+    }
+
+    const notRollbackable = (status: string) => status === 'running'
+      ? `Cannot roll back session ${sessionId} while it is still running - cancel it first`
+      : `Session ${sessionId} has already been rolled back`;
+
+    if (session.status === 'running' || session.status === 'rolled_back') {
+      throw new AppError(notRollbackable(session.status), 409);
+    }
+
+    // Everything is checked again inside the transaction - the session or its articles may change in the meantime
+    const result = await db.$transaction(async (tx) => {
+      const articles = await tx.article.findMany({
+        where: { importSessionId: sessionId },
+        select: { id: true, title: true, analysedAt: true, editedAt: true }
+      });
+
+      const protectedArticles = articles.filter(article => article.analysedAt || article.editedAt);
+
+      if (protectedArticles.length > 0 && !force) {
+        return { rolledBack: false, articlesDeleted: 0, quotesDeleted: 0, analysisJobsDeleted: 0, protectedArticles };
+      }
+
+      // Claiming the session fails if another request resumed or rolled it back first
+      const claimed = await tx.importSession.updateMany({
+        where: { id: sessionId, status: { notIn: ['running', 'rolled_back'] } },
+        data: { status: 'rolled_back' }
+      });
+
+      if (claimed.count === 0) {
+        const current = await tx.importSession.findUnique({ where: { id: sessionId }, select: { status: true } });
+        throw new AppError(notRollbackable(current?.status || 'rolled_back'), 409);
+      }
+
+      const articleIds = articles.map(article => article.id);
+
+      // Jobs in every state: a worker still processing one finds it gone and discards its result
+      const analysisJobs = await tx.analysisJob.deleteMany({
+        where: { articleId: { in: articleIds } }
+      });
+
+      const quotes = await tx.quote.deleteMany({
+        where: { articleId: { in: articleIds } }
+      });
+
+      const deletedArticles = await tx.article.deleteMany({
+        where: { id: { in: articleIds }, ...(!force && { analysedAt: null, editedAt: null }) }
+      });
+
+      // An article analysed or edited since it was read above - give up rather than delete it
+      if (deletedArticles.count !== articleIds.length) {
+        throw new AppError(`Articles from session ${sessionId} were analysed or edited during the rollback - try again`, 409);
+      }
+
+      return {
+        rolledBack: true,
+        articlesDeleted: deletedArticles.count,
+        quotesDeleted: quotes.count,
+        analysisJobsDeleted: analysisJobs.count,
+        protectedArticles
+      };
+    });
+
+    if (!result.rolledBack) {
+      console.log(`Refusing to roll back session ${sessionId}: ${result.protectedArticles.length} articles analysed or edited`);
+      return result;
+    }
+
+    console.log(`Rolled back import session ${sessionId}: ${result.articlesDeleted} articles, ${result.quotesDeleted} quotes, ${result.analysisJobsDeleted} analysis jobs deleted`);
+
+    return result;
   }
 
   /**
@@ -326,6 +817,7 @@ export class ImportSessionManager {
       where: { projectId },
       select: {
         status: true,
+        inputMethod: true,
         articlesFound: true,
         articlesImported: true,
         createdAt: true,
@@ -333,10 +825,25 @@ export class ImportSessionManager {
       }
     });
 
+    const outcomeCounts = await db.importSessionItem.groupBy({
+      by: ['outcome'],
+      where: { session: { projectId } },
+      _count: { _all: true }
+    });
+    const countOutcome = (outcome: ImportItemOutcome) =>
+      outcomeCounts.find(count => count.outcome === outcome)?._count._all || 0;
+
+    const sessionsByInputMethod: Record<string, number> = {};
+    sessions.forEach(s => {
+      sessionsByInputMethod[s.inputMethod] = (sessionsByInputMethod[s.inputMethod] || 0) + 1;
+    });
+
     const totalSessions = sessions.length;
     const completedSessions = sessions.filter(s => s.status === 'completed').length;
     const runningSessions = sessions.filter(s => s.status === 'running').length;
     const failedSessions = sessions.filter(s => s.status === 'failed').length;
+    const cancelledSessions = sessions.filter(s => s.status === 'cancelled').length;
+    const rolledBackSessions = sessions.filter(s => s.status === 'rolled_back').length;
     
     const totalArticlesFound = sessions.reduce((sum, s) => sum + s.articlesFound, 0);
     const totalArticlesImported = sessions.reduce((sum, s) => sum + s.articlesImported, 0);
@@ -346,8 +853,13 @@ export class ImportSessionManager {
       completedSessions,
       runningSessions,
       failedSessions,
+      cancelledSessions,
+      rolledBackSessions,
       totalArticlesFound,
       totalArticlesImported,
+      totalDuplicates: countOutcome('duplicate'),
+      totalFailed: countOutcome('failed'),
+      sessionsByInputMethod,
       successRate: totalSessions > 0 ? (completedSessions / totalSessions) * 100 : 0
     };
   }
@@ -0,0 +1,135 @@
+import db from './db';
+import { LLMProvider, isAllowedBaseUrl } from './llmProviders/base';
+import { GeminiProvider } from './llmProviders/geminiProvider';
+import { OpenAICompatibleProvider } from './llmProviders/openaiProvider';
+import { LocalProvider } from './llmProviders/localProvider';
+import { FakeProvider } from './llmProviders/fakeProvider';
+import { isValidUrl } from '../utils/validation';
+
+export const LLM_PROVIDERS = ['gemini', 'openai', 'local', 'fake'] as const;
+
+export type LLMProviderName = typeof LLM_PROVIDERS[number];
+
+export interface LLMSettings {
+  provider: LLMProviderName;
+  model?: string;   // Provider's default model when unset
+  baseUrl?: string; // Provider's default endpoint when unset
+}
+
+const SETTINGS_KEY = 'llm';
+
+/**
+ * The fake provider answers with canned analysis, so it's only usable in tests or where explicitly switched on
+ */
+export const isFakeProviderEnabled = (): boolean => {
+  return process.env.NODE_ENV === 'test' || process.env.LLM_FAKE_PROVIDER_ENABLED === 'true';
+};
+
+/**
+ * Providers settings can choose, leaving out the fake provider unless it's enabled
+ */
+export const availableLLMProviders = (): LLMProviderName[] => {
+  return LLM_PROVIDERS.filter(provider => provider !== 'fake' || isFakeProviderEnabled());
+};
+
+/**
+ * The LLM settings in effect: values saved through PUT /settings, falling back to
+ * LLM_PROVIDER, LLM_MODEL and LLM_BASE_URL
+ */
+export const getLLMSettings = async (): Promise<LLMSettings> => {
+  const stored = await db.appSetting.findUnique({
+    where: { key: SETTINGS_KEY }
+  });
+
+  const saved = (stored?.value || {}) as Partial<LLMSettings>;
+  const envProvider = process.env.LLM_PROVIDER as LLMProviderName | undefined;
+
+  return {
+    provider: saved.provider || (envProvider && LLM_PROVIDERS.includes(envProvider) ? envProvider : 'gemini'),
+    model: saved.model || process.env.LLM_MODEL || undefined,
+    baseUrl: saved.baseUrl || process.env.LLM_BASE_URL || undefined
+  };
+};
+
+/**
+ * Validate LLM settings from a request, whether they're being saved or used for a single run
+ * A base URL must be a provider default or listed in LLM_ALLOWED_BASE_URLS (or be LLM_BASE_URL),
+ * since API keys from the environment are sent to it
+ */
+export const validateLLMSettings = (llm: any): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!llm || typeof llm !== 'object') {
+    errors.push('llm settings are required');
+    return { isValid: false, errors };
+  }
+
+  if (!availableLLMProviders().includes(llm.provider)) {
+    errors.push(`llm.provider must be one of: ${availableLLMProviders().join(', ')}`);
+  }
+
+  if (llm.model !== undefined && (typeof llm.model !== 'string' || llm.model.trim().length === 0)) {
+    errors.push('llm.model must be a non-empty string');
+  }
+
+  if (llm.baseUrl !== undefined) {
+    if (typeof llm.baseUrl !== 'string' || !isValidUrl(llm.baseUrl)) {
+      errors.push('llm.baseUrl must be a valid URL');
+    } else if (!isAllowedBaseUrl(llm.baseUrl)) {
+      errors.push('llm.baseUrl must be a provider default or listed in LLM_ALLOWED_BASE_URLS');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+};
+
+/**
+ * Save the LLM settings; API keys stay in the environment and are never stored
+ */
+export const updateLLMSettings = async (settings: LLMSettings): Promise<LLMSettings> => {
+  const value = {
+    provider: settings.provider,
+    ...(settings.model && { model: settings.model }),
+    ...(settings.baseUrl && { baseUrl: settings.baseUrl })
+  };
+
+  await db.appSetting.upsert({
+    where: { key: SETTINGS_KEY },
+    create: { key: SETTINGS_KEY, value },
+    update: { value }
+  });
+
+  console.log(`🤖 LLM provider set to ${settings.provider}${settings.model ? ` (${settings.model})` : ''}`);
+
+  return getLLMSettings();
+};
+
+/**
+ * Build the provider described by the settings
+ */
+export const createLLMProvider = (settings: LLMSettings): LLMProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider(settings.model, settings.baseUrl);
+    case 'local':
+      return new LocalProvider(settings.model, settings.baseUrl);
+    case 'fake':
+      if (!isFakeProviderEnabled()) {
+        throw new Error('The fake LLM provider is only available with NODE_ENV=test or LLM_FAKE_PROVIDER_ENABLED=true');
+      }
+      return new FakeProvider(settings.model);
+    case 'gemini':
+    default:
+      return new GeminiProvider(settings.model, settings.baseUrl);
+  }
+};
+
+/**
+ * The provider analysis requests should go to right now
+ */
+export const getLLMProvider = async (): Promise<LLMProvider> => {
+  return createLLMProvider(await getLLMSettings());
+};
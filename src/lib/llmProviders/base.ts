@@ -0,0 +1,136 @@
+import axios from 'axios';
+
+/**
+ * Sampling settings passed to every provider; each maps them onto its own request fields
+ */
+export interface LLMGenerationSettings {
+  temperature: number;
+  topK?: number;
+  topP?: number;
+  maxOutputTokens: number;
+}
+
+export type LLMTask = 'article-analysis' | 'quote-analysis';
+
+export interface LLMRequest {
+  task: LLMTask;    // Which prompt is being sent; real providers only need the prompt itself
+  context?: string; // System prompt and categories, identical across requests - providers may cache it
+  prompt: string;
+  settings: LLMGenerationSettings;
+  timeoutMs: number;
+}
+
+/**
+ * A text-generation backend used for article analysis and quote extraction
+ * Providers own their request format, response extraction and error mapping, so callers
+ * only ever see generated text or an LLMRequestError
+ */
+export interface LLMProvider {
+  /** Identifier stored in settings, e.g. "gemini" */
+  readonly name: string;
+
+  /** Model the provider sends requests to */
+  readonly model: string;
+
+  /**
+   * Send a prompt and return the generated text
+   */
+  generate(request: LLMRequest): Promise<string>;
+}
+
+/**
+ * Each provider's own endpoint, used when settings give no base URL
+ */
+export const DEFAULT_BASE_URLS = {
+  gemini: 'https://generativelanguage.googleapis.com/v1beta',
+  openai: 'https://api.openai.com/v1',
+  ollama: 'http://localhost:11434',
+  llamacpp: 'http://localhost:8081'
+} as const;
+
+const normaliseBaseUrl = (url: string): string => url.trim().replace(/\/+$/, '');
+
+/**
+ * Endpoints the operator allows besides the provider defaults: LLM_BASE_URL and the
+ * comma-separated LLM_ALLOWED_BASE_URLS
+ */
+export const allowedBaseUrls = (): string[] => {
+  return [process.env.LLM_BASE_URL || '', ...(process.env.LLM_ALLOWED_BASE_URLS || '').split(',')]
+    .map(normaliseBaseUrl)
+    .filter(Boolean);
+};
+
+/**
+ * Whether settings may point a provider at an endpoint: a provider default or one the operator allowed
+ */
+export const isAllowedBaseUrl = (baseUrl: string): boolean => {
+  const url = normaliseBaseUrl(baseUrl);
+  return (Object.values(DEFAULT_BASE_URLS) as string[]).includes(url) || allowedBaseUrls().includes(url);
+};
+
+/**
+ * Whether a provider may send its API key from the environment to an endpoint
+ * Base URLs come from settings any signed-in user can change, so keys only go to the provider's
+ * own default endpoint or one the operator allowed
+ */
+export const canSendApiKey = (baseUrl: string, defaultBaseUrl: string): boolean => {
+  const url = normaliseBaseUrl(baseUrl);
+  return url === normaliseBaseUrl(defaultBaseUrl) || allowedBaseUrls().includes(url);
+};
+
+/**
+ * The context and prompt as one text, for providers that can't cache the context
+ */
+export const fullPrompt = (request: LLMRequest): string => {
+  return request.context ? `${request.context}\n\n${request.prompt}` : request.prompt;
+};
+
+/**
+ * Raised when a provider can't be reached, rejects the request or returns no text
+ */
+export class LLMRequestError extends Error {
+  public provider: string;
+  public status?: number;
+
+  constructor(provider: string, message: string, status?: number) {
+    super(message);
+    this.name = 'LLMRequestError';
+    this.provider = provider;
+    this.status = status;
+  }
+}
+
+/**
+ * Raised when the model answers but its output can't be used, keeping the raw text for debugging
+ */
+export class LLMResponseError extends Error {
+  public rawOutput: string;
+
+  constructor(message: string, rawOutput: string) {
+    super(message);
+    this.name = 'LLMResponseError';
+    this.rawOutput = rawOutput;
+  }
+}
+
+/**
+ * Turn an axios failure into an LLMRequestError carrying the provider's own error message
+ * @param providerName Provider identifier recorded on the error
+ * @param providerLabel Name used in the message, e.g. "Gemini"
+ * @param extractMessage Pulls the error message out of the provider's error response body
+ */
+export const mapRequestError = (
+  providerName: string,
+  providerLabel: string,
+  error: any,
+  extractMessage: (data: any) => string | undefined
+): Error => {
+  if (axios.isAxiosError(error)) {
+    if (error.code === 'ECONNABORTED') {
+      return new LLMRequestError(providerName, `${providerLabel} request timed out`);
+    }
+    const message = (error.response?.data && extractMessage(error.response.data)) || error.message;
+    return new LLMRequestError(providerName, `${providerLabel} API request failed: ${message}`, error.response?.status);
+  }
+  return error;
+};
@@ -0,0 +1,241 @@
+import * as fs from 'fs';
+import { LLMProvider, LLMRequest, LLMRequestError, LLMTask, fullPrompt } from './base';
+
+export type FakeFault =
+  | 'malformed'  // Output that isn't valid JSON
+  | 'truncated'  // Valid output cut off part-way, as when maxOutputTokens is hit
+  | 'timeout'    // The request times out
+  | 'empty'      // The provider returns no text
+  | 'missing';   // Valid output that leaves out the targeted articles
+
+/**
+ * One scripted behaviour; the first entry matching a request decides the response
+ */
+export interface FakeScriptEntry {
+  task?: LLMTask;        // Only requests for this prompt
+  articleIds?: string[]; // Only requests that include one of these articles
+  fault?: FakeFault;
+  response?: any;        // Canned output, returned as-is (objects are JSON-encoded)
+  times?: number;        // Number of matching requests it applies to (default: all of them)
+}
+
+interface PromptArticle {
+  id: string;
+  title: string;
+  source?: string;
+  author?: string;
+  date?: string;
+  url?: string;
+  text: string;
+}
+
+const POSITIVE_WORDS = ['agreement', 'benefit', 'improve', 'growth', 'success', 'welcome', 'support', 'progress', 'record', 'win'];
+const NEGATIVE_WORDS = ['crisis', 'drought', 'fail', 'loss', 'decline', 'shortage', 'damage', 'concern', 'warn', 'risk'];
+
+/**
+ * A provider that never leaves the process: responses are generated from the prompt by fixed rules,
+ * so the same articles always get the same summary, category, sentiment and quotes
+ * Faults and canned responses can be scripted, in code with FakeProvider.script or through
+ * a JSON file named by FAKE_LLM_SCRIPT, to test retries and partial failures without a real model
+ */
+export class FakeProvider implements LLMProvider {
+  readonly name = 'fake';
+  readonly model: string;
+  private delayMs: number;
+
+  private static entries: FakeScriptEntry[] | null = null;
+
+  // Every request received, for assertions
+  static calls: LLMRequest[] = [];
+
+  constructor(model?: string) {
+    this.model = model || 'fake-deterministic';
+    this.delayMs = parseInt(process.env.FAKE_LLM_DELAY_MS || '0');
+  }
+
+  /**
+   * Replace the scripted behaviours
+   */
+  static script(entries: FakeScriptEntry[]): void {
+    FakeProvider.entries = entries.map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Clear the script and the recorded calls; the next request reloads FAKE_LLM_SCRIPT
+   */
+  static reset(): void {
+    FakeProvider.entries = null;
+    FakeProvider.calls = [];
+  }
+
+  /**
+   * Answer the prompt from the script, or generate a response from the articles in it
+   */
+  async generate(request: LLMRequest): Promise<string> {
+    FakeProvider.calls.push(request);
+
+    if (this.delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, Math.min(this.delayMs, request.timeoutMs)));
+    }
+
+    const articles = this.parseArticles(fullPrompt(request));
+    const entry = this.takeEntry(request.task, articles);
+
+    if (entry?.response !== undefined) {
+      return typeof entry.response === 'string' ? entry.response : JSON.stringify(entry.response, null, 2);
+    }
+
+    const targeted = (article: PromptArticle) => !entry?.articleIds || entry.articleIds.includes(article.id);
+
+    switch (entry?.fault) {
+      case 'timeout':
+        throw new LLMRequestError(this.name, 'Fake request timed out');
+      case 'empty':
+        throw new LLMRequestError(this.name, 'No content generated by the fake provider');
+      case 'malformed':
+        return `Here is the analysis you asked for: {"${request.task === 'article-analysis' ? 'articles' : 'quotes'}": [ {"1_id": ,} ]`;
+      case 'truncated': {
+        const full = this.respond(request, articles);
+        return full.substring(0, Math.floor(full.length / 2));
+      }
+      case 'missing':
+        return this.respond(request, articles.filter(article => !targeted(article)));
+      default:
+        return this.respond(request, articles);
+    }
+  }
+
+  private respond(request: LLMRequest, articles: PromptArticle[]): string {
+    if (request.task === 'article-analysis') {
+      const categories = this.parseCategories(fullPrompt(request));
+      return JSON.stringify({
+        articles: articles.map(article => ({
+          '1_id': article.id,
+          '2_title': article.title,
+          '3_source': article.source || 'Unknown',
+          '4_author': article.author || '',
+          '5_date': article.date || '',
+          '6_url': article.url || '',
+          '7_summary': this.summarise(article.text),
+          '8_category': this.categorise(article, categories),
+          '9_sentiment': this.sentiment(article.text),
+          '10_translated': false
+        }))
+      }, null, 2);
+    }
+
+    return JSON.stringify({
+      quotes: articles.flatMap(article => this.findQuotes(article))
+    }, null, 2);
+  }
+
+  /**
+   * The first script entry matching the request, counting down its remaining uses
+   */
+  private takeEntry(task: LLMTask, articles: PromptArticle[]): FakeScriptEntry | undefined {
+    if (FakeProvider.entries === null) {
+      FakeProvider.entries = this.loadScriptFile();
+    }
+
+    const entry = FakeProvider.entries.find(candidate =>
+      (candidate.times === undefined || candidate.times > 0)
+      && (!candidate.task || candidate.task === task)
+      && (!candidate.articleIds || articles.some(article => candidate.articleIds!.includes(article.id)))
+    );
+
+    if (entry && entry.times !== undefined) {
+      entry.times--;
+    }
+
+    return entry;
+  }
+
+  private loadScriptFile(): FakeScriptEntry[] {
+    const scriptPath = process.env.FAKE_LLM_SCRIPT;
+    if (!scriptPath) {
+      return [];
+    }
+
+    return JSON.parse(fs.readFileSync(scriptPath, 'utf8'));
+  }
+
+  /**
+   * The articles JSON the analysis prompts embed between "Articles JSON:" and "Number Range:"
+   */
+  private parseArticles(prompt: string): PromptArticle[] {
+    const match = prompt.match(/Articles JSON:\s*(\[[\s\S]*?\])\s*Number Range:/);
+    return match ? JSON.parse(match[1]) : [];
+  }
+
+  /**
+   * The category definitions the article analysis context embeds after "Categories JSON:"
+   */
+  private parseCategories(prompt: string): { category: string; keywords: string[] }[] {
+    const match = prompt.match(/Categories JSON:\s*(\[[\s\S]*?\])\s*IMPORTANT:/);
+    return match ? JSON.parse(match[1]) : [];
+  }
+
+  /**
+   * The first two sentences of the text
+   */
+  private summarise(text: string): string {
+    const sentences = text.replace(/\s+/g, ' ').trim().match(/[^.!?]+[.!?]+/g) || [text.trim()];
+    return sentences.slice(0, 2).map(sentence => sentence.trim()).join(' ').substring(0, 400);
+  }
+
+  /**
+   * The category whose keywords appear most often, the first category on a tie
+   */
+  private categorise(article: PromptArticle, categories: { category: string; keywords: string[] }[]): string {
+    if (categories.length === 0) {
+      return 'Uncategorised';
+    }
+
+    const text = `${article.title} ${article.text}`.toLowerCase();
+    let best = categories[0];
+    let bestScore = 0;
+
+    for (const category of categories) {
+      const score = (category.keywords || [])
+        .reduce((sum, keyword) => sum + (keyword ? text.split(keyword.toLowerCase()).length - 1 : 0), 0);
+      if (score > bestScore) {
+        best = category;
+        bestScore = score;
+      }
+    }
+
+    return best.category;
+  }
+
+  /**
+   * Positive, Negative or Neutral from a small word list, capitalised as models often answer
+   */
+  private sentiment(text: string): string {
+    const lower = text.toLowerCase();
+    const count = (words: string[]) => words.reduce((sum, word) => sum + (lower.split(word).length - 1), 0);
+    const balance = count(POSITIVE_WORDS) - count(NEGATIVE_WORDS);
+
+    return balance > 0 ? 'Positive' : balance < 0 ? 'Negative' : 'Neutral';
+  }
+
+  /**
+   * Double-quoted passages of at least five words, attributed to the "said Name, Affiliation" that follows
+   */
+  private findQuotes(article: PromptArticle) {
+    const pattern = /["“]([^"”]{20,}?)["”],?\s*(?:said|says)\s+([A-Z][\w'-]+(?:\s+[A-Z][\w'-]+)*)(?:,\s*(?:the\s+)?([^,.]+))?/g;
+    const quotes = [];
+
+    for (const match of article.text.matchAll(pattern)) {
+      if (match[1].trim().split(/\s+/).length < 5) continue;
+
+      quotes.push({
+        '1_articleId': article.id,
+        '2_stakeholderName': match[2],
+        '3_stakeholderAffiliation': match[3]?.trim() || 'Unknown',
+        '4_quote': match[1].trim().replace(/,$/, '')
+      });
+    }
+
+    return quotes;
+  }
+}
@@ -0,0 +1,108 @@
+import axios from 'axios';
+import {
+  DEFAULT_BASE_URLS,
+  LLMProvider,
+  LLMRequest,
+  LLMRequestError,
+  canSendApiKey,
+  fullPrompt,
+  mapRequestError
+} from './base';
+import { GeminiContextCache } from '../contextCache';
+
+/**
+ * Google Gemini through the generativelanguage REST API
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  private apiKey: string | undefined;
+  private baseUrl: string;
+
+  constructor(model?: string, baseUrl?: string) {
+    this.model = model || 'gemini-2.5-flash';
+    this.baseUrl = (baseUrl || DEFAULT_BASE_URLS.gemini).replace(/\/+$/, '');
+    this.apiKey = process.env.GEMINI_API_KEY;
+  }
+
+  /**
+   * Send the prompt to generateContent and return the first candidate's text
+   * The request's context is referenced from a server-side cached content when Gemini will cache it,
+   * and sent inline with the prompt otherwise
+   */
+  async generate(request: LLMRequest): Promise<string> {
+    if (!this.apiKey) {
+      throw new LLMRequestError(this.name, 'GEMINI_API_KEY environment variable is required');
+    }
+
+    // The key travels in the URL, so it must never go to an endpoint the operator hasn't allowed
+    if (!canSendApiKey(this.baseUrl, DEFAULT_BASE_URLS.gemini)) {
+      throw new LLMRequestError(this.name, `GEMINI_API_KEY is not sent to ${this.baseUrl}; add it to LLM_ALLOWED_BASE_URLS to use it`);
+    }
+
+    const cachedContent = request.context
+      ? await GeminiContextCache.getServerCachedContent(
+        { baseUrl: this.baseUrl, apiKey: this.apiKey, model: this.model },
+        request.context
+      )
+      : null;
+
+    try {
+      return await this.generateContent(request, cachedContent);
+    } catch (error: any) {
+      // The cache expired or was deleted on Gemini's side - forget it and send the context inline
+      if (cachedContent && [403, 404].includes(error.response?.status)) {
+        console.log(`⚠️ Gemini cached content ${cachedContent} is no longer available, sending context inline`);
+        GeminiContextCache.forgetServerCachedContent(cachedContent);
+        try {
+          return await this.generateContent(request, null);
+        } catch (retryError: any) {
+          throw mapRequestError(this.name, 'Gemini', retryError, data => data?.error?.message);
+        }
+      }
+
+      throw mapRequestError(this.name, 'Gemini', error, data => data?.error?.message);
+    }
+  }
+
+  private async generateContent(request: LLMRequest, cachedContent: string | null): Promise<string> {
+    const response = await axios.post(
+      `${this.baseUrl}/models/${this.model}:generateContent?key=${this.apiKey}`,
+      {
+        ...(cachedContent && { cachedContent }),
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              {
+                text: cachedContent ? request.prompt : fullPrompt(request)
+              }
+            ]
+          }
+        ],
+        generationConfig: {
+          temperature: request.settings.temperature,
+          topK: request.settings.topK,
+          topP: request.settings.topP,
+          maxOutputTokens: request.settings.maxOutputTokens
+        }
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        timeout: request.timeoutMs
+      }
+    );
+
+    GeminiContextCache.recordUsage(response.data.usageMetadata, cachedContent !== null);
+
+    const generatedText = response.data.candidates?.[0]?.content?.parts?.[0]?.text;
+
+    if (!generatedText) {
+      throw new LLMRequestError(this.name, 'No content generated by Gemini');
+    }
+
+    return generatedText;
+  }
+}
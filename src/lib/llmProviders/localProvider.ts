@@ -0,0 +1,76 @@
+import axios from 'axios';
+import { DEFAULT_BASE_URLS, LLMProvider, LLMRequest, LLMRequestError, fullPrompt, mapRequestError } from './base';
+
+/**
+ * A model served on the local network by Ollama or llama.cpp, so article text never leaves it
+ * LOCAL_LLM_SERVER picks the server's native API: "ollama" (default) or "llamacpp"
+ */
+export class LocalProvider implements LLMProvider {
+  readonly name = 'local';
+  readonly model: string;
+  private baseUrl: string;
+  private server: 'ollama' | 'llamacpp';
+
+  constructor(model?: string, baseUrl?: string) {
+    this.server = process.env.LOCAL_LLM_SERVER === 'llamacpp' ? 'llamacpp' : 'ollama';
+    this.model = model || 'llama3.1';
+    this.baseUrl = (baseUrl || DEFAULT_BASE_URLS[this.server]).replace(/\/+$/, '');
+  }
+
+  /**
+   * Send the prompt to the server's generation endpoint, asking for JSON output
+   */
+  async generate(request: LLMRequest): Promise<string> {
+    try {
+      const generatedText = this.server === 'ollama'
+        ? await this.generateOllama(request)
+        : await this.generateLlamaCpp(request);
+
+      if (!generatedText) {
+        throw new LLMRequestError(this.name, `No content generated by the local ${this.server} server`);
+      }
+
+      return generatedText;
+    } catch (error: any) {
+      throw mapRequestError(this.name, `Local ${this.server}`, error, data => data?.error);
+    }
+  }
+
+  private async generateOllama(request: LLMRequest): Promise<string | undefined> {
+    const response = await axios.post(
+      `${this.baseUrl}/api/generate`,
+      {
+        model: this.model,
+        prompt: fullPrompt(request),
+        stream: false,
+        format: 'json',
+        options: {
+          temperature: request.settings.temperature,
+          top_k: request.settings.topK,
+          top_p: request.settings.topP,
+          num_predict: request.settings.maxOutputTokens
+        }
+      },
+      { timeout: request.timeoutMs }
+    );
+
+    return response.data.response;
+  }
+
+  private async generateLlamaCpp(request: LLMRequest): Promise<string | undefined> {
+    // llama.cpp serves whichever model it was started with, so the model name isn't sent
+    const response = await axios.post(
+      `${this.baseUrl}/completion`,
+      {
+        prompt: fullPrompt(request),
+        temperature: request.settings.temperature,
+        top_k: request.settings.topK,
+        top_p: request.settings.topP,
+        n_predict: request.settings.maxOutputTokens
+      },
+      { timeout: request.timeoutMs }
+    );
+
+    return response.data.content;
+  }
+}
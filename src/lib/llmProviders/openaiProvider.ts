@@ -0,0 +1,66 @@
+import axios from 'axios';
+import {
+  DEFAULT_BASE_URLS,
+  LLMProvider,
+  LLMRequest,
+  LLMRequestError,
+  canSendApiKey,
+  fullPrompt,
+  mapRequestError
+} from './base';
+
+/**
+ * Any endpoint speaking the OpenAI chat completions API (OpenAI, Azure-style gateways, vLLM,
+ * llama.cpp's server in OpenAI mode)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private apiKey: string | undefined;
+  private baseUrl: string;
+
+  constructor(model?: string, baseUrl?: string) {
+    this.model = model || 'gpt-4o-mini';
+    this.baseUrl = (baseUrl || DEFAULT_BASE_URLS.openai).replace(/\/+$/, '');
+    // Other endpoints get no key unless the operator allowed them, so a changed base URL can't collect it
+    this.apiKey = canSendApiKey(this.baseUrl, DEFAULT_BASE_URLS.openai) ? process.env.OPENAI_API_KEY : undefined;
+  }
+
+  /**
+   * Send the prompt as a single user message and return the first choice's content
+   */
+  async generate(request: LLMRequest): Promise<string> {
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/chat/completions`,
+        {
+          model: this.model,
+          messages: [
+            { role: 'user', content: fullPrompt(request) }
+          ],
+          temperature: request.settings.temperature,
+          top_p: request.settings.topP,
+          max_tokens: request.settings.maxOutputTokens
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            // Self-hosted endpoints often need no key
+            ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` })
+          },
+          timeout: request.timeoutMs
+        }
+      );
+
+      const generatedText = response.data.choices?.[0]?.message?.content;
+
+      if (!generatedText) {
+        throw new LLMRequestError(this.name, 'No content generated by the OpenAI-compatible endpoint');
+      }
+
+      return generatedText;
+    } catch (error: any) {
+      throw mapRequestError(this.name, 'OpenAI-compatible', error, data => data?.error?.message || data?.message);
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+// The fingerprint helpers need no database; the stand-in keeps Prisma from loading its engine
+require.cache[require.resolve('./db')] = { exports: { __esModule: true, default: {} } } as any;
+
+const { computeSimHash, hammingDistance } = require('./nearDuplicates') as typeof import('./nearDuplicates');
+
+const WIRE_STORY = 'The regional water authority announced on Tuesday that emergency restrictions will apply to all farms '
+  + 'in the valley from next month, after the river fell to its lowest level since records began. Farmers said the '
+  + 'restrictions would force them to leave fields unplanted, and several councils called for compensation. '
+  + 'The authority said supplies to homes and hospitals were not at risk, but asked households to limit garden watering '
+  + 'and car washing until the autumn rains arrive. Forecasters expect the dry spell to continue for at least three more '
+  + 'weeks, with temperatures well above the seasonal average across the south of the country.';
+
+const OTHER_STORY = 'City council members voted late on Monday to approve a new cycling network across the centre, '
+  + 'with protected lanes on six major roads and a bike share scheme due to open in spring. Retailers raised concerns '
+  + 'about lost parking, while commuter groups welcomed the plan as overdue.';
+
+test('hammingDistance counts differing bits', () => {
+  assert.equal(hammingDistance('0000000000000000', '0000000000000000'), 0);
+  assert.equal(hammingDistance('0000000000000000', '000000000000000f'), 4);
+  assert.equal(hammingDistance('8000000000000001', '0000000000000000'), 2);
+  assert.equal(hammingDistance('ffffffffffffffff', '0000000000000000'), 64);
+});
+
+test('bodies too short to fingerprint get no fingerprint', () => {
+  assert.equal(computeSimHash(null), null);
+  assert.equal(computeSimHash(''), null);
+  assert.equal(computeSimHash('Only a few words of body text survived the PDF extract.'), null);
+});
+
+test('a fingerprint is 64 bits as hex, ignoring case and punctuation', () => {
+  const fingerprint = computeSimHash(WIRE_STORY);
+
+  assert.match(fingerprint as string, /^[0-9a-f]{16}$/);
+  assert.equal(computeSimHash(WIRE_STORY.toUpperCase().replace(/[,.]/g, ' ; ')), fingerprint);
+});
+
+test('reworded copy stays within the near-duplicate distance and unrelated text does not', () => {
+  const reworded = WIRE_STORY
+    .replace('on Tuesday', 'on Wednesday')
+    .replace('at least three more weeks', 'another three weeks');
+
+  const original = computeSimHash(WIRE_STORY) as string;
+
+  assert.ok(hammingDistance(original, computeSimHash(reworded) as string) <= 10);
+  assert.ok(hammingDistance(original, computeSimHash(OTHER_STORY) as string) > 10);
+});
@@ -0,0 +1,328 @@
+import * as crypto from 'crypto';
+import db from './db';
+
+// Words per shingle
+const SHINGLE_SIZE = 3;
+
+// Bodies shorter than this (e.g. PDF extracts that lost their text) are too small to fingerprint reliably
+const MIN_WORDS = 30;
+
+const FINGERPRINT_BITS = 64;
+
+export interface NearDuplicateMatch {
+  canonicalArticleId: string;
+  similarity: number; // 0-1, share of matching fingerprint bits
+}
+
+export interface DuplicateClusterArticle {
+  id: string;
+  title: string;
+  newsOutlet: string | null;
+  url: string | null;
+  dateWritten: Date | null;
+  analysedAt: Date | null;
+}
+
+export interface DuplicateCluster {
+  canonicalArticle: DuplicateClusterArticle;
+  copies: (DuplicateClusterArticle & { similarity: number | null })[];
+  size: number;
+}
+
+export interface DuplicateDetectionResult {
+  articlesChecked: number;
+  fingerprinted: number;
+  clusters: number;
+  duplicates: number;
+}
+
+/**
+ * SimHash fingerprint of an article body as 16 hex characters, or null if the text is too short
+ * Near-identical texts produce fingerprints that differ in only a few bits
+ */
+export const computeSimHash = (text: string | null | undefined): string | null => {
+  if (!text) {
+    return null;
+  }
+
+  const words = text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 0);
+
+  if (words.length < MIN_WORDS) {
+    return null;
+  }
+
+  const weights = new Array<number>(FINGERPRINT_BITS).fill(0);
+
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    const shingle = words.slice(i, i + SHINGLE_SIZE).join(' ');
+    const digest = crypto.createHash('md5').update(shingle).digest();
+
+    for (let bit = 0; bit < FINGERPRINT_BITS; bit++) {
+      const isSet = (digest[bit >> 3] >> (7 - (bit & 7))) & 1;
+      weights[bit] += isSet ? 1 : -1;
+    }
+  }
+
+  let fingerprint = '';
+  for (let nibble = 0; nibble < FINGERPRINT_BITS / 4; nibble++) {
+    let value = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      value = (value << 1) | (weights[nibble * 4 + bit] > 0 ? 1 : 0);
+    }
+    fingerprint += value.toString(16);
+  }
+
+  return fingerprint;
+};
+
+/**
+ * Number of differing bits between two SimHash fingerprints
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+
+  return distance;
+};
+
+/**
+ * Groups a project's near-duplicate articles (e.g. syndicated wire copy under different headlines)
+ * into clusters around a canonical article. Copies point at their canonical via canonicalArticleId;
+ * canonical articles never point anywhere, so clusters are always one level deep.
+ */
+export class NearDuplicateDetector {
+  private maxDistance: number;
+
+  constructor() {
+    // Fingerprints at most this many bits apart (out of 64) count as the same text
+    this.maxDistance = parseInt(process.env.NEAR_DUPLICATE_MAX_DISTANCE || '10');
+  }
+
+  /**
+   * Fingerprint one article and attach it to the closest canonical article in its project
+   * Articles that already have copies stay canonical, and their copies are checked against the new fingerprint
+   */
+  async fingerprintArticle(articleId: string): Promise<NearDuplicateMatch | null> {
+    const article = await db.article.findUnique({
+      where: { id: articleId },
+      select: {
+        id: true,
+        projectId: true,
+        fullBodyText: true,
+        _count: { select: { nearDuplicates: true } }
+      }
+    });
+
+    if (!article) {
+      throw new Error('Article not found');
+    }
+
+    const simhash = computeSimHash(article.fullBodyText);
+    let match: NearDuplicateMatch | null = null;
+
+    if (simhash && article._count.nearDuplicates === 0) {
+      const canonicals = await db.article.findMany({
+        where: {
+          projectId: article.projectId,
+          id: { not: article.id },
+          canonicalArticleId: null,
+          contentSimhash: { not: null }
+        },
+        select: { id: true, contentSimhash: true }
+      });
+
+      match = this.findClosest(simhash, canonicals);
+    }
+
+    await db.article.update({
+      where: { id: article.id },
+      data: {
+        contentSimhash: simhash,
+        canonicalArticleId: match?.canonicalArticleId || null,
+        duplicateSimilarity: match?.similarity ?? null
+      }
+    });
+
+    if (match) {
+      console.log(`🧬 Article ${article.id} is a near-duplicate of ${match.canonicalArticleId} (${Math.round(match.similarity * 100)}% similar)`);
+    }
+
+    if (article._count.nearDuplicates > 0) {
+      await this.reevaluateCopies(article.id, simhash);
+    }
+
+    return match;
+  }
+
+  /**
+   * Check a canonical article's copies against its new fingerprint
+   * Copies that still match get their similarity updated; the rest leave the cluster and are fingerprinted afresh
+   */
+  private async reevaluateCopies(canonicalArticleId: string, simhash: string | null): Promise<void> {
+    const copies = await db.article.findMany({
+      where: { canonicalArticleId },
+      select: { id: true, contentSimhash: true }
+    });
+
+    for (const copy of copies) {
+      const match = simhash && copy.contentSimhash
+        ? this.findClosest(copy.contentSimhash, [{ id: canonicalArticleId, contentSimhash: simhash }])
+        : null;
+
+      if (match) {
+        await db.article.update({
+          where: { id: copy.id },
+          data: { duplicateSimilarity: match.similarity }
+        });
+        continue;
+      }
+
+      await db.article.update({
+        where: { id: copy.id },
+        data: { canonicalArticleId: null, duplicateSimilarity: null }
+      });
+
+      console.log(`🧬 Article ${copy.id} no longer matches ${canonicalArticleId} and left its cluster`);
+
+      // May join another cluster, or become canonical for copies detached before it
+      await this.fingerprintArticle(copy.id);
+    }
+  }
+
+  /**
+   * Re-fingerprint every article in a project and rebuild its clusters from scratch
+   * Analysed articles are preferred as canonical so existing analysis is kept, then the earliest published
+   */
+  async detectProject(projectId: string): Promise<DuplicateDetectionResult> {
+    const articles = await db.article.findMany({
+      where: { projectId },
+      select: {
+        id: true,
+        fullBodyText: true,
+        dateWritten: true,
+        analysedAt: true,
+        contentSimhash: true,
+        canonicalArticleId: true,
+        duplicateSimilarity: true
+      }
+    });
+
+    const fingerprinted = articles
+      .map(article => ({ ...article, simhash: computeSimHash(article.fullBodyText) }))
+      .sort((a, b) => {
+        if (!!a.analysedAt !== !!b.analysedAt) return a.analysedAt ? -1 : 1;
+        const aTime = a.dateWritten ? a.dateWritten.getTime() : Infinity;
+        const bTime = b.dateWritten ? b.dateWritten.getTime() : Infinity;
+        if (aTime !== bTime) return aTime - bTime;
+        return (b.fullBodyText?.length || 0) - (a.fullBodyText?.length || 0);
+      });
+
+    const canonicals: { id: string; contentSimhash: string }[] = [];
+    const updates = [];
+    let duplicates = 0;
+    const clusterIds = new Set<string>();
+
+    for (const article of fingerprinted) {
+      const match = article.simhash ? this.findClosest(article.simhash, canonicals) : null;
+
+      if (match) {
+        duplicates++;
+        clusterIds.add(match.canonicalArticleId);
+      } else if (article.simhash) {
+        canonicals.push({ id: article.id, contentSimhash: article.simhash });
+      }
+
+      const canonicalArticleId = match?.canonicalArticleId || null;
+      const duplicateSimilarity = match?.similarity ?? null;
+
+      // Only write articles whose fingerprint or cluster changed
+      if (article.contentSimhash !== article.simhash
+        || article.canonicalArticleId !== canonicalArticleId
+        || article.duplicateSimilarity !== duplicateSimilarity) {
+        updates.push(db.article.update({
+          where: { id: article.id },
+          data: { contentSimhash: article.simhash, canonicalArticleId, duplicateSimilarity }
+        }));
+      }
+    }
+
+    await db.$transaction(updates);
+
+    console.log(`🧬 Duplicate detection for project ${projectId}: ${clusterIds.size} clusters, ${duplicates} copies among ${articles.length} articles`);
+
+    return {
+      articlesChecked: articles.length,
+      fingerprinted: fingerprinted.filter(article => article.simhash).length,
+      clusters: clusterIds.size,
+      duplicates
+    };
+  }
+
+  /**
+   * A project's duplicate clusters, largest first
+   */
+  async getProjectClusters(projectId: string): Promise<DuplicateCluster[]> {
+    const select = {
+      id: true,
+      title: true,
+      newsOutlet: true,
+      url: true,
+      dateWritten: true,
+      analysedAt: true
+    };
+
+    const copies = await db.article.findMany({
+      where: { projectId, canonicalArticleId: { not: null } },
+      select: { ...select, canonicalArticleId: true, duplicateSimilarity: true },
+      orderBy: { dateWritten: 'asc' }
+    });
+
+    const canonicalIds = [...new Set(copies.map(copy => copy.canonicalArticleId!))];
+    const canonicals = await db.article.findMany({
+      where: { id: { in: canonicalIds } },
+      select
+    });
+
+    return canonicals
+      .map(canonicalArticle => {
+        const clusterCopies = copies
+          .filter(copy => copy.canonicalArticleId === canonicalArticle.id)
+          .map(({ canonicalArticleId, duplicateSimilarity, ...copy }) => ({ ...copy, similarity: duplicateSimilarity }));
+
+        return {
+          canonicalArticle,
+          copies: clusterCopies,
+          size: clusterCopies.length + 1
+        };
+      })
+      .sort((a, b) => b.size - a.size);
+  }
+
+  private findClosest(simhash: string, candidates: { id: string; contentSimhash: string | null }[]): NearDuplicateMatch | null {
+    let best: { id: string; distance: number } | null = null;
+
+    for (const candidate of candidates) {
+      if (!candidate.contentSimhash) continue;
+
+      const distance = hammingDistance(simhash, candidate.contentSimhash);
+      if (distance <= this.maxDistance && (!best || distance < best.distance)) {
+        best = { id: candidate.id, distance };
+      }
+    }
+
+    return best
+      ? { canonicalArticleId: best.id, similarity: 1 - best.distance / FINGERPRINT_BITS }
+      : null;
+  }
+}
@@ -1,8 +1,18 @@
 import axios from 'axios';
+import { parseBooleanQuery, isJSONQuery, KeywordLocation } from './booleanQuery';
+import { NewsAPIFixtureStore } from './newsapiFixtures';
 
 // NewsAPI.ai configuration
+// Override with NEWSAPI_BASE_URL to point at the local stand-in server (src/standin/newsapiServer.ts)
 const NEWSAPI_BASE_URL = 'https://eventregistry.org/api/v1/article/getArticles';
 
+// Ask for the fields used to group coverage of the same story
+const STORY_FIELDS = {
+  includeArticleEventUri: true,
+  includeArticleDuplicateList: true,
+  includeArticleOriginalArticle: true
+};
+
 export interface NewsAPIArticle {
   uri: string;
   lang: string;
@@ -100,11 +110,27 @@ export interface NewsAPIRequest {
   articlesSortBy?: string;
   articlesPage?: number;
   articlesCount?: number;
+  includeArticleEventUri?: boolean;
+  includeArticleDuplicateList?: boolean;
+  includeArticleOriginalArticle?: boolean;
   apiKey: string;
 }
 
+/**
+ * Hooks for callers that process results page by page (import sessions)
+ */
+export interface FetchArticlesOptions {
+  startPage?: number;       // First page to request - used when resuming
+  alreadyFetched?: number;  // Articles fetched by earlier runs, counted against the limit
+  // Called after each page is fetched, before the next one is requested
+  onPage?: (page: number, articles: NewsAPIArticle[], totalResults: number) => Promise<void>;
+  // Checked before each page; returning true stops paging
+  shouldStop?: () => Promise<boolean>;
+}
+
 export class NewsAPIClient {
-  private apiUrl = NEWSAPI_BASE_URL;
+  private apiUrl: string;
+  private fixtureRecorder: NewsAPIFixtureStore | null;
   private articlesPerPage: number;
   private maxTotalArticles: number;
   private requestDelayMs: number;
@@ -113,6 +139,8 @@ export class NewsAPIClient {
 
   constructor() {
     // Configuration from environment variables
+    this.apiUrl = process.env.NEWSAPI_BASE_URL || NEWSAPI_BASE_URL;
+    this.fixtureRecorder = process.env.NEWSAPI_RECORD_DIR ? new NewsAPIFixtureStore(process.env.NEWSAPI_RECORD_DIR) : null;
     this.articlesPerPage = parseInt(process.env.NEWSAPI_ARTICLES_PER_PAGE || '100');
     this.maxTotalArticles = parseInt(process.env.NEWSAPI_MAX_TOTAL_ARTICLES || '100');
     this.requestDelayMs = parseInt(process.env.NEWSAPI_REQUEST_DELAY_MS || '1000');
@@ -147,20 +175,29 @@ export class NewsAPIClient {
    * Fetch articles from NewsAPI.ai with pagination
    * Limited to maxTotalArticles (default 100) per search
    */
-  async fetchArticles(requestBody: NewsAPIRequest): Promise<NewsAPIArticle[]> {
+  async fetchArticles(requestBody: NewsAPIRequest, options: FetchArticlesOptions = {}): Promise<NewsAPIArticle[]> {
     const allArticles: NewsAPIArticle[] = [];
-    let currentPage = 1;
+    const previouslyFetched = options.alreadyFetched || 0;
+    let currentPage = options.startPage || 1;
     let hasMorePages = true;
 
     console.log(`Maximum total articles limit: ${this.maxTotalArticles}`);
+    if (currentPage > 1) {
+      console.log(`Resuming from page ${currentPage} (${previouslyFetched} articles already fetched)`);
+    }
 
     while (hasMorePages) {
+      if (options.shouldStop && await options.shouldStop()) {
+        console.log(`[fetchArticles] Stopped before page ${currentPage}`);
+        break;
+      }
+
       // Calculate how many articles we still need
-      const articlesAlreadyFetched = allArticles.length;
+      const articlesAlreadyFetched = previouslyFetched + allArticles.length;
       const articlesRemaining = this.maxTotalArticles - articlesAlreadyFetched;
 
-      // Request up to 100 articles, or fewer if that's all we need
-      const articlesCountForThisPage = Math.min(100, articlesRemaining);
+      // Request up to a page of articles (NewsAPI.ai caps pages at 100), or fewer if that's all we need
+      const articlesCountForThisPage = Math.min(this.articlesPerPage, 100, articlesRemaining);
 
       console.log(`[fetchArticles] Page ${currentPage}: Need ${articlesRemaining} more articles, requesting ${articlesCountForThisPage}`);
 
@@ -196,6 +233,11 @@ export class NewsAPIClient {
         const data: NewsAPIResponse = response.data;
         const articles = data.articles?.results || [];
 
+        // Record mode: keep real responses as fixtures for the stand-in server
+        if (this.fixtureRecorder) {
+          this.fixtureRecorder.recordPage(request, data);
+        }
+
         // TEMPORARY DEBUG: Log the response details
         console.log('=== NEWSAPI RESPONSE DEBUG ===');
         console.log('Response Status:', response.status);
@@ -204,18 +246,23 @@ export class NewsAPIClient {
         console.log('=== END NEWSAPI RESPONSE DEBUG ===');
 
         allArticles.push(...articles);
+        const totalFetched = previouslyFetched + allArticles.length;
 
         console.log(`Fetched ${articles.length} articles from page ${currentPage}`);
-        console.log(`Total articles so far: ${allArticles.length}`);
+        console.log(`Total articles so far: ${totalFetched}`);
+
+        if (options.onPage) {
+          await options.onPage(currentPage, articles, data.articles?.totalResults || 0);
+        }
 
         // Check if we've reached the maximum total articles limit
-        if (allArticles.length >= this.maxTotalArticles) {
+        if (totalFetched >= this.maxTotalArticles) {
           console.log(`Reached maximum article limit of ${this.maxTotalArticles}`);
           hasMorePages = false;
         }
         // Check if there are more pages available
         else if (articles.length === this.articlesPerPage && 
-                 allArticles.length < (data.articles?.totalResults || 0)) {
+                 totalFetched < (data.articles?.totalResults || 0)) {
           currentPage++;
           // Small delay to avoid rate limiting
           await new Promise(resolve => setTimeout(resolve, this.requestDelayMs));
@@ -240,9 +287,10 @@ export class NewsAPIClient {
     }
 
     // Trim to exactly maxTotalArticles if we exceeded the limit
-    if (allArticles.length > this.maxTotalArticles) {
-      console.log(`Trimming from ${allArticles.length} to ${this.maxTotalArticles} articles`);
-      return allArticles.slice(0, this.maxTotalArticles);
+    const remainingLimit = this.maxTotalArticles - previouslyFetched;
+    if (allArticles.length > remainingLimit) {
+      console.log(`Trimming from ${allArticles.length} to ${remainingLimit} articles`);
+      return allArticles.slice(0, remainingLimit);
     }
 
     return allArticles;
@@ -258,11 +306,13 @@ export class NewsAPIClient {
     endDate: string;
     useBooleanQuery?: boolean;
     booleanQuery?: string;
+    keywordLoc?: KeywordLocation;
   }): NewsAPIRequest {
     const { searchTerms, sources, startDate, endDate, useBooleanQuery, booleanQuery } = params;
+    const keywordLoc = params.keywordLoc || 'body';
 
-    // If using boolean query, parse and use it directly
-    if (useBooleanQuery && booleanQuery) {
+    // If using a pre-built NewsAPI.ai query, use it directly
+    if (useBooleanQuery && booleanQuery && isJSONQuery(booleanQuery)) {
       try {
         const parsedQuery = JSON.parse(booleanQuery);
         
@@ -276,6 +326,7 @@ export class NewsAPIClient {
             },
             resultType: "articles",
             articlesSortBy: "date",
+            ...STORY_FIELDS,
             apiKey: process.env.NEWSAPI_API_KEY || ''
           };
         }
@@ -291,16 +342,18 @@ export class NewsAPIClient {
       }
     };
 
-    // Add search terms
-    if (searchTerms.length === 1) {
+    // Add search terms - a boolean search string replaces the plain term list
+    if (useBooleanQuery && booleanQuery && !isJSONQuery(booleanQuery)) {
+      query.$query.$and.push(parseBooleanQuery(booleanQuery, keywordLoc));
+    } else if (searchTerms.length === 1) {
       query.$query.$and.push({
         keyword: searchTerms[0],
-        keywordLoc: "body"
+        keywordLoc
       });
     } else if (searchTerms.length > 1) {
       const termConditions = searchTerms.map(term => ({
         keyword: term,
-        keywordLoc: "body"
+        keywordLoc
       }));
       query.$query.$and.push({
         $or: termConditions
@@ -333,6 +386,7 @@ export class NewsAPIClient {
       },
       resultType: "articles",
       articlesSortBy: "date",
+      ...STORY_FIELDS,
       apiKey: process.env.NEWSAPI_API_KEY || ''
     };
   }
@@ -357,58 +411,23 @@ export class NewsAPIClient {
       categories: article.categories || null,
       sentiment: article.sentiment || null,
       imageUrl: article.image || null,
-      location: article.location || null
+      location: article.location || null,
+
+      // Story grouping
+      newsapiUri: article.uri || null,
+      eventUri: article.eventUri || null,
+      isDuplicate: article.isDuplicate || false,
+      duplicateList: (article.duplicateList || []).map(duplicate => this.articleUriOf(duplicate)).filter((uri): uri is string => !!uri),
+      originalArticle: this.articleUriOf(article.originalArticle)
     }));
   }
 
   /**
-   * Parse boolean query string into NewsAPI.ai format
+   * NewsAPI.ai returns linked articles either as URIs or as article objects
    */
-  private parseBooleanQuery(queryString: string): any {
-    try {
-      // Simple boolean query parser
-      // This is a basic implementation - in production you'd want a more robust parser
-      
-      // Remove quotes and clean up the query
-      const cleanQuery = queryString.replace(/"/g, '').trim();
-      
-      // For now, we'll use a simple approach:
-      // Split by AND/OR and create appropriate conditions
-      if (cleanQuery.includes(' AND ')) {
-        const andTerms = cleanQuery.split(' AND ').map(term => term.trim());
-        if (andTerms.length > 1) {
-          return {
-            $and: andTerms.map(term => ({
-              keyword: term,
-              keywordLoc: "body"
-            }))
-          };
-        }
-      } else if (cleanQuery.includes(' OR ')) {
-        const orTerms = cleanQuery.split(' OR ').map(term => term.trim());
-        if (orTerms.length > 1) {
-          return {
-            $or: orTerms.map(term => ({
-              keyword: term,
-              keywordLoc: "body"
-            }))
-          };
-        }
-      }
-      
-      // If no operators found, treat as single term
-      return {
-        keyword: cleanQuery,
-        keywordLoc: "body"
-      };
-    } catch (error) {
-      console.error('Error parsing boolean query:', error);
-      // Fallback to simple keyword search
-      return {
-        keyword: queryString,
-        keywordLoc: "body"
-      };
-    }
+  private articleUriOf(value: any): string | null {
+    if (!value) return null;
+    return typeof value === 'string' ? value : value.uri || null;
   }
 
   /**
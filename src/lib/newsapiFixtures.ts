@@ -0,0 +1,104 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { NewsAPIArticle, NewsAPIRequest, NewsAPIResponse } from './newsapi';
+
+/**
+ * Articles recorded for one NewsAPI.ai query, served page by page by the stand-in server
+ */
+export interface NewsAPIFixture {
+  recordedAt: string;
+  query: any;            // Query part of the request (no apiKey or paging)
+  totalResults: number;  // What NewsAPI.ai reported when recorded
+  articles: NewsAPIArticle[];
+}
+
+export const DEFAULT_FIXTURE_DIR = path.resolve(process.cwd(), 'fixtures', 'newsapi');
+
+/**
+ * Reads and writes NewsAPI.ai fixtures
+ * Fixtures are keyed by a hash of the query so a recorded search can be replayed by re-running it
+ */
+export class NewsAPIFixtureStore {
+  constructor(private fixtureDir: string = process.env.NEWSAPI_FIXTURE_DIR || DEFAULT_FIXTURE_DIR) {}
+
+  /**
+   * The part of a request that identifies the search - paging and the API key are left out
+   */
+  static queryOf(request: Partial<NewsAPIRequest>): any {
+    return {
+      query: request.query,
+      $filter: request.$filter,
+      resultType: request.resultType,
+      articlesSortBy: request.articlesSortBy
+    };
+  }
+
+  /**
+   * Stable file key for a request's query
+   */
+  static keyOf(request: Partial<NewsAPIRequest>): string {
+    return crypto
+      .createHash('sha1')
+      .update(JSON.stringify(NewsAPIFixtureStore.queryOf(request)))
+      .digest('hex')
+      .substring(0, 16);
+  }
+
+  /**
+   * Load a fixture by key or file name (with or without .json)
+   */
+  load(name: string): NewsAPIFixture | null {
+    const filePath = this.pathFor(name);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  }
+
+  /**
+   * Names of the fixtures available in the directory
+   */
+  list(): string[] {
+    if (!fs.existsSync(this.fixtureDir)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.fixtureDir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.replace(/\.json$/, ''));
+  }
+
+  /**
+   * Append a real response page to the fixture for its query
+   * Page 1 starts a fresh recording so re-running a search replaces the old one
+   */
+  recordPage(request: NewsAPIRequest, response: NewsAPIResponse): string {
+    const key = NewsAPIFixtureStore.keyOf(request);
+    const existing = (request.articlesPage || 1) > 1 ? this.load(key) : null;
+
+    const fixture: NewsAPIFixture = existing || {
+      recordedAt: new Date().toISOString(),
+      query: NewsAPIFixtureStore.queryOf(request),
+      totalResults: 0,
+      articles: []
+    };
+
+    const knownUris = new Set(fixture.articles.map(article => article.uri));
+    const results = response.articles?.results || [];
+    fixture.articles.push(...results.filter(article => !knownUris.has(article.uri)));
+    fixture.totalResults = response.articles?.totalResults || fixture.articles.length;
+
+    fs.mkdirSync(this.fixtureDir, { recursive: true });
+    fs.writeFileSync(this.pathFor(key), JSON.stringify(fixture, null, 2));
+
+    console.log(`📼 Recorded page ${request.articlesPage || 1} (${results.length} articles) to fixture ${key}`);
+
+    return key;
+  }
+
+  private pathFor(name: string): string {
+    return path.join(this.fixtureDir, name.endsWith('.json') ? name : `${name}.json`);
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Article extracted from a vendor PDF export
+ * Every parser returns this shape so importPDF doesn't care which vendor produced the file
+ */
+export interface ExtractedArticle {
+  title: string;
+  pageNumber: number;
+  textContent: string;
+  source?: string;
+  author?: string;
+  publishDate?: string;
+  wordCount?: number;
+}
+
+/**
+ * A vendor-specific PDF layout parser
+ */
+export interface PDFParser {
+  /** Identifier reported back to callers and accepted as an explicit format */
+  readonly name: string;
+
+  /**
+   * Score how strongly the text looks like this vendor's layout (0 = not at all)
+   */
+  detect(fullText: string): number;
+
+  /**
+   * Split the full PDF text into articles
+   */
+  extractArticles(fullText: string, pageCount: number): ExtractedArticle[];
+}
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+/**
+ * Count regex matches in text (pattern must have the global flag)
+ */
+export const countOccurrences = (text: string, pattern: RegExp): number => {
+  return (text.match(pattern) || []).length;
+};
+
+/**
+ * Count whitespace-separated words
+ */
+export const countWords = (text: string): number => {
+  const trimmed = text.trim();
+  return trimmed.length > 0 ? trimmed.split(/\s+/).length : 0;
+};
+
+/**
+ * Parse dates such as "September 1, 2025", "Sep 1, 2025" or "01 Sep 2025" into YYYY-MM-DD
+ * @returns The ISO date, or undefined if the text isn't a recognisable date
+ */
+export const parseMonthNameDate = (dateText: string): string | undefined => {
+  const monthIndex = (name: string) =>
+    MONTH_NAMES.findIndex(month => month.startsWith(name.toLowerCase().substring(0, 3)));
+
+  let year: number | undefined;
+  let month = -1;
+  let day: number | undefined;
+
+  // "September 1, 2025" / "Sep 1 2025" (optionally followed by a weekday)
+  const monthFirst = dateText.match(/([A-Za-z]{3,})\.?\s+(\d{1,2}),?\s+(\d{4})/);
+  // "1 September 2025" / "01 Sep 2025"
+  const dayFirst = dateText.match(/(\d{1,2})\s+([A-Za-z]{3,})\.?,?\s+(\d{4})/);
+
+  if (monthFirst && monthIndex(monthFirst[1]) !== -1) {
+    month = monthIndex(monthFirst[1]);
+    day = parseInt(monthFirst[2]);
+    year = parseInt(monthFirst[3]);
+  } else if (dayFirst && monthIndex(dayFirst[2]) !== -1) {
+    day = parseInt(dayFirst[1]);
+    month = monthIndex(dayFirst[2]);
+    year = parseInt(dayFirst[3]);
+  }
+
+  if (year === undefined || day === undefined || month === -1) {
+    return undefined;
+  }
+
+  const monthPart = String(month + 1).padStart(2, '0');
+  const dayPart = String(day).padStart(2, '0');
+  return `${year}-${monthPart}-${dayPart}`;
+};
+
+/**
+ * Collapse runs of whitespace and drop "Page X of Y" markers
+ */
+export const cleanPageText = (text: string): string => {
+  return text
+    .replace(/^\s*Page\s+\d+\s+of\s+\d+\s*$/gm, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
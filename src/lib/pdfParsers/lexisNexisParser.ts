@@ -0,0 +1,141 @@
+import { PDFParser, ExtractedArticle, countOccurrences, countWords, parseMonthNameDate, cleanPageText } from './base';
+
+// Lines that belong to the Nexis Uni cover page / results list rather than an article
+const COVER_LINE_PATTERNS = [
+  /^User Name:/i,
+  /^Date and Time:/i,
+  /^Job Number:/i,
+  /^Documents? \(\d+\)$/i,
+  /^Client\/Matter:/i,
+  /^Search Terms:/i,
+  /^Search Type:/i,
+  /^Narrowed by:/i,
+  /^Content Type/i,
+  /^\d+\.\s/,
+  /^Page \d+ of \d+$/i
+];
+
+// Metadata labels that end the article body
+const BODY_END_PATTERN = /^(Load-Date|Classification|Graphic|Notes|Correction-Date|Publication-Type|Subject|Geographic|Language|Document-Type):/im;
+
+/**
+ * Parser for LexisNexis Nexis Uni PDF exports
+ * Each document runs from its headline to an "End of Document" marker, with metadata lines
+ * ("Length:", "Byline:") before a "Body" heading
+ */
+export class LexisNexisParser implements PDFParser {
+  readonly name = 'lexisnexis';
+
+  /**
+   * Score how strongly the text looks like a Nexis Uni export
+   */
+  detect(fullText: string): number {
+    const endMarkers = countOccurrences(fullText, /^\s*End of Document\s*$/gm);
+    const loadDates = countOccurrences(fullText, /^Load-Date:/gm);
+    const jobNumber = countOccurrences(fullText, /^Job Number:/gm);
+
+    return endMarkers * 3 + loadDates * 2 + jobNumber;
+  }
+
+  /**
+   * Extract articles from the full PDF text
+   */
+  extractArticles(fullText: string, pageCount: number): ExtractedArticle[] {
+    const documents = fullText
+      .split(/^\s*End of Document\s*$/m)
+      .filter(chunk => /^Body\s*$/m.test(chunk));
+
+    console.log(`Found ${documents.length} Nexis Uni documents`);
+
+    const articles: ExtractedArticle[] = [];
+
+    documents.forEach((documentText, index) => {
+      const article = this.parseDocument(documentText, index + 1);
+      if (article) {
+        articles.push(article);
+      } else {
+        console.log(`Skipping Nexis Uni document ${index + 1} - could not find headline`);
+      }
+    });
+
+    return articles;
+  }
+
+  /**
+   * Parse a single document chunk
+   */
+  private parseDocument(documentText: string, documentNumber: number): ExtractedArticle | null {
+    const bodyMatch = documentText.match(/^Body\s*$/m);
+    if (!bodyMatch || bodyMatch.index === undefined) return null;
+
+    const headerLines = documentText
+      .substring(0, bodyMatch.index)
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0);
+
+    // The publication date line anchors the header: outlet is above it, headline above that
+    const dateLineIndex = headerLines.findIndex(line =>
+      /^[A-Z][a-z]+ \d{1,2}, \d{4}/.test(line) && parseMonthNameDate(line) !== undefined
+    );
+    if (dateLineIndex < 1) return null;
+
+    const source = headerLines[dateLineIndex - 1];
+    const title = this.collectTitle(headerLines.slice(0, dateLineIndex - 1));
+    if (!title) return null;
+
+    const byline = this.readField(headerLines, 'Byline');
+    const length = this.readField(headerLines, 'Length');
+
+    // Body text runs until the trailing metadata block
+    let bodyText = documentText.substring(bodyMatch.index + bodyMatch[0].length);
+    const bodyEnd = bodyText.match(BODY_END_PATTERN);
+    if (bodyEnd && bodyEnd.index !== undefined) {
+      bodyText = bodyText.substring(0, bodyEnd.index);
+    }
+
+    // Page headers repeat the headline - remove them before collapsing whitespace
+    bodyText = bodyText
+      .split('\n')
+      .filter(line => line.trim() !== title)
+      .join('\n');
+    const textContent = cleanPageText(bodyText);
+
+    const lengthMatch = length?.match(/([\d,]+)\s+words/i);
+
+    return {
+      title,
+      pageNumber: documentNumber,
+      textContent,
+      source,
+      author: byline ? byline.replace(/^By\s+/i, '') : undefined,
+      publishDate: parseMonthNameDate(headerLines[dateLineIndex]),
+      wordCount: lengthMatch ? parseInt(lengthMatch[1].replace(/,/g, '')) : countWords(textContent)
+    };
+  }
+
+  /**
+   * Build the headline from the lines above the outlet, skipping cover-page lines
+   * Headlines can wrap, so walk backwards until a cover line or blank header is hit
+   */
+  private collectTitle(lines: string[]): string | undefined {
+    const titleLines: string[] = [];
+
+    for (let i = lines.length - 1; i >= 0 && titleLines.length < 3; i--) {
+      if (COVER_LINE_PATTERNS.some(pattern => pattern.test(lines[i]))) break;
+      titleLines.unshift(lines[i]);
+    }
+
+    const title = titleLines.join(' ').trim();
+    return title.length > 0 ? title : undefined;
+  }
+
+  /**
+   * Read a "Label: value" metadata line from the header
+   */
+  private readField(lines: string[], label: string): string | undefined {
+    const prefix = `${label}:`;
+    const line = lines.find(l => l.startsWith(prefix));
+    return line ? line.substring(prefix.length).trim() : undefined;
+  }
+}
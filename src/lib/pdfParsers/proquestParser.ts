@@ -0,0 +1,117 @@
+import { PDFParser, ExtractedArticle, countOccurrences, countWords, parseMonthNameDate, cleanPageText } from './base';
+
+// Labels in the ProQuest record that end a multi-line field such as the abstract or full text
+const TRAILING_FIELD_PATTERN = /^ProQuest document link|^(Full text|Subject|Location|Company \/ organization|People|Identifier \/ keyword|Credit|Illustration|Title|Publication title|Publication year|Publication date|Section|Publisher|Source type|Language of publication|Document type|ProQuest document ID|Document URL|Copyright|Last updated|Database):/im;
+
+/**
+ * Parser for ProQuest PDF exports
+ * Each record starts with "Document N of M" and carries labelled fields
+ * ("Author:", "Full text:", "Publication title:", "Publication date:")
+ */
+export class ProQuestParser implements PDFParser {
+  readonly name = 'proquest';
+
+  /**
+   * Score how strongly the text looks like a ProQuest export
+   */
+  detect(fullText: string): number {
+    const documentHeaders = countOccurrences(fullText, /^Document \d+ of \d+$/gm);
+    const documentIds = countOccurrences(fullText, /ProQuest document ID:/g);
+    const documentLinks = countOccurrences(fullText, /ProQuest document link/g);
+
+    return documentHeaders * 2 + documentIds * 3 + documentLinks;
+  }
+
+  /**
+   * Extract articles from the full PDF text
+   */
+  extractArticles(fullText: string, pageCount: number): ExtractedArticle[] {
+    const records = fullText.split(/^Document \d+ of \d+$/m).slice(1);
+
+    console.log(`Found ${records.length} ProQuest records`);
+
+    const articles: ExtractedArticle[] = [];
+
+    records.forEach((recordText, index) => {
+      const article = this.parseRecord(recordText, index + 1);
+      if (article) {
+        articles.push(article);
+      } else {
+        console.log(`Skipping ProQuest record ${index + 1} - no title found`);
+      }
+    });
+
+    return articles;
+  }
+
+  /**
+   * Parse a single "Document N of M" record
+   */
+  private parseRecord(recordText: string, documentNumber: number): ExtractedArticle | null {
+    const lines = recordText.split('\n').map(line => line.trim());
+
+    // Prefer the labelled title; fall back to the heading line at the top of the record
+    const title = this.readField(lines, 'Title') || lines.find(line => line.length > 0);
+    if (!title) return null;
+
+    const publicationTitle = this.readField(lines, 'Publication title');
+    const publicationDate = this.readField(lines, 'Publication date');
+    const author = this.readField(lines, 'Author');
+
+    const textContent = cleanPageText(
+      this.readBlock(recordText, 'Full text') || this.readBlock(recordText, 'Abstract') || ''
+    );
+
+    return {
+      title,
+      pageNumber: documentNumber,
+      textContent,
+      // "The Guardian; London (UK)" -> "The Guardian"
+      source: publicationTitle ? publicationTitle.split(';')[0].trim() : undefined,
+      author: author ? this.formatAuthors(author) : undefined,
+      publishDate: publicationDate ? parseMonthNameDate(publicationDate) : undefined,
+      wordCount: countWords(textContent)
+    };
+  }
+
+  /**
+   * Read a single-line "Label: value" field
+   */
+  private readField(lines: string[], label: string): string | undefined {
+    const prefix = `${label}:`;
+    const line = lines.find(l => l.startsWith(prefix));
+    const value = line ? line.substring(prefix.length).trim() : '';
+    return value.length > 0 ? value : undefined;
+  }
+
+  /**
+   * Read a multi-line field that runs until the next known label
+   */
+  private readBlock(recordText: string, label: string): string | undefined {
+    const start = recordText.match(new RegExp(`^${label}:`, 'm'));
+    if (!start || start.index === undefined) return undefined;
+
+    let block = recordText.substring(start.index + start[0].length);
+    const end = block.match(TRAILING_FIELD_PATTERN);
+    if (end && end.index !== undefined) {
+      block = block.substring(0, end.index);
+    }
+
+    block = block.trim();
+    return block.length > 0 && !/^None available\.?$/i.test(block) ? block : undefined;
+  }
+
+  /**
+   * Convert "Smith, Jane; Doe, John" into "Jane Smith, John Doe"
+   */
+  private formatAuthors(authorText: string): string {
+    return authorText
+      .split(';')
+      .map(name => {
+        const parts = name.split(',').map(part => part.trim());
+        return parts.length === 2 && parts[1].length > 0 ? `${parts[1]} ${parts[0]}` : name.trim();
+      })
+      .filter(name => name.length > 0)
+      .join(', ');
+  }
+}
@@ -0,0 +1,83 @@
+import * as crypto from 'crypto';
+import { ExtractedArticle, ExtractionWarning } from './pdfExtractor';
+
+export interface PDFCandidate extends ExtractedArticle {
+  candidateId: number;
+  confidence: number;
+  warnings: ExtractionWarning[];
+}
+
+export interface PDFPreview {
+  previewId: string;
+  projectId: string;
+  fileName: string;
+  parser: string;
+  candidates: PDFCandidate[];
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Holds PDF extraction previews in memory until the user commits or they expire
+ * Nothing is written to the database until the selected candidates are committed
+ */
+export class PDFPreviewCache {
+  private static previews: Map<string, PDFPreview> = new Map();
+  private static readonly ttlMs = parseInt(process.env.PDF_PREVIEW_TTL_MS || '3600000'); // 1 hour default
+
+  /**
+   * Store a new preview and return it with its ID
+   */
+  static create(data: Omit<PDFPreview, 'previewId' | 'createdAt' | 'expiresAt'>): PDFPreview {
+    this.removeExpired();
+
+    const preview: PDFPreview = {
+      ...data,
+      previewId: crypto.randomUUID(),
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + this.ttlMs)
+    };
+
+    this.previews.set(preview.previewId, preview);
+    console.log(`📄 Stored PDF preview ${preview.previewId} with ${preview.candidates.length} candidates`);
+
+    return preview;
+  }
+
+  /**
+   * Get a preview if it exists and hasn't expired
+   */
+  static get(previewId: string): PDFPreview | undefined {
+    this.removeExpired();
+    return this.previews.get(previewId);
+  }
+
+  /**
+   * Get a preview and remove it in one step, so only one commit can have it
+   * @returns Undefined if it doesn't exist, has expired or was already taken
+   */
+  static take(previewId: string): PDFPreview | undefined {
+    const preview = this.get(previewId);
+    this.previews.delete(previewId);
+    return preview;
+  }
+
+  /**
+   * Put back a preview taken for a commit that failed, so it can be committed again
+   */
+  static restore(preview: PDFPreview): void {
+    this.previews.set(preview.previewId, preview);
+  }
+
+  /**
+   * Drop previews past their expiry
+   */
+  private static removeExpired(): void {
+    const now = new Date();
+    this.previews.forEach((preview, previewId) => {
+      if (preview.expiresAt <= now) {
+        this.previews.delete(previewId);
+      }
+    });
+  }
+}
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+// diffLines needs no database; the stand-in keeps Prisma from loading its engine
+require.cache[require.resolve('./db')] = { exports: { __esModule: true, default: {} } } as any;
+
+const { diffLines } = require('./promptTemplates') as typeof import('./promptTemplates');
+
+test('a changed line shows as removed then added, with line numbers from each version', () => {
+  assert.deepEqual(diffLines(['Role', 'Old rule', 'Output'], ['Role', 'New rule', 'Output']), [
+    { change: 'unchanged', text: 'Role', fromLine: 1, toLine: 1 },
+    { change: 'removed', text: 'Old rule', fromLine: 2, toLine: null },
+    { change: 'added', text: 'New rule', fromLine: null, toLine: 2 },
+    { change: 'unchanged', text: 'Output', fromLine: 3, toLine: 3 }
+  ]);
+});
+
+test('lines added or removed around unchanged ones keep the unchanged lines aligned', () => {
+  assert.deepEqual(diffLines(['a', 'b', 'c'], ['x', 'a', 'c', 'd']), [
+    { change: 'added', text: 'x', fromLine: null, toLine: 1 },
+    { change: 'unchanged', text: 'a', fromLine: 1, toLine: 2 },
+    { change: 'removed', text: 'b', fromLine: 2, toLine: null },
+    { change: 'unchanged', text: 'c', fromLine: 3, toLine: 3 },
+    { change: 'added', text: 'd', fromLine: null, toLine: 4 }
+  ]);
+});
+
+test('identical and empty versions', () => {
+  assert.deepEqual(diffLines(['a', 'b'], ['a', 'b']).map(line => line.change), ['unchanged', 'unchanged']);
+  assert.deepEqual(diffLines([], ['a']), [{ change: 'added', text: 'a', fromLine: null, toLine: 1 }]);
+  assert.deepEqual(diffLines(['a'], []), [{ change: 'removed', text: 'a', fromLine: 1, toLine: null }]);
+});
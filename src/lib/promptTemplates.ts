@@ -0,0 +1,260 @@
+import { Prisma, PromptTemplate } from '@prisma/client';
+import db from './db';
+import { clearPromptCache } from './gemini';
+
+export const PROMPT_TYPES = ['article-analysis', 'quote-analysis'] as const;
+
+export type PromptType = typeof PROMPT_TYPES[number];
+
+export interface PromptVersionRequest {
+  content: string;
+  description?: string;
+  createdBy?: string;
+  activate?: boolean; // Make the new version the one analysis uses (default: saved as a draft)
+}
+
+export interface PromptDiffLine {
+  change: 'unchanged' | 'added' | 'removed';
+  text: string;
+  fromLine: number | null; // Line number in the "from" version
+  toLine: number | null;   // Line number in the "to" version
+}
+
+export interface PromptDiff {
+  type: PromptType;
+  from: number;
+  to: number;
+  added: number;
+  removed: number;
+  unchanged: number;
+  lines: PromptDiffLine[];
+}
+
+export interface PromptTypeVersions {
+  type: PromptType;
+  activeVersion: number | null;
+  versions: PromptTemplate[];
+}
+
+/**
+ * Versioned prompt templates for each analysis prompt type
+ * Versions are never edited or deleted: a change is a new version, and any version can be made
+ * the active one. Exactly one version per type is active, and activating a version clears the
+ * prompt and context caches so the next analysis uses it. Every activation is logged, so rollbacks
+ * step back through the versions in the order they were active.
+ */
+export class PromptTemplateService {
+  /**
+   * All versions of each prompt type, newest first
+   */
+  async listVersions(type?: PromptType): Promise<PromptTypeVersions[]> {
+    const templates = await db.promptTemplate.findMany({
+      where: type ? { type } : {},
+      orderBy: [{ type: 'asc' }, { version: 'desc' }]
+    });
+
+    return (type ? [type] : [...PROMPT_TYPES]).map(promptType => {
+      const versions = templates.filter(template => template.type === promptType);
+      return {
+        type: promptType,
+        activeVersion: versions.find(template => template.isActive)?.version ?? null,
+        versions
+      };
+    });
+  }
+
+  /**
+   * One version of a prompt type
+   */
+  async getVersion(type: PromptType, version: number): Promise<PromptTemplate | null> {
+    return db.promptTemplate.findUnique({
+      where: { type_version: { type, version } }
+    });
+  }
+
+  /**
+   * Save a new version numbered after the latest one, optionally activating it
+   */
+  async createVersion(type: PromptType, request: PromptVersionRequest): Promise<PromptTemplate> {
+    const template = await db.$transaction(async (tx) => {
+      const latest = await tx.promptTemplate.findFirst({
+        where: { type },
+        orderBy: { version: 'desc' },
+        select: { version: true }
+      });
+
+      // Two saves at once would pick the same number - the (type, version) unique index rejects the second
+      const created = await tx.promptTemplate.create({
+        data: {
+          type,
+          content: request.content,
+          version: (latest?.version || 0) + 1,
+          isActive: false,
+          description: request.description,
+          createdBy: request.createdBy
+        }
+      });
+
+      if (!request.activate) {
+        return created;
+      }
+
+      return this.activate(tx, created, true);
+    });
+
+    if (request.activate) {
+      this.invalidateCaches(type, template.version);
+    }
+
+    return template;
+  }
+
+  /**
+   * Make a version the active one for its type
+   * @returns The activated version, or null if it doesn't exist
+   */
+  async activateVersion(type: PromptType, version: number): Promise<PromptTemplate | null> {
+    const template = await this.getVersion(type, version);
+
+    if (!template) {
+      return null;
+    }
+
+    // Reactivating the active version still clears the caches, but isn't logged twice in a row
+    const activated = await db.$transaction(tx => this.activate(tx, template, !template.isActive));
+
+    this.invalidateCaches(type, version);
+
+    return activated;
+  }
+
+  /**
+   * Undo the latest activation, reactivating the version that was active before it
+   * Repeated rollbacks keep stepping back through the activation history
+   * @returns The reactivated version, or null if there is no earlier activation to return to
+   */
+  async rollback(type: PromptType): Promise<PromptTemplate | null> {
+    const previous = await db.$transaction(async (tx) => {
+      const [latest, earlier] = await tx.promptActivation.findMany({
+        where: { type, rolledBackAt: null },
+        orderBy: { activatedAt: 'desc' },
+        take: 2,
+        include: { template: true }
+      });
+
+      if (!earlier) {
+        return null;
+      }
+
+      await tx.promptActivation.update({
+        where: { id: latest.id },
+        data: { rolledBackAt: new Date() }
+      });
+
+      // Returning to an earlier activation isn't a new one, so the next rollback steps back past it
+      return this.activate(tx, earlier.template, false);
+    });
+
+    if (!previous) {
+      return null;
+    }
+
+    this.invalidateCaches(type, previous.version);
+
+    return previous;
+  }
+
+  /**
+   * Line-by-line differences between two versions of a prompt type
+   * @returns The diff, or null if either version doesn't exist
+   */
+  async diffVersions(type: PromptType, from: number, to: number): Promise<PromptDiff | null> {
+    const [fromTemplate, toTemplate] = await Promise.all([
+      this.getVersion(type, from),
+      this.getVersion(type, to)
+    ]);
+
+    if (!fromTemplate || !toTemplate) {
+      return null;
+    }
+
+    const lines = diffLines(fromTemplate.content.split('\n'), toTemplate.content.split('\n'));
+
+    return {
+      type,
+      from,
+      to,
+      added: lines.filter(line => line.change === 'added').length,
+      removed: lines.filter(line => line.change === 'removed').length,
+      unchanged: lines.filter(line => line.change === 'unchanged').length,
+      lines
+    };
+  }
+
+  /**
+   * Make a version the only active one of its type
+   * @param record Whether to add the activation to the history - rollbacks return to an activation already in it
+   */
+  private async activate(tx: Prisma.TransactionClient, template: PromptTemplate, record: boolean): Promise<PromptTemplate> {
+    await tx.promptTemplate.updateMany({
+      where: { type: template.type, isActive: true },
+      data: { isActive: false }
+    });
+
+    if (record) {
+      await tx.promptActivation.create({
+        data: { type: template.type, templateId: template.id }
+      });
+    }
+
+    return tx.promptTemplate.update({
+      where: { id: template.id },
+      data: { isActive: true, activatedAt: new Date() }
+    });
+  }
+
+  /**
+   * Drop the cached prompt text and the Gemini contexts built from it
+   * clearPromptCache also clears GeminiContextCache, including server-side cached contents
+   */
+  private invalidateCaches(type: PromptType, version: number): void {
+    clearPromptCache();
+    console.log(`📝 Prompt ${type} v${version} is now active`);
+  }
+}
+
+/**
+ * Diff two lists of lines through their longest common subsequence
+ */
+export function diffLines(from: string[], to: string[]): PromptDiffLine[] {
+  // common[i][j] = length of the longest common subsequence of from[i..] and to[j..]
+  const common: number[][] = Array.from({ length: from.length + 1 }, () => new Array(to.length + 1).fill(0));
+
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      common[i][j] = from[i] === to[j]
+        ? common[i + 1][j + 1] + 1
+        : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: PromptDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < from.length || j < to.length) {
+    if (i < from.length && j < to.length && from[i] === to[j]) {
+      lines.push({ change: 'unchanged', text: from[i], fromLine: i + 1, toLine: j + 1 });
+      i++;
+      j++;
+    } else if (i < from.length && (j === to.length || common[i + 1][j] >= common[i][j + 1])) {
+      lines.push({ change: 'removed', text: from[i], fromLine: i + 1, toLine: null });
+      i++;
+    } else {
+      lines.push({ change: 'added', text: to[j], fromLine: null, toLine: j + 1 });
+      j++;
+    }
+  }
+
+  return lines;
+}
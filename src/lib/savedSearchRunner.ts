@@ -0,0 +1,263 @@
+import { SavedSearch } from '@prisma/client';
+import db from './db';
+import { ImportSessionManager, ImportSessionResult } from './importSession';
+import { CronSchedule } from './cronSchedule';
+import { KeywordLocation } from './booleanQuery';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SearchWindow {
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string;   // YYYY-MM-DD, inclusive
+}
+
+export interface SavedSearchRunResult {
+  savedSearchId: string;
+  windows: SearchWindow[];
+  sessions: ImportSessionResult[];
+  coveredUntil: string | null;
+  nextRunAt: Date | null;
+  error?: string;
+  warnings: string[]; // Days NewsAPI.ai had more articles for than the limits let through
+}
+
+/**
+ * Runs saved searches as NewsAPI import sessions, one per uncovered date window
+ * Only whole days up to yesterday are imported, so a day is never covered before it has ended
+ */
+export class SavedSearchRunner {
+  private sessionManager: ImportSessionManager;
+  private maxBackfillDays: number;
+
+  // Saved searches currently running in this process
+  private static running: Set<string> = new Set();
+
+  constructor() {
+    this.sessionManager = new ImportSessionManager();
+    this.maxBackfillDays = parseInt(process.env.SAVED_SEARCH_MAX_BACKFILL_DAYS || '30');
+  }
+
+  /**
+   * Whether a saved search is being run right now
+   */
+  static isRunning(savedSearchId: string): boolean {
+    return SavedSearchRunner.running.has(savedSearchId);
+  }
+
+  /**
+   * Work out the date windows that haven't been imported yet
+   */
+  getPendingWindows(savedSearch: SavedSearch, now: Date = new Date()): SearchWindow[] {
+    const lastDay = this.startOfDay(new Date(now.getTime() - DAY_MS));
+
+    let firstDay = savedSearch.coveredUntil
+      ? this.startOfDay(new Date(savedSearch.coveredUntil.getTime() + DAY_MS))
+      : this.startOfDay(savedSearch.startDate || lastDay);
+
+    if (firstDay > lastDay) {
+      return [];
+    }
+
+    const earliestAllowed = new Date(lastDay.getTime() - (this.maxBackfillDays - 1) * DAY_MS);
+    if (firstDay < earliestAllowed) {
+      console.warn(`⚠ Saved search ${savedSearch.id} is ${Math.round((lastDay.getTime() - firstDay.getTime()) / DAY_MS) + 1} days behind - only the last ${this.maxBackfillDays} days will be imported`);
+      firstDay = earliestAllowed;
+    }
+
+    const windowDays = Math.max(1, savedSearch.windowDays);
+    const windows: SearchWindow[] = [];
+
+    for (let start = firstDay; start <= lastDay; start = new Date(start.getTime() + windowDays * DAY_MS)) {
+      const end = new Date(Math.min(start.getTime() + (windowDays - 1) * DAY_MS, lastDay.getTime()));
+      windows.push({ startDate: this.formatDay(start), endDate: this.formatDay(end) });
+    }
+
+    return windows;
+  }
+
+  /**
+   * Import every pending window in order, stopping at the first failure so coverage stays contiguous
+   * Windows a limit cut short are split and imported again; a single day that is still cut short is covered with a warning
+   */
+  async run(savedSearchId: string, now: Date = new Date()): Promise<SavedSearchRunResult> {
+    if (SavedSearchRunner.running.has(savedSearchId)) {
+      throw new Error(`Saved search ${savedSearchId} is already running`);
+    }
+
+    const savedSearch = await db.savedSearch.findUnique({
+      where: { id: savedSearchId }
+    });
+
+    if (!savedSearch) {
+      throw new Error(`Saved search ${savedSearchId} not found`);
+    }
+
+    SavedSearchRunner.running.add(savedSearchId);
+
+    try {
+      const windows = this.getPendingWindows(savedSearch, now);
+      const sessions: ImportSessionResult[] = [];
+      let coveredUntil = savedSearch.coveredUntil;
+      let error: string | undefined;
+
+      if (windows.length === 0) {
+        console.log(`Saved search "${savedSearch.name}" is up to date (covered until ${coveredUntil ? this.formatDay(coveredUntil) : 'never'})`);
+      }
+
+      const warnings: string[] = [];
+      const queue = [...windows];
+
+      while (queue.length > 0) {
+        const window = queue.shift() as SearchWindow;
+        console.log(`🔎 Saved search "${savedSearch.name}": importing ${window.startDate} to ${window.endDate}`);
+
+        const result = await this.sessionManager.runImportSession({
+          projectId: savedSearch.projectId,
+          searchTerms: savedSearch.searchTerms,
+          sources: savedSearch.sources,
+          startDate: window.startDate,
+          endDate: window.endDate,
+          useBooleanQuery: savedSearch.useBooleanQuery,
+          booleanQuery: savedSearch.booleanQuery || undefined,
+          keywordLoc: (savedSearch.keywordLoc as KeywordLocation | null) || undefined,
+          articleLimit: savedSearch.articleLimit || undefined,
+          savedSearchId
+        });
+
+        sessions.push(result);
+
+        if (result.status !== 'completed') {
+          error = `Session ${result.sessionId} for ${window.startDate} to ${window.endDate} ended as ${result.status}${result.error ? `: ${result.error}` : ''}`;
+          console.error(`✗ Saved search "${savedSearch.name}" stopped: ${error}`);
+          break;
+        }
+
+        // A limit cut the window short: smaller windows each get the full limit, down to single days
+        if (result.totalResults !== undefined && result.articlesFound < result.totalResults) {
+          const halves = this.splitWindow(window);
+
+          if (halves) {
+            console.warn(`⚠ Saved search "${savedSearch.name}" found ${result.articlesFound} of ${result.totalResults} articles for ${window.startDate} to ${window.endDate} - splitting the window`);
+            queue.unshift(...halves);
+            continue;
+          }
+
+          const warning = `Only ${result.articlesFound} of ${result.totalResults} articles imported for ${window.startDate} (session ${result.sessionId}) - raise the article limit or NEWSAPI_MAX_TOTAL_ARTICLES`;
+          console.warn(`⚠ Saved search "${savedSearch.name}": ${warning}`);
+          warnings.push(warning);
+        }
+
+        coveredUntil = new Date(`${window.endDate}T00:00:00.000Z`);
+        await db.savedSearch.update({
+          where: { id: savedSearchId },
+          data: { coveredUntil, lastSuccessfulRunAt: new Date() }
+        });
+      }
+
+      const nextRunAt = this.getNextRunAt(savedSearch.schedule, now);
+
+      await db.savedSearch.update({
+        where: { id: savedSearchId },
+        data: {
+          lastRunAt: now,
+          lastError: [error, ...warnings].filter(Boolean).join('; ') || null,
+          nextRunAt
+        }
+      });
+
+      return {
+        savedSearchId,
+        windows,
+        sessions,
+        coveredUntil: coveredUntil ? this.formatDay(coveredUntil) : null,
+        nextRunAt,
+        error,
+        warnings
+      };
+
+    } finally {
+      SavedSearchRunner.running.delete(savedSearchId);
+    }
+  }
+
+  /**
+   * Run every active saved search whose next run time has passed
+   */
+  async runDue(now: Date = new Date()): Promise<number> {
+    // Searches created without a next run time get one scheduled rather than running immediately
+    const unscheduled = await db.savedSearch.findMany({
+      where: { isActive: true, nextRunAt: null }
+    });
+    for (const savedSearch of unscheduled) {
+      await db.savedSearch.update({
+        where: { id: savedSearch.id },
+        data: { nextRunAt: this.getNextRunAt(savedSearch.schedule, now) }
+      });
+    }
+
+    const due = await db.savedSearch.findMany({
+      where: { isActive: true, nextRunAt: { lte: now } },
+      orderBy: { nextRunAt: 'asc' }
+    });
+
+    let ran = 0;
+    for (const savedSearch of due) {
+      if (SavedSearchRunner.running.has(savedSearch.id)) continue;
+
+      try {
+        await this.run(savedSearch.id, now);
+        ran++;
+      } catch (error: any) {
+        console.error(`Saved search ${savedSearch.id} failed to run:`, error);
+        await db.savedSearch.update({
+          where: { id: savedSearch.id },
+          data: {
+            lastRunAt: now,
+            lastError: error.message,
+            nextRunAt: this.getNextRunAt(savedSearch.schedule, now)
+          }
+        });
+      }
+    }
+
+    return ran;
+  }
+
+  /**
+   * Next scheduled time, or null if the stored schedule is no longer valid
+   */
+  getNextRunAt(schedule: string, after: Date = new Date()): Date | null {
+    try {
+      return new CronSchedule(schedule).next(after);
+    } catch (error: any) {
+      console.error(`Invalid saved search schedule "${schedule}":`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Split a window into two halves, or null if it is a single day
+   */
+  private splitWindow(window: SearchWindow): [SearchWindow, SearchWindow] | null {
+    const start = new Date(`${window.startDate}T00:00:00.000Z`);
+    const days = Math.round((new Date(`${window.endDate}T00:00:00.000Z`).getTime() - start.getTime()) / DAY_MS) + 1;
+
+    if (days <= 1) {
+      return null;
+    }
+
+    const firstEnd = new Date(start.getTime() + (Math.ceil(days / 2) - 1) * DAY_MS);
+    return [
+      { startDate: window.startDate, endDate: this.formatDay(firstEnd) },
+      { startDate: this.formatDay(new Date(firstEnd.getTime() + DAY_MS)), endDate: window.endDate }
+    ];
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+
+  private formatDay(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
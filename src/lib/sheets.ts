@@ -1,34 +1,13 @@
 import { google } from 'googleapis';
-
-interface ProjectData {
-  id: string;
-  name: string;
-  description?: string;
-  articles: Array<{
-    id: string;
-    title: string;
-    newsOutlet?: string;
-    authors: string[];
-    url?: string;
-    dateWritten?: Date;
-    summaryGemini?: string;
-    categoryGemini?: string;
-    sentimentGemini?: string;
-    quotes: Array<{
-      id: string;
-      stakeholderNameGemini?: string;
-      stakeholderAffiliationGemini?: string;
-      quoteGemini?: string;
-    }>;
-  }>;
-}
+import { ExportValues, ProjectExportData, buildArticleRows, buildQuoteRows } from './exportData';
 
 /**
  * Export project data to Google Sheets
  * @param projectData Project data to export
+ * @param values Export the AI values, or final values with each article's review status
  * @returns URL of the created spreadsheet
  */
-export const exportToGoogleSheets = async (projectData: ProjectData): Promise<string> => {
+export const exportToGoogleSheets = async (projectData: ProjectExportData, values: ExportValues = 'gemini'): Promise<string> => {
   const clientId = process.env.GOOGLE_CLIENT_ID;
   const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
   const refreshToken = process.env.GOOGLE_REFRESH_TOKEN;
@@ -62,35 +41,8 @@ export const exportToGoogleSheets = async (projectData: ProjectData): Promise<st
       throw new Error('Failed to create spreadsheet');
     }
 
-    // Prepare Articles sheet data
-    const articlesData = [
-      ['ID', 'Title', 'News Outlet', 'Authors', 'URL', 'Date Written', 'Summary', 'Category', 'Sentiment'],
-      ...projectData.articles.map(article => [
-        article.id,
-        article.title,
-        article.newsOutlet || '',
-        article.authors.join(', '),
-        article.url || '',
-        article.dateWritten?.toISOString() || '',
-        article.summaryGemini || '',
-        article.categoryGemini || '',
-        article.sentimentGemini || ''
-      ])
-    ];
-
-    // Prepare Quotes sheet data
-    const quotesData = [
-      ['ID', 'Article ID', 'Stakeholder Name', 'Affiliation', 'Quote'],
-      ...projectData.articles.flatMap(article => 
-        article.quotes.map(quote => [
-          quote.id,
-          article.id,
-          quote.stakeholderNameGemini || '',
-          quote.stakeholderAffiliationGemini || '',
-          quote.quoteGemini || ''
-        ])
-      )
-    ];
+    const articlesData = buildArticleRows(projectData, values);
+    const quotesData = buildQuoteRows(projectData);
 
     // Add Articles sheet
     await sheets.spreadsheets.batchUpdate({
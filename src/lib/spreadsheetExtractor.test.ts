@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import ExcelJS from 'exceljs';
+
+/**
+ * Reads spreadsheets west of UTC, where a date cell read in local time would land on the previous day
+ */
+
+process.env.TZ = 'America/New_York';
+
+const { SpreadsheetExtractor } = require('./spreadsheetExtractor') as typeof import('./spreadsheetExtractor');
+
+const extractor = new SpreadsheetExtractor();
+
+const workbook = async (rows: ExcelJS.CellValue[][]): Promise<Buffer> => {
+  const book = new ExcelJS.Workbook();
+  const sheet = book.addWorksheet('Articles');
+  rows.forEach(row => sheet.addRow(row));
+  return Buffer.from(await book.xlsx.writeBuffer());
+};
+
+test('XLSX date cells keep their calendar day', async () => {
+  const file = await workbook([
+    ['Title', 'Date'],
+    ['Drought hits farms', new Date(Date.UTC(2024, 2, 5))],
+    ['New year flood', new Date(Date.UTC(2024, 0, 1))]
+  ]);
+
+  const rows = await extractor.extractRows(file, 'articles.xlsx');
+  const dates = rows.map(row => extractor.mapRow(row, { title: 'Title', dateWritten: 'Date' }).dateWritten);
+
+  assert.deepEqual(dates, ['2024-03-05', '2024-01-01']);
+});
+
+test('text dates are read with the given format, or as ISO dates', async () => {
+  const file = await workbook([
+    ['Title', 'Date'],
+    ['Drought hits farms', '05/03/2024'],
+    ['River runs dry', '2024-03-06T09:30:00Z']
+  ]);
+
+  const rows = await extractor.extractRows(file, 'articles.xlsx');
+  const dates = rows.map(row => extractor.mapRow(row, { title: 'Title', dateWritten: 'Date' }, { dateFormat: 'DD/MM/YYYY' }).dateWritten);
+
+  assert.deepEqual(dates, ['2024-03-05', '2024-03-06']);
+});
+
+test('rich text, formula and hyperlink cells are read as their text', async () => {
+  const file = await workbook([
+    ['Title', 'Outlet', 'URL'],
+    [{ richText: [{ text: 'Drought ' }, { text: 'hits farms' }] }, { formula: '"Daily"&" News"', result: 'Daily News' }, { text: 'https://example.com/a', hyperlink: 'https://example.com/a' }]
+  ]);
+
+  const [row] = await extractor.extractRows(file, 'articles.xlsx');
+  const article = extractor.mapRow(row, { title: 'Title', newsOutlet: 'Outlet', url: 'URL' });
+
+  assert.equal(article.title, 'Drought hits farms');
+  assert.equal(article.newsOutlet, 'Daily News');
+  assert.equal(article.url, 'https://example.com/a');
+});
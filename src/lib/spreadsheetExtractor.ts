@@ -0,0 +1,369 @@
+import path from 'path';
+import { Readable } from 'stream';
+import csvParser from 'csv-parser';
+import ExcelJS from 'exceljs';
+
+/**
+ * Article fields that can be populated from a spreadsheet column
+ */
+export type ArticleImportField = 'title' | 'newsOutlet' | 'authors' | 'url' | 'fullBodyText' | 'dateWritten';
+
+export const ARTICLE_IMPORT_FIELDS: ArticleImportField[] = [
+  'title',
+  'newsOutlet',
+  'authors',
+  'url',
+  'fullBodyText',
+  'dateWritten'
+];
+
+/**
+ * Maps an Article field to the spreadsheet column header it is read from
+ */
+export type ColumnMapping = Partial<Record<ArticleImportField, string>>;
+
+export interface SpreadsheetRow {
+  rowNumber: number; // Row number as shown in the spreadsheet (header is row 1)
+  values: Record<string, any>;
+}
+
+export interface MappedArticle {
+  title: string;
+  newsOutlet?: string;
+  authors: string[];
+  url?: string;
+  fullBodyText?: string;
+  dateWritten?: string; // YYYY-MM-DD when the source value could be parsed
+}
+
+/**
+ * Rewrites a raw outlet name to its canonical form
+ * Plain patterns match the whole name case-insensitively; regex patterns are tested as-is (case-insensitive)
+ */
+export interface OutletNormalisationRule {
+  pattern: string;
+  outlet: string;
+  isRegex?: boolean;
+}
+
+export interface MappingOptions {
+  authorDelimiter?: string;
+  dateFormat?: string; // e.g. "DD/MM/YYYY" or "D MMMM YYYY"
+  outletRules?: OutletNormalisationRule[];
+}
+
+// Regex fragments for each supported date format token
+const DATE_FORMAT_TOKENS: Record<string, string> = {
+  YYYY: '(\\d{4})',
+  YY: '(\\d{2})',
+  MMMM: '([A-Za-z]+)',
+  MMM: '([A-Za-z]{3})\\.?',
+  MM: '(\\d{2})',
+  M: '(\\d{1,2})',
+  DD: '(\\d{2})',
+  D: '(\\d{1,2})'
+};
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+export class SpreadsheetExtractor {
+
+  /**
+   * Read all data rows from a CSV or XLSX file
+   */
+  async extractRows(fileBuffer: Buffer, fileName: string): Promise<SpreadsheetRow[]> {
+    const extension = path.extname(fileName).toLowerCase();
+
+    let records: Record<string, any>[];
+    if (extension === '.csv') {
+      records = await this.parseCSV(fileBuffer);
+    } else if (extension === '.xlsx') {
+      records = await this.parseXLSX(fileBuffer);
+    } else {
+      throw new Error(`Unsupported spreadsheet type: ${extension || 'unknown'}`);
+    }
+
+    console.log(`Spreadsheet ${fileName} has ${records.length} data rows`);
+
+    return records.map((values, index) => ({
+      rowNumber: index + 2,
+      values
+    }));
+  }
+
+  /**
+   * Get the column headers present in the extracted rows
+   */
+  getColumns(rows: SpreadsheetRow[]): string[] {
+    const columns = new Set<string>();
+    rows.forEach(row => Object.keys(row.values).forEach(column => columns.add(column)));
+    return Array.from(columns);
+  }
+
+  /**
+   * Build a default mapping by matching column headers to Article field names (case-insensitive)
+   */
+  detectColumnMapping(columns: string[]): ColumnMapping {
+    const mapping: ColumnMapping = {};
+
+    for (const field of ARTICLE_IMPORT_FIELDS) {
+      const column = columns.find(c => c.trim().toLowerCase() === field.toLowerCase());
+      if (column) {
+        mapping[field] = column;
+      }
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Validate a column mapping against the columns present in the file
+   */
+  validateColumnMapping(mapping: any, columns: string[]): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+      return { isValid: false, errors: ['Column mapping must be an object of field to column name'] };
+    }
+
+    for (const [field, column] of Object.entries(mapping)) {
+      if (!ARTICLE_IMPORT_FIELDS.includes(field as ArticleImportField)) {
+        errors.push(`Unknown article field: ${field}`);
+      } else if (typeof column !== 'string' || !columns.includes(column)) {
+        errors.push(`Column "${column}" for field ${field} not found in file`);
+      }
+    }
+
+    if (!mapping.title) {
+      errors.push('A column must be mapped to title');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Convert a spreadsheet row into article data using a column mapping
+   */
+  mapRow(row: SpreadsheetRow, mapping: ColumnMapping, options: MappingOptions = {}): MappedArticle {
+    const read = (field: ArticleImportField): any => {
+      const column = mapping[field];
+      return column ? row.values[column] : undefined;
+    };
+
+    const authorDelimiter = options.authorDelimiter || ';';
+    const rawAuthors = this.toText(read('authors'));
+    const rawOutlet = this.toText(read('newsOutlet'));
+
+    return {
+      title: this.toText(read('title')) || '',
+      newsOutlet: rawOutlet ? this.normaliseOutlet(rawOutlet, options.outletRules || []) : undefined,
+      authors: rawAuthors
+        ? rawAuthors.split(authorDelimiter).map(author => author.trim()).filter(author => author.length > 0)
+        : [],
+      url: this.toText(read('url')),
+      fullBodyText: this.toText(read('fullBodyText')),
+      dateWritten: this.normaliseDate(read('dateWritten'), options.dateFormat)
+    };
+  }
+
+  /**
+   * Check that a date format string contains year, month and day tokens
+   */
+  validateDateFormat(format: string): boolean {
+    const tokens = this.tokeniseDateFormat(format).tokens;
+    const hasYear = tokens.some(t => t.startsWith('Y'));
+    const hasMonth = tokens.some(t => t.startsWith('M'));
+    const hasDay = tokens.some(t => t.startsWith('D'));
+    return hasYear && hasMonth && hasDay;
+  }
+
+  /**
+   * Apply the first matching outlet normalisation rule
+   */
+  private normaliseOutlet(outlet: string, rules: OutletNormalisationRule[]): string {
+    for (const rule of rules) {
+      const matches = rule.isRegex
+        ? new RegExp(rule.pattern, 'i').test(outlet)
+        : outlet.toLowerCase() === rule.pattern.trim().toLowerCase();
+
+      if (matches) {
+        return rule.outlet;
+      }
+    }
+
+    return outlet;
+  }
+
+  /**
+   * Parse CSV content into records keyed by header
+   */
+  private parseCSV(fileBuffer: Buffer): Promise<Record<string, any>[]> {
+    return new Promise((resolve, reject) => {
+      const records: Record<string, any>[] = [];
+
+      Readable.from(fileBuffer)
+        .pipe(csvParser({
+          mapHeaders: ({ header }) => header.replace(/^\uFEFF/, '').trim()
+        }))
+        .on('data', (record: Record<string, any>) => records.push(record))
+        .on('end', () => resolve(records))
+        .on('error', reject);
+    });
+  }
+
+  /**
+   * Parse the first worksheet of an XLSX workbook into records keyed by header
+   * Empty rows are skipped, and columns without a header are ignored
+   */
+  private async parseXLSX(fileBuffer: Buffer): Promise<Record<string, any>[]> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(fileBuffer as unknown as ExcelJS.Buffer);
+
+    const worksheet = workbook.worksheets[0];
+    if (!worksheet) {
+      return [];
+    }
+
+    // Trim header whitespace so mappings match the CSV behaviour
+    const headers: string[] = [];
+    worksheet.getRow(1).eachCell((cell, column) => {
+      headers[column] = String(this.cellValue(cell.value)).trim();
+    });
+
+    const records: Record<string, any>[] = [];
+    worksheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return;
+
+      const record: Record<string, any> = {};
+      headers.forEach((header, column) => {
+        if (header) {
+          record[header] = this.cellValue(row.getCell(column).value);
+        }
+      });
+      records.push(record);
+    });
+
+    return records;
+  }
+
+  /**
+   * Reduce an XLSX cell to a plain value: formulas to their result, rich text and hyperlinks to their text
+   * Dates stay Date objects so they can be normalised without a format
+   */
+  private cellValue(value: ExcelJS.CellValue): any {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date || typeof value !== 'object') return value;
+
+    if ('richText' in value) return value.richText.map(run => run.text).join('');
+    if ('formula' in value || 'sharedFormula' in value) return this.cellValue(value.result as ExcelJS.CellValue);
+    if ('hyperlink' in value) return this.cellValue(value.text as ExcelJS.CellValue);
+
+    return ''; // Error cells
+  }
+
+  /**
+   * Convert a cell value to trimmed text, or undefined when empty
+   */
+  private toText(value: any): string | undefined {
+    if (value === undefined || value === null) return undefined;
+
+    const text = String(value).trim();
+    return text.length > 0 ? text : undefined;
+  }
+
+  /**
+   * Normalise a date cell to YYYY-MM-DD
+   * Unparseable values are returned unchanged so validation can report them
+   */
+  private normaliseDate(value: any, dateFormat?: string): string | undefined {
+    // XLSX date cells hold the calendar day at UTC midnight, so read them in UTC whatever the server's time zone
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? undefined : value.toISOString().substring(0, 10);
+    }
+
+    const text = this.toText(value);
+    if (!text) return undefined;
+
+    // Already ISO formatted (optionally with a time component)
+    const isoMatch = text.match(/^(\d{4}-\d{2}-\d{2})/);
+    if (isoMatch) {
+      return isoMatch[1];
+    }
+
+    // An explicit format is authoritative - don't guess if it doesn't match
+    if (dateFormat) {
+      return this.parseDateWithFormat(text, dateFormat) || text;
+    }
+
+    const parsed = new Date(text);
+    return isNaN(parsed.getTime()) ? text : this.formatDateOnly(parsed);
+  }
+
+  /**
+   * Split a date format into its tokens and an anchored regex that captures each token
+   */
+  private tokeniseDateFormat(format: string): { tokens: string[]; regex: RegExp } {
+    const tokenPattern = /YYYY|YY|MMMM|MMM|MM|M|DD|D/g;
+    const escape = (literal: string) => literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const tokens: string[] = [];
+
+    let source = '^';
+    let lastIndex = 0;
+    let match;
+    while ((match = tokenPattern.exec(format)) !== null) {
+      source += escape(format.substring(lastIndex, match.index)) + DATE_FORMAT_TOKENS[match[0]];
+      tokens.push(match[0]);
+      lastIndex = match.index + match[0].length;
+    }
+    source += escape(format.substring(lastIndex)) + '$';
+
+    return { tokens, regex: new RegExp(source, 'i') };
+  }
+
+  /**
+   * Parse a date string using a format such as "DD/MM/YYYY" or "D MMMM YYYY"
+   */
+  private parseDateWithFormat(text: string, format: string): string | undefined {
+    const { tokens, regex } = this.tokeniseDateFormat(format);
+    const match = text.match(regex);
+    if (!match) return undefined;
+
+    let year = NaN;
+    let month = NaN;
+    let day = NaN;
+
+    tokens.forEach((token, index) => {
+      const part = match[index + 1];
+      if (token === 'YYYY') year = parseInt(part);
+      else if (token === 'YY') year = 2000 + parseInt(part);
+      else if (token === 'MMMM' || token === 'MMM') {
+        const monthIndex = MONTH_NAMES.findIndex(name => name.startsWith(part.toLowerCase().substring(0, 3)));
+        month = monthIndex === -1 ? NaN : monthIndex + 1;
+      }
+      else if (token === 'MM' || token === 'M') month = parseInt(part);
+      else if (token === 'DD' || token === 'D') day = parseInt(part);
+    });
+
+    const date = new Date(year, month - 1, day);
+    if (isNaN(date.getTime()) || date.getMonth() !== month - 1 || date.getDate() !== day) {
+      return undefined;
+    }
+
+    return this.formatDateOnly(date);
+  }
+
+  /**
+   * Format a date as YYYY-MM-DD using its local calendar day
+   */
+  private formatDateOnly(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
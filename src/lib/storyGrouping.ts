@@ -0,0 +1,385 @@
+import { Prisma } from '@prisma/client';
+import db from './db';
+
+export interface StoryOutlet {
+  name: string;
+  articleCount: number;
+  sentiments: Record<string, number>; // Gemini sentiment -> article count (analysed articles only)
+  categories: Record<string, number>; // Gemini category -> article count
+}
+
+export interface StorySummary {
+  id: string;
+  title: string;
+  eventUri: string | null;
+  firstSeenAt: Date | null;
+  lastSeenAt: Date | null;
+  articleCount: number;
+  outletCount: number;
+  outlets: StoryOutlet[];
+}
+
+export interface StoryRebuildResult {
+  articlesChecked: number;
+  stories: number;
+  groupedArticles: number;
+}
+
+const GROUPABLE_ARTICLE_SELECT = {
+  id: true,
+  title: true,
+  dateWritten: true,
+  newsapiUri: true,
+  eventUri: true,
+  duplicateList: true,
+  originalArticle: true,
+  canonicalArticleId: true,
+  storyId: true
+} as const;
+
+interface GroupableArticle {
+  id: string;
+  title: string;
+  dateWritten: Date | null;
+  newsapiUri: string | null;
+  eventUri: string | null;
+  duplicateList: string[];
+  originalArticle: string | null;
+  canonicalArticleId: string | null;
+  storyId: string | null;
+}
+
+type StoryGroup = {
+  key: string;
+  eventUri: string | null;
+  title: string;
+  articles: GroupableArticle[];
+};
+
+/**
+ * Groups a project's articles into stories: coverage of the same event by different outlets
+ * Articles are linked by a shared NewsAPI.ai eventUri, by NewsAPI.ai's duplicateList/originalArticle,
+ * and by near-duplicate clusters. Every linked group, and every article with an event, becomes a story.
+ */
+export class StoryGrouper {
+  /**
+   * Rebuild a project's stories from its articles
+   * Stories are keyed by event (or original article) so their IDs survive a rebuild
+   */
+  async rebuildProject(projectId: string): Promise<StoryRebuildResult> {
+    const articles: GroupableArticle[] = await db.article.findMany({
+      where: { projectId },
+      select: GROUPABLE_ARTICLE_SELECT
+    });
+
+    const groups = this.groupArticles(articles);
+
+    const storyIds = await db.$transaction(async (tx) => {
+      const keptStoryIds: string[] = [];
+
+      for (const group of groups) {
+        keptStoryIds.push(await this.saveGroup(tx, projectId, group));
+      }
+
+      const groupedIds = groups.flatMap(group => group.articles.map(article => article.id));
+      await tx.article.updateMany({
+        where: { projectId, storyId: { not: null }, id: { notIn: groupedIds } },
+        data: { storyId: null }
+      });
+
+      await tx.story.deleteMany({
+        where: { projectId, id: { notIn: keptStoryIds } }
+      });
+
+      return keptStoryIds;
+    }, { timeout: 60000 });
+
+    const groupedArticles = groups.reduce((sum, group) => sum + group.articles.length, 0);
+    console.log(`📰 Grouped ${groupedArticles} of ${articles.length} articles into ${storyIds.length} stories for project ${projectId}`);
+
+    return {
+      articlesChecked: articles.length,
+      stories: storyIds.length,
+      groupedArticles
+    };
+  }
+
+  /**
+   * Group newly imported articles without regrouping the whole project
+   * Only the new articles, the articles they link to and the stories those already belong to are regrouped;
+   * every other story is closed under its links, so it can't change
+   */
+  async groupNewArticles(projectId: string, articleIds: string[]): Promise<StoryRebuildResult> {
+    const newArticles: GroupableArticle[] = await db.article.findMany({
+      where: { projectId, id: { in: articleIds } },
+      select: GROUPABLE_ARTICLE_SELECT
+    });
+
+    if (newArticles.length === 0) {
+      return { articlesChecked: 0, stories: 0, groupedArticles: 0 };
+    }
+
+    const present = <T>(values: (T | null)[]) => values.filter((value): value is T => value !== null);
+    const newUris = present(newArticles.map(article => article.newsapiUri));
+
+    // Existing articles linked to a new one by event, NewsAPI.ai duplicate links or near-duplicate cluster
+    const linked: GroupableArticle[] = await db.article.findMany({
+      where: {
+        projectId,
+        id: { notIn: articleIds },
+        OR: [
+          { eventUri: { in: present(newArticles.map(article => article.eventUri)) } },
+          { newsapiUri: { in: newArticles.flatMap(article => present([article.originalArticle, ...article.duplicateList])) } },
+          { originalArticle: { in: newUris } },
+          { duplicateList: { hasSome: newUris } },
+          { id: { in: present(newArticles.map(article => article.canonicalArticleId)) } },
+          { canonicalArticleId: { in: articleIds } }
+        ]
+      },
+      select: GROUPABLE_ARTICLE_SELECT
+    });
+
+    // Their stories may now merge, so every member of them is regrouped too
+    const touchedStoryIds = [...new Set(present([...newArticles, ...linked].map(article => article.storyId)))];
+    const storyMembers: GroupableArticle[] = touchedStoryIds.length > 0
+      ? await db.article.findMany({
+        where: { storyId: { in: touchedStoryIds }, id: { notIn: [...articleIds, ...linked.map(article => article.id)] } },
+        select: GROUPABLE_ARTICLE_SELECT
+      })
+      : [];
+
+    const articles = [...newArticles, ...linked, ...storyMembers];
+    const groups = this.groupArticles(articles);
+
+    // One short transaction per story rather than one long one for the whole import
+    const storyIds: string[] = [];
+    for (const group of groups) {
+      storyIds.push(await db.$transaction(tx => this.saveGroup(tx, projectId, group)));
+    }
+
+    const groupedIds = new Set(groups.flatMap(group => group.articles.map(article => article.id)));
+    const ungroupedIds = articles.filter(article => article.storyId && !groupedIds.has(article.id)).map(article => article.id);
+    if (ungroupedIds.length > 0) {
+      await db.article.updateMany({
+        where: { id: { in: ungroupedIds } },
+        data: { storyId: null }
+      });
+    }
+
+    // Stories whose articles all moved to another story (e.g. two events linked by a new article)
+    await db.story.deleteMany({
+      where: { projectId, id: { in: touchedStoryIds, notIn: storyIds } }
+    });
+
+    const groupedArticles = groupedIds.size;
+    console.log(`📰 Grouped ${groupedArticles} of ${articles.length} articles affected by ${newArticles.length} new articles into ${storyIds.length} stories for project ${projectId}`);
+
+    return {
+      articlesChecked: articles.length,
+      stories: storyIds.length,
+      groupedArticles
+    };
+  }
+
+  /**
+   * A project's stories with the outlets that covered each, widest coverage first
+   */
+  async getProjectStories(projectId: string, minOutlets: number = 1): Promise<StorySummary[]> {
+    const stories = await db.story.findMany({
+      where: { projectId },
+      include: {
+        articles: {
+          select: { newsOutlet: true, sentimentGemini: true, categoryGemini: true }
+        }
+      }
+    });
+
+    return stories
+      .filter(story => story.articles.length > 0)
+      .map(({ articles, key, projectId: _projectId, createdAt, updatedAt, ...story }) => {
+        const outlets = this.summariseOutlets(articles);
+        return {
+          ...story,
+          articleCount: articles.length,
+          outletCount: outlets.length,
+          outlets
+        };
+      })
+      .filter(story => story.outletCount >= minOutlets)
+      .sort((a, b) => b.outletCount - a.outletCount
+        || (b.lastSeenAt?.getTime() || 0) - (a.lastSeenAt?.getTime() || 0));
+  }
+
+  /**
+   * One story with its articles side by side, for comparing how outlets framed it
+   */
+  async getStory(projectId: string, storyId: string) {
+    const story = await db.story.findFirst({
+      where: { id: storyId, projectId },
+      include: {
+        articles: {
+          select: {
+            id: true,
+            title: true,
+            newsOutlet: true,
+            authors: true,
+            url: true,
+            dateWritten: true,
+            summaryGemini: true,
+            categoryGemini: true,
+            sentimentGemini: true,
+            isDuplicate: true,
+            canonicalArticleId: true
+          },
+          orderBy: { dateWritten: 'asc' }
+        }
+      }
+    });
+
+    if (!story) {
+      return null;
+    }
+
+    return {
+      ...story,
+      outlets: this.summariseOutlets(story.articles)
+    };
+  }
+
+  /**
+   * Create or update a group's story and point its articles at it
+   */
+  private async saveGroup(tx: Prisma.TransactionClient, projectId: string, group: StoryGroup): Promise<string> {
+    const dates = group.articles
+      .map(article => article.dateWritten)
+      .filter((date): date is Date => !!date)
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    const story = await tx.story.upsert({
+      where: { projectId_key: { projectId, key: group.key } },
+      create: {
+        projectId,
+        key: group.key,
+        eventUri: group.eventUri,
+        title: group.title,
+        firstSeenAt: dates[0] || null,
+        lastSeenAt: dates[dates.length - 1] || null
+      },
+      update: {
+        eventUri: group.eventUri,
+        title: group.title,
+        firstSeenAt: dates[0] || null,
+        lastSeenAt: dates[dates.length - 1] || null
+      }
+    });
+
+    await tx.article.updateMany({
+      where: { id: { in: group.articles.map(article => article.id) } },
+      data: { storyId: story.id }
+    });
+
+    return story.id;
+  }
+
+  /**
+   * Union linked articles into groups and describe each group as a story
+   */
+  private groupArticles(articles: GroupableArticle[]): StoryGroup[] {
+    const parent = articles.map((_, index) => index);
+    const find = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+    const union = (a: number, b: number) => {
+      parent[find(a)] = find(b);
+    };
+
+    const byUri = new Map<string, number>();
+    const byId = new Map<string, number>();
+    const byEvent = new Map<string, number>();
+
+    articles.forEach((article, index) => {
+      byId.set(article.id, index);
+      if (article.newsapiUri) byUri.set(article.newsapiUri, index);
+    });
+
+    articles.forEach((article, index) => {
+      if (article.eventUri) {
+        const first = byEvent.get(article.eventUri);
+        if (first === undefined) {
+          byEvent.set(article.eventUri, index);
+        } else {
+          union(index, first);
+        }
+      }
+
+      const linkedUris = [article.originalArticle, ...article.duplicateList];
+      for (const uri of linkedUris) {
+        const linked = uri ? byUri.get(uri) : undefined;
+        if (linked !== undefined) union(index, linked);
+      }
+
+      const canonical = article.canonicalArticleId ? byId.get(article.canonicalArticleId) : undefined;
+      if (canonical !== undefined) union(index, canonical);
+    });
+
+    const components = new Map<number, GroupableArticle[]>();
+    articles.forEach((article, index) => {
+      const root = find(index);
+      components.set(root, [...(components.get(root) || []), article]);
+    });
+
+    return [...components.values()]
+      .filter(members => members.length > 1 || members[0].eventUri)
+      .map(members => {
+        const earliest = [...members].sort((a, b) =>
+          (a.dateWritten?.getTime() ?? Infinity) - (b.dateWritten?.getTime() ?? Infinity))[0];
+        const eventUri = this.mostCommon(members.map(member => member.eventUri));
+        const original = members.find(member => member.newsapiUri && !member.originalArticle) || earliest;
+
+        return {
+          key: eventUri || `article:${original.newsapiUri || original.id}`,
+          eventUri,
+          title: earliest.title,
+          articles: members
+        };
+      });
+  }
+
+  private summariseOutlets(articles: { newsOutlet: string | null; sentimentGemini: string | null; categoryGemini: string | null }[]): StoryOutlet[] {
+    const outlets = new Map<string, StoryOutlet>();
+
+    for (const article of articles) {
+      const name = article.newsOutlet || 'Unknown Source';
+      const outlet = outlets.get(name) || { name, articleCount: 0, sentiments: {}, categories: {} };
+
+      outlet.articleCount++;
+      if (article.sentimentGemini) {
+        outlet.sentiments[article.sentimentGemini] = (outlet.sentiments[article.sentimentGemini] || 0) + 1;
+      }
+      if (article.categoryGemini) {
+        outlet.categories[article.categoryGemini] = (outlet.categories[article.categoryGemini] || 0) + 1;
+      }
+
+      outlets.set(name, outlet);
+    }
+
+    return [...outlets.values()].sort((a, b) => b.articleCount - a.articleCount);
+  }
+
+  private mostCommon(values: (string | null)[]): string | null {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+      if (value) counts.set(value, (counts.get(value) || 0) + 1);
+    }
+
+    let best: string | null = null;
+    for (const [value, count] of counts) {
+      if (best === null || count > counts.get(best)!) best = value;
+    }
+    return best;
+  }
+}
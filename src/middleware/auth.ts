@@ -10,6 +10,14 @@ declare global {
   }
 }
 
+/**
+ * Name of the authenticated user, from the name given at login
+ * @returns Null for tokens issued without a name
+ */
+export const authenticatedName = (req: Request): string | null => {
+  return typeof req.user?.name === 'string' && req.user.name ? req.user.name : null;
+};
+
 /**
  * JWT Authentication Middleware
  * Verifies JWT token from Authorization header
@@ -1,4 +1,5 @@
 import multer from 'multer';
+import path from 'path';
 
 // Configure multer for PDF uploads
 export const pdfUpload = multer({
@@ -16,3 +17,19 @@ export const pdfUpload = multer({
   },
 });
 
+// Configure multer for CSV/XLSX uploads
+export const spreadsheetUpload = multer({
+  storage: multer.memoryStorage(), // Store in memory for processing
+  limits: {
+    fileSize: 20 * 1024 * 1024, // 20MB max file size
+  },
+  fileFilter: (req, file, cb) => {
+    // Browsers report CSV files with inconsistent mimetypes, so check the extension
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (extension === '.csv' || extension === '.xlsx') {
+      cb(null, true);
+    } else {
+      cb(new Error('Only CSV and XLSX files are allowed'));
+    }
+  },
+});
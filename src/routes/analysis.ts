@@ -4,7 +4,16 @@ import {
   startAnalysisBatch,
   getAnalysisBatchStatus,
   getProjectAnalysisBatches,
-  cancelAnalysisBatch
+  cancelAnalysisBatch,
+  retryFailedAnalysisArticles,
+  getProjectDeadLetter,
+  getProjectAnalysisProvenance,
+  getProjectStaleAnalysis,
+  reanalyseStaleArticles,
+  runProjectAnalysis,
+  getAnalysisRunStatus,
+  cancelAnalysisRun,
+  getProjectAnalysisRuns
 } from '../controllers/analysisController';
 
 const router = express.Router();
@@ -14,8 +23,19 @@ router.post('/batch', createAnalysisBatch);
 router.post('/batch/:batchId/start', startAnalysisBatch);
 router.get('/batch/:batchId', getAnalysisBatchStatus);
 router.post('/batch/:batchId/cancel', cancelAnalysisBatch);
+router.post('/batch/:batchId/retry-failed', retryFailedAnalysisArticles);
+
+// Project-wide runs split into sub-batches
+router.get('/run/:runId', getAnalysisRunStatus);
+router.post('/run/:runId/cancel', cancelAnalysisRun);
 
 // Project-specific endpoints
 router.get('/project/:projectId/batches', getProjectAnalysisBatches);
+router.post('/project/:projectId/run', runProjectAnalysis);
+router.get('/project/:projectId/runs', getProjectAnalysisRuns);
+router.get('/project/:projectId/dead-letter', getProjectDeadLetter);
+router.get('/project/:projectId/provenance', getProjectAnalysisProvenance);
+router.get('/project/:projectId/stale', getProjectStaleAnalysis);
+router.post('/project/:projectId/reanalyse-stale', reanalyseStaleArticles);
 
 export default router;
\ No newline at end of file
@@ -6,7 +6,9 @@ import {
   getArticleById,
   updateArticle,
   deleteArticle,
-  getArticlesByProject
+  getArticlesByProject,
+  getArticleAnalysisHistory,
+  mergeArticles
 } from "../controllers/articleController";
 
 const router = express.Router();
@@ -23,6 +25,12 @@ router.post("/", createArticle);
  */
 router.post("/import", importArticles);
 
+/**
+ * POST /articles/merge
+ * Merge duplicate articles into a survivor
+ */
+router.post("/merge", mergeArticles);
+
 /**
  * GET /articles
  * Retrieve all articles
@@ -35,6 +43,12 @@ router.get("/", getAllArticles);
  */
 router.get("/project/:projectId", getArticlesByProject);
 
+/**
+ * GET /articles/:id/analysis-history
+ * Retrieve an article's archived analysis results
+ */
+router.get("/:id/analysis-history", getArticleAnalysisHistory);
+
 /**
  * GET /articles/:id
  * Retrieve a specific article by ID
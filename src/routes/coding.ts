@@ -0,0 +1,21 @@
+import express from 'express';
+import {
+  getNextForReview,
+  getArticleCodings,
+  reviewArticle,
+  getProjectCodingProgress
+} from '../controllers/codingController';
+
+const router = express.Router();
+
+// Reviewer queue
+router.get('/queue', getNextForReview);
+
+// Per-article codings
+router.get('/articles/:articleId', getArticleCodings);
+router.put('/articles/:articleId', reviewArticle);
+
+// Project-specific endpoints
+router.get('/project/:projectId/progress', getProjectCodingProgress);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,31 @@
+import express from 'express';
+import {
+  createGoldSet,
+  getProjectGoldSets,
+  getGoldSet,
+  upsertGoldArticles,
+  removeGoldArticle,
+  deleteGoldSet,
+  startEvaluationRun,
+  getGoldSetRuns,
+  getEvaluationRun,
+  compareEvaluationRuns
+} from '../controllers/evaluationController';
+
+const router = express.Router();
+
+// Gold sets of human-coded articles
+router.get('/gold-sets', getProjectGoldSets);
+router.post('/gold-sets', createGoldSet);
+router.get('/gold-sets/:goldSetId', getGoldSet);
+router.delete('/gold-sets/:goldSetId', deleteGoldSet);
+router.put('/gold-sets/:goldSetId/articles', upsertGoldArticles);
+router.delete('/gold-sets/:goldSetId/articles/:articleId', removeGoldArticle);
+
+// Evaluation runs against a gold set
+router.post('/gold-sets/:goldSetId/runs', startEvaluationRun);
+router.get('/gold-sets/:goldSetId/runs', getGoldSetRuns);
+router.get('/gold-sets/:goldSetId/compare', compareEvaluationRuns);
+router.get('/runs/:runId', getEvaluationRun);
+
+export default router;
\ No newline at end of file
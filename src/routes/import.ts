@@ -5,15 +5,36 @@ import {
   getSessionStatus,
   getProjectSessions,
   cancelSession,
+  resumeSession,
+  rollbackSession,
   getProjectStats,
   getSearchSources,
   getAvailableCountries,
   getAvailableLanguages,
   importNewsAPI,
   importPDF,
-  importManual
+  previewPDFImport,
+  commitPDFImport,
+  importManual,
+  importCSV
 } from '../controllers/importController';
-import { pdfUpload } from '../middleware/upload';
+import {
+  getAllImportProfiles,
+  getImportProfileById,
+  createImportProfile,
+  updateImportProfile,
+  deleteImportProfile
+} from '../controllers/importProfileController';
+import {
+  getAllSavedSearches,
+  getSavedSearchById,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  runSavedSearch,
+  getSavedSearchHistory
+} from '../controllers/savedSearchController';
+import { pdfUpload, spreadsheetUpload } from '../middleware/upload';
 
 const router = express.Router();
 
@@ -24,11 +45,32 @@ router.post('/start', startImport);
 // New specialized import endpoints
 router.post('/newsapi', importNewsAPI);
 router.post('/pdf', pdfUpload.single('pdf'), importPDF);
+router.post('/pdf/preview', pdfUpload.single('pdf'), previewPDFImport);
+router.post('/pdf/commit', commitPDFImport);
 router.post('/manual', importManual);
+router.post('/csv', spreadsheetUpload.single('file'), importCSV);
+
+// Saved column-mapping profiles for CSV/XLSX imports
+router.get('/profiles', getAllImportProfiles);
+router.get('/profiles/:id', getImportProfileById);
+router.post('/profiles', createImportProfile);
+router.put('/profiles/:id', updateImportProfile);
+router.delete('/profiles/:id', deleteImportProfile);
+
+// Scheduled NewsAPI searches
+router.get('/saved-searches', getAllSavedSearches);
+router.get('/saved-searches/:id', getSavedSearchById);
+router.post('/saved-searches', createSavedSearch);
+router.put('/saved-searches/:id', updateSavedSearch);
+router.delete('/saved-searches/:id', deleteSavedSearch);
+router.post('/saved-searches/:id/run', runSavedSearch);
+router.get('/saved-searches/:id/history', getSavedSearchHistory);
 
 // Session management
 router.get('/session/:sessionId', getSessionStatus);
 router.post('/session/:sessionId/cancel', cancelSession);
+router.post('/session/:sessionId/resume', resumeSession);
+router.post('/session/:sessionId/rollback', rollbackSession);
 
 // Project-specific endpoints
 router.get('/project/:projectId/sessions', getProjectSessions);
@@ -8,8 +8,15 @@ import {
   archiveProject,
   unarchiveProject,
   bulkArchiveProjects,
-  bulkUnarchiveProjects
+  bulkUnarchiveProjects,
+  getProjectDuplicates,
+  detectProjectDuplicates
 } from "../controllers/projectController";
+import {
+  getProjectStories,
+  getProjectStory,
+  rebuildProjectStories
+} from "../controllers/storyController";
 
 const router = express.Router();
 
@@ -25,6 +32,36 @@ router.get("/", getAllProjects);
  */
 router.get("/:id", getProjectById);
 
+/**
+ * GET /projects/:id/duplicates
+ * Retrieve near-duplicate article clusters with their canonical articles
+ */
+router.get("/:id/duplicates", getProjectDuplicates);
+
+/**
+ * POST /projects/:id/duplicates/detect
+ * Re-fingerprint all articles and rebuild near-duplicate clusters
+ */
+router.post("/:id/duplicates/detect", detectProjectDuplicates);
+
+/**
+ * GET /projects/:id/stories
+ * Retrieve the stories in a project with the outlets that covered each
+ */
+router.get("/:id/stories", getProjectStories);
+
+/**
+ * POST /projects/:id/stories/rebuild
+ * Regroup the project's articles into stories
+ */
+router.post("/:id/stories/rebuild", rebuildProjectStories);
+
+/**
+ * GET /projects/:id/stories/:storyId
+ * Retrieve a story with its articles and per-outlet summary
+ */
+router.get("/:id/stories/:storyId", getProjectStory);
+
 /**
  * POST /projects
  * Create a new project
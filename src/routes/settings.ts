@@ -3,7 +3,11 @@ import {
   getSettings,
   updateSettings,
   getGeminiPrompts,
-  updateGeminiPrompts,
+  getPromptVersion,
+  createPromptVersion,
+  diffPromptVersions,
+  activatePromptVersion,
+  rollbackPrompt,
   getCategories,
   updateCategories,
   getContextCacheStatus,
@@ -28,15 +32,39 @@ router.put("/", updateSettings);
 
 /**
  * GET /settings/prompts
- * Retrieve Gemini prompt fragments
+ * List prompt template versions per type
  */
 router.get("/prompts", getGeminiPrompts);
 
 /**
- * PUT /settings/prompts
- * Update Gemini prompt fragments
+ * GET /settings/prompts/:type/diff
+ * Diff two versions of a prompt template
  */
-router.put("/prompts", updateGeminiPrompts);
+router.get("/prompts/:type/diff", diffPromptVersions);
+
+/**
+ * POST /settings/prompts/:type/rollback
+ * Reactivate the previously active version of a prompt template
+ */
+router.post("/prompts/:type/rollback", rollbackPrompt);
+
+/**
+ * POST /settings/prompts/:type/versions
+ * Create a new version of a prompt template
+ */
+router.post("/prompts/:type/versions", createPromptVersion);
+
+/**
+ * GET /settings/prompts/:type/versions/:version
+ * Retrieve one version of a prompt template
+ */
+router.get("/prompts/:type/versions/:version", getPromptVersion);
+
+/**
+ * POST /settings/prompts/:type/versions/:version/activate
+ * Make a version the active prompt template
+ */
+router.post("/prompts/:type/versions/:version/activate", activatePromptVersion);
 
 /**
  * GET /settings/categories
@@ -0,0 +1,19 @@
+import { createNewsAPIStandIn, toNumber } from "./newsapiServer";
+
+/**
+ * Start the NewsAPI.ai stand-in server
+ * npm run standin:newsapi
+ */
+const port = process.env.NEWSAPI_STANDIN_PORT || 4010;
+
+createNewsAPIStandIn({
+  fixture: process.env.NEWSAPI_STANDIN_FIXTURE,
+  failPage: toNumber(process.env.NEWSAPI_STANDIN_FAIL_PAGE),
+  failStatus: toNumber(process.env.NEWSAPI_STANDIN_FAIL_STATUS),
+  failTimes: toNumber(process.env.NEWSAPI_STANDIN_FAIL_TIMES),
+  rateLimitEvery: toNumber(process.env.NEWSAPI_STANDIN_RATE_LIMIT_EVERY),
+  delayMs: toNumber(process.env.NEWSAPI_STANDIN_DELAY_MS)
+}).listen(port, () => {
+  console.log(`📰 NewsAPI.ai stand-in running on port ${port}`);
+  console.log(`   NEWSAPI_BASE_URL=http://localhost:${port}/api/v1/article/getArticles`);
+});
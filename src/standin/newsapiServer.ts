@@ -0,0 +1,118 @@
+import express, { Request, Response } from "express";
+import { NewsAPIFixtureStore, NewsAPIFixture } from "../lib/newsapiFixtures";
+import { NewsAPIResponse } from "../lib/newsapi";
+
+/**
+ * Offline stand-in for the NewsAPI.ai getArticles endpoint
+ *
+ * Serves recorded fixtures page by page so imports can run without network access or an API key.
+ * Point the API at it with NEWSAPI_BASE_URL=http://localhost:4010/api/v1/article/getArticles
+ *
+ * Fixture lookup: the file named after the request's query hash (as written by record mode),
+ * then NEWSAPI_STANDIN_FIXTURE, then "default".
+ *
+ * Failures can be simulated with query parameters on the base URL (or the matching env vars):
+ * - failPage / NEWSAPI_STANDIN_FAIL_PAGE: page number that returns an error
+ * - failStatus / NEWSAPI_STANDIN_FAIL_STATUS: HTTP status for that error (default 500)
+ * - failTimes / NEWSAPI_STANDIN_FAIL_TIMES: fail only the first N requests for the page (default: always)
+ * - rateLimitEvery / NEWSAPI_STANDIN_RATE_LIMIT_EVERY: answer every Nth request with 429
+ * - delayMs / NEWSAPI_STANDIN_DELAY_MS: wait before responding
+ */
+
+export interface StandInOptions {
+  fixtureDir?: string;
+  fixture?: string;
+  failPage?: number;
+  failStatus?: number;
+  failTimes?: number;
+  rateLimitEvery?: number;
+  delayMs?: number;
+}
+
+// NewsAPI.ai never returns more than 100 articles per page
+const MAX_PAGE_SIZE = 100;
+
+export const toNumber = (value: any): number | undefined => {
+  const parsed = parseInt(String(value), 10);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+/**
+ * Build the stand-in Express app
+ */
+export const createNewsAPIStandIn = (options: StandInOptions = {}) => {
+  const app = express();
+  const store = new NewsAPIFixtureStore(options.fixtureDir);
+
+  let requestCount = 0;
+  const pageFailures: Record<number, number> = {};
+
+  app.use(express.json({ limit: '10mb' }));
+
+  app.post("/api/v1/article/getArticles", async (req: Request, res: Response) => {
+    requestCount++;
+
+    const failPage = toNumber(req.query.failPage) ?? options.failPage;
+    const failStatus = toNumber(req.query.failStatus) ?? options.failStatus ?? 500;
+    const failTimes = toNumber(req.query.failTimes) ?? options.failTimes;
+    const rateLimitEvery = toNumber(req.query.rateLimitEvery) ?? options.rateLimitEvery;
+    const delayMs = toNumber(req.query.delayMs) ?? options.delayMs;
+
+    const page = Math.max(1, toNumber(req.body.articlesPage) || 1);
+    const count = Math.min(MAX_PAGE_SIZE, Math.max(1, toNumber(req.body.articlesCount) || MAX_PAGE_SIZE));
+
+    console.log(`[stand-in] Request ${requestCount}: page ${page}, count ${count}`);
+
+    if (delayMs) {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+
+    if (rateLimitEvery && requestCount % rateLimitEvery === 0) {
+      console.log(`[stand-in] Simulating rate limit on request ${requestCount}`);
+      res.set('Retry-After', '1');
+      return res.status(429).json({ error: 'Too many requests (simulated)' });
+    }
+
+    if (failPage === page) {
+      pageFailures[page] = (pageFailures[page] || 0) + 1;
+      if (failTimes === undefined || pageFailures[page] <= failTimes) {
+        console.log(`[stand-in] Simulating ${failStatus} on page ${page}`);
+        return res.status(failStatus).json({ error: `Simulated failure for page ${page}` });
+      }
+    }
+
+    const fixture = findFixture(store, req.body, options.fixture);
+    if (!fixture) {
+      return res.status(404).json({
+        error: `No fixture for this query (key ${NewsAPIFixtureStore.keyOf(req.body)}). Available: ${store.list().join(', ') || 'none'}`
+      });
+    }
+
+    const start = (page - 1) * count;
+    const results = fixture.articles.slice(start, start + count);
+    const totalResults = fixture.articles.length;
+
+    const response: NewsAPIResponse = {
+      articles: {
+        totalResults,
+        page,
+        count,
+        pages: Math.ceil(totalResults / count),
+        results
+      }
+    };
+
+    res.json(response);
+  });
+
+  return app;
+};
+
+/**
+ * Pick the fixture for a request: recorded query first, then the configured or default fixture
+ */
+function findFixture(store: NewsAPIFixtureStore, body: any, fixtureName?: string): NewsAPIFixture | null {
+  return store.load(NewsAPIFixtureStore.keyOf(body))
+    || (fixtureName ? store.load(fixtureName) : null)
+    || store.load('default');
+}
@@ -29,7 +29,8 @@ export const JOB_STATUS = {
   QUEUED: 'queued',
   PROCESSING: 'processing',
   COMPLETED: 'completed',
-  FAILED: 'failed'
+  FAILED: 'failed',
+  CANCELLED: 'cancelled'
 } as const;
 
 /**